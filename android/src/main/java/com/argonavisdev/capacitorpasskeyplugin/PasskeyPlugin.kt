@@ -1,6 +1,9 @@
 package com.argonavisdev.capacitorpasskeyplugin
 
 import android.app.Activity
+import android.app.KeyguardManager
+import android.content.Context
+import android.os.Build
 import android.util.Log
 import androidx.credentials.CreatePublicKeyCredentialRequest
 import androidx.credentials.CredentialManager
@@ -26,8 +29,10 @@ import com.getcapacitor.Plugin
 import com.getcapacitor.PluginCall
 import com.getcapacitor.PluginMethod
 import com.getcapacitor.annotation.CapacitorPlugin
+import kotlinx.coroutines.CancellationException
 import kotlinx.coroutines.CoroutineScope
 import kotlinx.coroutines.Dispatchers
+import kotlinx.coroutines.Job
 import kotlinx.coroutines.SupervisorJob
 import kotlinx.coroutines.cancel
 import kotlinx.coroutines.launch
@@ -48,6 +53,12 @@ class PasskeyPlugin : Plugin() {
 
     private var mainScope: CoroutineScope? = null
 
+    // In-flight ceremony, cancelled by cancelOperation()
+    @Volatile
+    private var pendingJob: Job? = null
+    @Volatile
+    private var pendingCall: PluginCall? = null
+
     /**
      * Initializes the plugin when loaded by Capacitor
      * Sets up coroutine scope for async operations
@@ -186,7 +197,10 @@ class PasskeyPlugin : Plugin() {
             handlePluginError(call, code = ErrorCodes.UNKNOWN, message = "Plugin not initialized")
             return
         }
-        scope.launch(Dispatchers.IO) {
+        // A newer ceremony supersedes the in-flight one, as on web
+        rejectPendingCall("Superseded by a new passkey ceremony.")
+        pendingCall = call
+        pendingJob = scope.launch(Dispatchers.IO) {
             try {
                 withTimeout(timeout) {
                 val activity: Activity? = activity
@@ -255,11 +269,15 @@ class PasskeyPlugin : Plugin() {
                 } // End of withTimeout
             } catch (e: TimeoutCancellationException) {
                 handlePluginError(call, code = ErrorCodes.TIMEOUT, message = "Operation timed out after ${timeout}ms")
+            } catch (e: CancellationException) {
+                // Already rejected by cancelOperation()
             } catch (e: CreateCredentialException) {
                 handleCreatePasskeyException(call, e, authenticatorAttachment)
             } catch (e: Exception) {
                 Log.e("PasskeyPlugin", "Unexpected error during passkey creation: ${e.message}", e)
                 handlePluginError(call, code = ErrorCodes.UNKNOWN, message = "An unexpected error occurred during passkey creation: ${e.message ?: "Unknown error"}")
+            } finally {
+                clearPendingCall(call)
             }
         }
     }
@@ -384,13 +402,20 @@ class PasskeyPlugin : Plugin() {
             }
         }
 
+        // Credential Manager has no autofill surface for WebView inputs
+        val mediation = call.getString("mediation")
+        if (mediation == "conditional") {
+            handlePluginError(call, code = ErrorCodes.UNSUPPORTED, message = "Conditional mediation (passkey autofill) is not supported on Android")
+            return
+        }
+
         val publicKeyString = publicKey.toString()
 
         val credentialManager = CredentialManager.create(context)
 
         // Only prefer immediately available for platform authenticators
-        // Security keys require user interaction (tap/insert)
-        val preferImmediate = authenticatorAttachment != "cross-platform"
+        // Security keys require user interaction (tap/insert); silent mediation never waits for them
+        val preferImmediate = mediation == "silent" || authenticatorAttachment != "cross-platform"
 
         val getCredentialRequest =
             GetCredentialRequest(
@@ -408,7 +433,10 @@ class PasskeyPlugin : Plugin() {
             handlePluginError(call, code = ErrorCodes.UNKNOWN, message = "Plugin not initialized")
             return
         }
-        scope.launch(Dispatchers.IO) {
+        // A newer ceremony supersedes the in-flight one, as on web
+        rejectPendingCall("Superseded by a new passkey ceremony.")
+        pendingCall = call
+        pendingJob = scope.launch(Dispatchers.IO) {
             try {
                 withTimeout(timeout) {
                 val activity: Activity? = activity
@@ -455,15 +483,113 @@ class PasskeyPlugin : Plugin() {
                 } // End of withTimeout
             } catch (e: TimeoutCancellationException) {
                 handlePluginError(call, code = ErrorCodes.TIMEOUT, message = "Operation timed out after ${timeout}ms")
+            } catch (e: CancellationException) {
+                // Already rejected by cancelOperation()
             } catch (e: GetCredentialException) {
                 handleAuthenticationError(call, e, authenticatorAttachment)
             } catch (e: Exception) {
                 Log.e("PasskeyPlugin", "Unexpected error during passkey authentication: ${e.message}", e)
                 handlePluginError(call, code = ErrorCodes.UNKNOWN, message = "An unexpected error occurred during passkey authentication: ${e.message ?: "Unknown error"}")
+            } finally {
+                clearPendingCall(call)
             }
         }
     }
 
+    /**
+     * Cancels the in-flight createPasskey/authenticate call
+     * The pending call is rejected with INTERRUPTED; resolves even when nothing was pending
+     * @param call PluginCall for the cancellation request itself
+     */
+    @PluginMethod
+    fun cancelOperation(call: PluginCall) {
+        rejectPendingCall("Passkey operation was cancelled.")
+        call.resolve()
+    }
+
+    /**
+     * Reports passkey features available through Credential Manager on this device
+     * Passkeys require Android 9 (API 28) and a secure lock screen; conditional mediation,
+     * related origins, extensions and signals are not exposed by Credential Manager
+     * @param call PluginCall resolved with the capabilities object
+     */
+    @PluginMethod
+    fun getCapabilities(call: PluginCall) {
+        val supportsPasskeys = Build.VERSION.SDK_INT >= Build.VERSION_CODES.P
+        val keyguardManager = context.getSystemService(Context.KEYGUARD_SERVICE) as? KeyguardManager
+        val hasSecureLock = keyguardManager?.isDeviceSecure == true
+
+        val extensions = JSObject().apply {
+            put("prf", false)
+            put("largeBlob", false)
+        }
+        val signals = JSObject().apply {
+            put("unknownCredential", false)
+            put("allAcceptedCredentials", false)
+            put("currentUserDetails", false)
+        }
+        val result = JSObject().apply {
+            put("platformAuthenticator", supportsPasskeys && hasSecureLock)
+            put("conditionalMediation", false)
+            put("hybridTransport", supportsPasskeys)
+            put("relatedOrigins", false)
+            put("extensions", extensions)
+            put("signals", signals)
+        }
+        call.resolve(result)
+    }
+
+    /**
+     * Signal API calls resolve as no-ops on Android; getCapabilities() reports signals as unsupported
+     * @param call PluginCall with rpId and credentialId
+     */
+    @PluginMethod
+    fun signalUnknownCredential(call: PluginCall) {
+        call.resolve()
+    }
+
+    /**
+     * No-op, see signalUnknownCredential
+     * @param call PluginCall with rpId, userId and allAcceptedCredentialIds
+     */
+    @PluginMethod
+    fun signalAllAcceptedCredentials(call: PluginCall) {
+        call.resolve()
+    }
+
+    /**
+     * No-op, see signalUnknownCredential
+     * @param call PluginCall with rpId, userId, name and displayName
+     */
+    @PluginMethod
+    fun signalCurrentUserDetails(call: PluginCall) {
+        call.resolve()
+    }
+
+    /**
+     * Rejects the in-flight call with INTERRUPTED and cancels its job
+     * @param message Error message for the rejected call
+     */
+    private fun rejectPendingCall(message: String) {
+        val job = pendingJob
+        val pending = pendingCall
+        pendingJob = null
+        pendingCall = null
+
+        if (pending != null) {
+            handlePluginError(pending, code = ErrorCodes.INTERRUPTED, message = message)
+        }
+        // Cancelling the coroutine also dismisses the Credential Manager UI
+        job?.cancel()
+    }
+
+    private fun clearPendingCall(call: PluginCall) {
+        if (pendingCall === call) {
+            pendingCall = null
+            pendingJob = null
+        }
+    }
+
     /**
      * Maps credential retrieval exceptions to standardized error codes
      * Handles various authentication failure scenarios consistently
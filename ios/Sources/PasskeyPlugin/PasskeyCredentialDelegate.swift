@@ -1,5 +1,6 @@
 import Foundation
 import AuthenticationServices
+import CryptoKit
 import UIKit
 
 @available(iOS 15.0, *)
@@ -10,6 +11,7 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
     var completion: ((ResultData) -> Void)?
     private var timeoutTimer: Timer?
     private var hasCompleted = false
+    private var controller: ASAuthorizationController?
 
     /// Thread-safe method to call completion exactly once, preventing race conditions
     /// between timeout and authorization callbacks.
@@ -17,6 +19,7 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
         guard !hasCompleted else { return }
         hasCompleted = true
         cleanupTimer()
+        controller = nil
         completion?(result)
         completion = nil
     }
@@ -42,7 +45,7 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
                 "rawId": rawId,
                 "type": type,
                 "authenticatorAttachment": "platform",
-                "clientExtensionResults": [:],
+                "clientExtensionResults": registrationExtensionResults(credential),
                 "response": response
             ]
             completeOnce(with: .success(result))
@@ -70,7 +73,7 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
                 "rawId": rawId,
                 "type": type,
                 "authenticatorAttachment": "platform",
-                "clientExtensionResults": [:],
+                "clientExtensionResults": assertionExtensionResults(credential),
                 "response": response
             ]
             completeOnce(with: .success(result))
@@ -150,11 +153,18 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
             .first { $0.isKeyWindow } ?? ASPresentationAnchor()
     }
 
-    func performAuthForController(controller: ASAuthorizationController, timeout: TimeInterval? = nil, completion: @escaping (ResultData) -> Void) {
+    func performAuthForController(controller: ASAuthorizationController, timeout: TimeInterval? = nil, mediation: String? = nil, completion: @escaping (ResultData) -> Void) {
         self.completion = completion
+        self.controller = controller
         controller.delegate = self
         controller.presentationContextProvider = self
-        
+
+        // AutoFill-assisted requests wait for the user to pick a passkey from the QuickType bar, so they never time out
+        if mediation == "conditional", #available(iOS 16.0, *) {
+            controller.performAutoFillAssistedRequests()
+            return
+        }
+
         // Set up timeout if provided
         if let timeoutInterval = timeout, timeoutInterval > 0 {
             timeoutTimer = Timer.scheduledTimer(withTimeInterval: timeoutInterval / 1000.0, repeats: false) { [weak self] _ in
@@ -164,9 +174,29 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
             }
         }
         
+        if mediation == "silent", #available(iOS 16.0, *) {
+            controller.performRequests(options: .preferImmediatelyAvailableCredentials)
+            return
+        }
+
         controller.performRequests()
     }
     
+    /// Dismisses the system sheet (iOS 16+) and rejects the pending ceremony as interrupted.
+    func cancel(message: String = "Passkey operation was cancelled") {
+        // Complete first so the controller's own .canceled callback is ignored by completeOnce
+        let activeController = controller
+        let cancelError = NSError(
+            domain: "PasskeyCancelled",
+            code: -1010,
+            userInfo: [NSLocalizedDescriptionKey: message]
+        )
+        completeOnce(with: .failure(cancelError))
+        if #available(iOS 16.0, *) {
+            activeController?.cancel()
+        }
+    }
+
     private func handleTimeout() {
         let timeoutError = NSError(
             domain: "PasskeyTimeout",
@@ -181,6 +211,49 @@ class PasskeyCredentialDelegate: NSObject, ASAuthorizationControllerDelegate, AS
         timeoutTimer = nil
     }
 
+    /// largeBlob (iOS 17+) and PRF (iOS 18+) outputs in the JSON-safe shape of `PasskeyExtensionOutputs`.
+    private func registrationExtensionResults(_ credential: ASAuthorizationPlatformPublicKeyCredentialRegistration) -> [String: Any] {
+        var results: [String: Any] = [:]
+        if #available(iOS 17.0, *), let largeBlob = credential.largeBlob {
+            results["largeBlob"] = ["supported": largeBlob.isSupported]
+        }
+        if #available(iOS 18.0, *), let prf = credential.prf {
+            var prfResult: [String: Any] = ["enabled": prf.isSupported]
+            if let first = prf.first {
+                var values: [String: Any] = ["first": symmetricKeyData(first).toBase64URLEncoded()]
+                if let second = prf.second {
+                    values["second"] = symmetricKeyData(second).toBase64URLEncoded()
+                }
+                prfResult["results"] = values
+            }
+            results["prf"] = prfResult
+        }
+        return results
+    }
+
+    private func assertionExtensionResults(_ credential: ASAuthorizationPlatformPublicKeyCredentialAssertion) -> [String: Any] {
+        var results: [String: Any] = [:]
+        if #available(iOS 17.0, *), let largeBlob = credential.largeBlob {
+            var largeBlobResult: [String: Any] = ["written": largeBlob.didWrite]
+            if let blob = largeBlob.readData {
+                largeBlobResult["blob"] = blob.toBase64URLEncoded()
+            }
+            results["largeBlob"] = largeBlobResult
+        }
+        if #available(iOS 18.0, *), let prf = credential.prf {
+            var values: [String: Any] = ["first": symmetricKeyData(prf.first).toBase64URLEncoded()]
+            if let second = prf.second {
+                values["second"] = symmetricKeyData(second).toBase64URLEncoded()
+            }
+            results["prf"] = ["results": values]
+        }
+        return results
+    }
+
+    private func symmetricKeyData(_ key: SymmetricKey) -> Data {
+        return key.withUnsafeBytes { Data($0) }
+    }
+
     private func platformRegistrationTransports() -> [String] {
         if #available(iOS 16.0, *) {
             return ["internal", "hybrid"]
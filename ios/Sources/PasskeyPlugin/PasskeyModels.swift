@@ -295,6 +295,7 @@ internal enum PasskeyAttestationConveyancePref: String, Decodable {
 @available(iOS 15.0, *)
 internal struct PasskeyAuthExtensions: Decodable {
     var largeBlob: PasskeyLargeBlobInputs?
+    var prf: PasskeyPrfInputs?
 }
 
 @available(iOS 15.0, *)
@@ -315,8 +316,60 @@ internal struct PasskeyLargeBlobInputs: Decodable {
             support = PasskeyLargeBlobSupport(rawValue: supStr)
         }
         read = try c.decodeIfPresent(Bool.self, forKey: .read)
-        let writeDict = try c.decodeIfPresent([String: Int].self, forKey: .write)
-        write = writeDict?.sorted(by: { $0.key < $1.key }).map { $0.value }.pkData
+        // base64url string; a Uint8Array serialized by the bridge arrives as an index-keyed dictionary
+        if let writeString = try? c.decodeIfPresent(String.self, forKey: .write) {
+            guard let writeData = Data(base64URLEncoded: writeString) else {
+                throw DecodingError.dataCorruptedError(forKey: .write, in: c, debugDescription: "largeBlob.write is not valid base64url")
+            }
+            write = writeData
+        } else {
+            let writeDict = try c.decodeIfPresent([String: Int].self, forKey: .write)
+            write = writeDict?.sorted(by: { (Int($0.key) ?? 0) < (Int($1.key) ?? 0) }).map { UInt8(truncatingIfNeeded: $0.value) }.pkData
+        }
+    }
+}
+
+/// PRF salts, base64url encoded.
+@available(iOS 15.0, *)
+internal struct PasskeyPrfValues: Decodable {
+    var first: Base64URLString
+    var second: Base64URLString?
+
+    @available(iOS 18.0, *)
+    func toApple() -> ASAuthorizationPublicKeyCredentialPRFAssertionInput.InputValues? {
+        guard let firstSalt = Data(base64URLEncoded: first) else {
+            return nil
+        }
+        let secondSalt = second.flatMap { Data(base64URLEncoded: $0) }
+        return ASAuthorizationPublicKeyCredentialPRFAssertionInput.InputValues(saltInput1: firstSalt, saltInput2: secondSalt)
+    }
+}
+
+@available(iOS 15.0, *)
+internal struct PasskeyPrfInputs: Decodable {
+    var eval: PasskeyPrfValues?
+    var evalByCredential: [Base64URLString: PasskeyPrfValues]?
+
+    @available(iOS 18.0, *)
+    func toAppleRegistration() -> ASAuthorizationPublicKeyCredentialPRFRegistrationInput {
+        if let inputValues = eval?.toApple() {
+            return .inputValues(inputValues)
+        }
+        return .checkForSupport
+    }
+
+    @available(iOS 18.0, *)
+    func toAppleAssertion() -> ASAuthorizationPublicKeyCredentialPRFAssertionInput {
+        var perCredential: [Data: ASAuthorizationPublicKeyCredentialPRFAssertionInput.InputValues] = [:]
+        evalByCredential?.forEach { credentialId, values in
+            if let credentialData = Data(base64URLEncoded: credentialId), let inputValues = values.toApple() {
+                perCredential[credentialData] = inputValues
+            }
+        }
+        return ASAuthorizationPublicKeyCredentialPRFAssertionInput(
+            inputValues: eval?.toApple(),
+            perCredentialInputValues: perCredential.isEmpty ? nil : perCredential
+        )
     }
 }
 
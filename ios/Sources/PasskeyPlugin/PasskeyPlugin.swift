@@ -16,7 +16,12 @@ public class PasskeyPlugin: CAPPlugin, CAPBridgedPlugin {
 
     public let pluginMethods: [CAPPluginMethod] = [
         CAPPluginMethod(name: "createPasskey", returnType: CAPPluginReturnPromise),
-        CAPPluginMethod(name: "authenticate", returnType: CAPPluginReturnPromise)
+        CAPPluginMethod(name: "authenticate", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "cancelOperation", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "getCapabilities", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "signalUnknownCredential", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "signalAllAcceptedCredentials", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "signalCurrentUserDetails", returnType: CAPPluginReturnPromise)
     ]
 
     private let implementation = PasskeyPluginImpl()
@@ -58,9 +63,11 @@ public class PasskeyPlugin: CAPPlugin, CAPBridgedPlugin {
             jsonErrorCode: PasskeyPluginErrorCode.invalidInput
         ) else { return }
 
+        let mediation = call.getString("mediation")
+
         Task {
             do {
-                let result = try await implementation.authenticate(publicKeyData)
+                let result = try await implementation.authenticate(publicKeyData, mediation: mediation)
                 call.resolve(result)
             } catch {
                 let errorMsg = error.localizedDescription
@@ -77,6 +84,31 @@ public class PasskeyPlugin: CAPPlugin, CAPBridgedPlugin {
         }
     }
 
+    /// Cancel the in-flight registration/authentication. The pending call rejects with INTERRUPTED.
+    @objc func cancelOperation(_ call: CAPPluginCall) {
+        Task {
+            await implementation.cancelOperation()
+            call.resolve()
+        }
+    }
+
+    /// Reports passkey features supported on this device and OS version.
+    @objc func getCapabilities(_ call: CAPPluginCall) {
+        call.resolve(implementation.getCapabilities())
+    }
+
+    /// Signal API calls resolve as no-ops on iOS; getCapabilities() reports signals as unsupported.
+    @objc func signalUnknownCredential(_ call: CAPPluginCall) {
+        call.resolve()
+    }
+
+    @objc func signalAllAcceptedCredentials(_ call: CAPPluginCall) {
+        call.resolve()
+    }
+
+    @objc func signalCurrentUserDetails(_ call: CAPPluginCall) {
+        call.resolve()
+    }
 
     /// Extracts and serializes the `publicKey` param from the CAPPluginCall.
     /// Returns nil and rejects the call if missing or serialization fails.
@@ -124,6 +156,8 @@ public class PasskeyPlugin: CAPPlugin, CAPBridgedPlugin {
             return PasskeyPluginErrorCode.rpIdValidation.rawValue
         case "PasskeyDelegate":
             return PasskeyPluginErrorCode.unsupported.rawValue
+        case "PasskeyCancelled":
+            return PasskeyPluginErrorCode.interrupted.rawValue
         default:
             break
         }
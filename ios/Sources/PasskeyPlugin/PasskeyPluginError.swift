@@ -13,6 +13,7 @@ public enum PasskeyPluginErrorCode: String {
     case noCredential = "NO_CREDENTIAL"
     case invalidInput = "INVALID_INPUT"
     case rpIdValidation = "RPID_VALIDATION_ERROR"
+    case interrupted = "INTERRUPTED"
 }
 
 // Optional: If you want to share the StringError struct as well
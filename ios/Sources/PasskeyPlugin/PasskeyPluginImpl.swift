@@ -1,10 +1,64 @@
 import Foundation
 import AuthenticationServices
-
+import LocalAuthentication
 
 @available(iOS 15.0, *)
 @objc public class PasskeyPluginImpl: NSObject {
 
+    // Delegate of the in-flight ceremony, used by cancelOperation()
+    @MainActor private var activeDelegate: PasskeyCredentialDelegate?
+
+    @objc public func cancelOperation() async {
+        await MainActor.run {
+            activeDelegate?.cancel()
+            activeDelegate = nil
+        }
+    }
+
+    // Completion runs after cancelOperation() or a newer ceremony may have replaced the delegate
+    @MainActor private func clearActiveDelegate(_ delegate: PasskeyCredentialDelegate) {
+        if activeDelegate === delegate {
+            activeDelegate = nil
+        }
+    }
+
+    /// Passkey features available on this OS version; the keys match `PasskeyCapabilities` in definitions.ts.
+    @objc public func getCapabilities() -> [String: Any] {
+        // Passkeys need a device passcode; biometrics alone are not required
+        let platformAuthenticator = LAContext().canEvaluatePolicy(.deviceOwnerAuthentication, error: nil)
+
+        var conditionalMediation = false
+        var hybridTransport = false
+        var largeBlob = false
+        var prf = false
+        if #available(iOS 16.0, *) {
+            conditionalMediation = true
+            hybridTransport = true
+        }
+        if #available(iOS 17.0, *) {
+            largeBlob = true
+        }
+        if #available(iOS 18.0, *) {
+            prf = true
+        }
+
+        return [
+            "platformAuthenticator": platformAuthenticator,
+            "conditionalMediation": conditionalMediation,
+            "hybridTransport": hybridTransport,
+            "relatedOrigins": false,
+            "extensions": [
+                "prf": prf,
+                "largeBlob": largeBlob
+            ],
+            "signals": [
+                "unknownCredential": false,
+                "allAcceptedCredentials": false,
+                "currentUserDetails": false
+            ]
+        ]
+    }
+
     // Validate rpId against app's associated domains
     private func validateRpId(_ rpId: String) throws {
         guard let infoPlist = Bundle.main.infoDictionary,
@@ -66,9 +120,12 @@ import AuthenticationServices
 
             return try await withCheckedThrowingContinuation { continuation in
                 Task { @MainActor in
+                    // A newer ceremony supersedes the in-flight one, as on web and Android
+                    self.activeDelegate?.cancel(message: "Superseded by a new passkey ceremony")
+                    self.activeDelegate = passkeyCredentialDelegate
                     passkeyCredentialDelegate.performAuthForController(controller: authController, timeout: TimeInterval(timeout)) { result in
-                        // Delegate is kept alive by this closure's capture until completion
-                        _ = passkeyCredentialDelegate
+                        // Also keeps the delegate alive until completion
+                        Task { @MainActor in self.clearActiveDelegate(passkeyCredentialDelegate) }
                         switch result {
                         case .success(let data):
                             continuation.resume(returning: data)
@@ -82,7 +139,7 @@ import AuthenticationServices
     }
 
 
-    @objc public func authenticate(_ publicKey: Data) async throws -> [String: Any] {
+    @objc public func authenticate(_ publicKey: Data, mediation: String? = nil) async throws -> [String: Any] {
         do {
             let requestJSON = try JSONDecoder().decode(PasskeyAuthenticationOptions.self, from: publicKey)
 
@@ -101,17 +158,30 @@ import AuthenticationServices
             let platformKeyRequest: ASAuthorizationRequest = self.configureGetPlatformRequest(challenge: challengeData, request: requestJSON);
             let securityKeyRequest: ASAuthorizationRequest = self.configureGetSecurityKeyRequest(challenge: challengeData, request: requestJSON);
 
+            // AutoFill-assisted requests only accept platform credentials
+            let isConditional = mediation == "conditional"
+            if isConditional {
+                guard #available(iOS 16.0, *) else {
+                    throw NSError(domain: "PasskeyDelegate", code: -1009, userInfo: [NSLocalizedDescriptionKey: "Conditional mediation requires iOS 16 or later"])
+                }
+            }
+
             // Get authorization controller
-            let authController: ASAuthorizationController = self.configureAuthController(forcePlatformKey: forcePlatformKey, forceSecurityKey: forceSecurityKey, platformKeyRequest: platformKeyRequest, securityKeyRequest: securityKeyRequest);
+            let authController: ASAuthorizationController = isConditional
+                ? ASAuthorizationController(authorizationRequests: [platformKeyRequest])
+                : self.configureAuthController(forcePlatformKey: forcePlatformKey, forceSecurityKey: forceSecurityKey, platformKeyRequest: platformKeyRequest, securityKeyRequest: securityKeyRequest);
 
             let passkeyCredentialDelegate = await PasskeyCredentialDelegate()
             let timeout = requestJSON.timeout ?? 60000  // Default 60 seconds
 
             return try await withCheckedThrowingContinuation { continuation in
                 Task { @MainActor in
-                    passkeyCredentialDelegate.performAuthForController(controller: authController, timeout: TimeInterval(timeout)) { result in
-                        // Delegate is kept alive by this closure's capture until completion
-                        _ = passkeyCredentialDelegate
+                    // A newer ceremony supersedes the in-flight one, as on web and Android
+                    self.activeDelegate?.cancel(message: "Superseded by a new passkey ceremony")
+                    self.activeDelegate = passkeyCredentialDelegate
+                    passkeyCredentialDelegate.performAuthForController(controller: authController, timeout: TimeInterval(timeout), mediation: mediation) { result in
+                        // Also keeps the delegate alive until completion
+                        Task { @MainActor in self.clearActiveDelegate(passkeyCredentialDelegate) }
                         switch result {
                         case .success(let data):
                             continuation.resume(returning: data)
@@ -137,6 +207,12 @@ import AuthenticationServices
             }
         }
 
+        if #available(iOS 18.0, *) {
+            if let prf = request.extensions?.prf {
+                authRequest.prf = prf.toAppleRegistration()
+            }
+        }
+
         if #available(iOS 17.4, *) {
             if let excludeCredentials = request.excludeCredentials {
                 authRequest.excludedCredentials = excludeCredentials.compactMap({ $0.asPlatformDescriptor() })
@@ -195,6 +271,12 @@ import AuthenticationServices
             }
         }
 
+        if #available(iOS 18.0, *) {
+            if let prf = request.extensions?.prf {
+                authRequest.prf = prf.toAppleAssertion()
+            }
+        }
+
         if let allowCredentials = request.allowCredentials {
             authRequest.allowedCredentials = allowCredentials.compactMap({ $0.asPlatformDescriptor() })
         }
@@ -0,0 +1,254 @@
+/**
+ * Conversion between simplewebauthn option JSON (`PublicKeyCredentialCreationOptionsJSON`,
+ * `PublicKeyCredentialRequestOptionsJSON`) and the plugin's `PasskeyCreateOptions` / `PasskeyAuthenticationOptions`.
+ *
+ * Every field is mapped explicitly. Fields with no counterpart on the other side are dropped and reported according
+ * to `unsupported`: `attestationFormats`, credential descriptors whose `type` is not `'public-key'`, members neither
+ * side defines, and, towards JSON, the plugin-only `authenticatorAttachment` of authentication options.
+ */
+
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialDescriptorJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/browser';
+
+import type {
+  PasskeyAuthenticationOptions,
+  PasskeyCreateOptions,
+  PublicKeyAuthenticationOptions,
+  PublicKeyCreationOptions,
+} from './definitions.js';
+import { createPasskeyError } from './errors.js';
+import { decodeExtensionInputs, encodeExtensionInputs } from './extensions.js';
+import type { ExtensionInputsLike } from './extensions.js';
+import type { PasskeyValidationIssue } from './validation.js';
+
+/**
+ * What happens to fields that cannot be converted: `'warn'` drops them and logs them with `console.warn`,
+ * `'ignore'` drops them silently and `'reject'` throws a `PasskeyError` with code `INVALID_INPUT`.
+ */
+export type UnsupportedOptionsHandling = 'warn' | 'ignore' | 'reject';
+
+export interface OptionsConversionOptions {
+  /** Defaults to `'warn'`. */
+  unsupported?: UnsupportedOptionsHandling;
+}
+
+// Plugin descriptors; transports pass through unchanged, including values newer than the DOM typings
+interface CredentialDescriptor {
+  id: string;
+  type: 'public-key';
+  transports?: AuthenticatorTransport[];
+}
+
+const CREATION_FIELDS = [
+  'rp',
+  'user',
+  'challenge',
+  'pubKeyCredParams',
+  'timeout',
+  'excludeCredentials',
+  'authenticatorSelection',
+  'hints',
+  'attestation',
+  'extensions',
+];
+const REQUEST_FIELDS = ['challenge', 'timeout', 'rpId', 'allowCredentials', 'userVerification', 'hints', 'extensions'];
+
+class UnsupportedFields {
+  private readonly issues: PasskeyValidationIssue[] = [];
+  private readonly prefix: string;
+
+  constructor(prefix: string) {
+    this.prefix = prefix;
+  }
+
+  add(path: string, message: string): void {
+    this.issues.push({ path: `${this.prefix}${path}`, message });
+  }
+
+  unknownMembers(value: object, known: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key) && (value as Record<string, unknown>)[key] !== undefined) {
+        this.add(key, 'is not a known option');
+      }
+    }
+  }
+
+  /**
+   * Keeps the `'public-key'` descriptors; WebAuthn clients skip any other type.
+   */
+  descriptors(
+    path: string,
+    descriptors: { id: string; type: string; transports?: string[] }[] | undefined,
+  ): { id: string; type: 'public-key'; transports?: string[] }[] | undefined {
+    if (!descriptors) {
+      return undefined;
+    }
+
+    const kept: { id: string; type: 'public-key'; transports?: string[] }[] = [];
+    descriptors.forEach((descriptor, index) => {
+      if (descriptor.type !== 'public-key') {
+        this.add(`${path}[${index}].type`, `'${descriptor.type}' is not a supported credential type`);
+        return;
+      }
+
+      kept.push(withoutUndefined({ id: descriptor.id, type: 'public-key', transports: descriptor.transports }));
+    });
+
+    return kept;
+  }
+
+  report(handling: UnsupportedOptionsHandling = 'warn'): void {
+    if (this.issues.length === 0 || handling === 'ignore') {
+      return;
+    }
+
+    const details = this.issues.map((issue) => `${issue.path} ${issue.message}`).join('; ');
+    if (handling === 'reject') {
+      throw createPasskeyError('INVALID_INPUT', `Unsupported passkey options: ${details}`, { issues: this.issues });
+    }
+
+    console.warn(`Unsupported passkey options were dropped: ${details}`);
+  }
+}
+
+/** Drops `undefined` members, so optional fields are omitted rather than sent as `undefined`. */
+export function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
+
+function copyAuthenticatorSelection(selection: AuthenticatorSelectionCriteria): AuthenticatorSelectionCriteria {
+  return withoutUndefined({
+    authenticatorAttachment: selection.authenticatorAttachment,
+    residentKey: selection.residentKey,
+    requireResidentKey: selection.requireResidentKey,
+    userVerification: selection.userVerification,
+  });
+}
+
+/**
+ * Maps simplewebauthn registration options to `createPasskey` options.
+ * @throws PasskeyError with code `INVALID_INPUT` when `unsupported` is `'reject'` and a field cannot be converted
+ */
+export function toPasskeyCreateOptions(
+  optionsJSON: PublicKeyCredentialCreationOptionsJSON,
+  options: OptionsConversionOptions = {},
+): PasskeyCreateOptions {
+  const unsupported = new UnsupportedFields('');
+  unsupported.unknownMembers(optionsJSON, [...CREATION_FIELDS, 'attestationFormats']);
+  if (optionsJSON.attestationFormats !== undefined) {
+    unsupported.add('attestationFormats', 'is not supported by the platform credential APIs');
+  }
+
+  const { rp, user, authenticatorSelection } = optionsJSON;
+  const publicKey: PublicKeyCreationOptions = withoutUndefined({
+    challenge: optionsJSON.challenge,
+    rp: withoutUndefined({ id: rp.id, name: rp.name }),
+    user: { id: user.id, name: user.name, displayName: user.displayName },
+    pubKeyCredParams: optionsJSON.pubKeyCredParams.map(({ type, alg }) => ({ type, alg })),
+    authenticatorSelection: authenticatorSelection && copyAuthenticatorSelection(authenticatorSelection),
+    timeout: optionsJSON.timeout,
+    attestation: optionsJSON.attestation,
+    hints: optionsJSON.hints,
+    extensions: encodeExtensionInputs(optionsJSON.extensions as ExtensionInputsLike | undefined),
+    excludeCredentials: unsupported.descriptors('excludeCredentials', optionsJSON.excludeCredentials) as
+      | CredentialDescriptor[]
+      | undefined,
+  });
+
+  unsupported.report(options.unsupported);
+  return { publicKey };
+}
+
+/**
+ * Maps `createPasskey` options back to simplewebauthn registration options.
+ * @throws PasskeyError with code `INVALID_INPUT` when `unsupported` is `'reject'` and a field cannot be converted
+ */
+export function toCreationOptionsJSON(
+  options: PasskeyCreateOptions,
+  conversion: OptionsConversionOptions = {},
+): PublicKeyCredentialCreationOptionsJSON {
+  const { publicKey } = options;
+  const unsupported = new UnsupportedFields('publicKey.');
+  unsupported.unknownMembers(publicKey, CREATION_FIELDS);
+
+  const { rp, user, authenticatorSelection } = publicKey;
+  const optionsJSON: PublicKeyCredentialCreationOptionsJSON = withoutUndefined({
+    challenge: publicKey.challenge,
+    rp: withoutUndefined({ id: rp.id, name: rp.name }),
+    user: { id: user.id, name: user.name, displayName: user.displayName },
+    pubKeyCredParams: publicKey.pubKeyCredParams.map(({ type, alg }) => ({ type, alg })),
+    authenticatorSelection: authenticatorSelection && copyAuthenticatorSelection(authenticatorSelection),
+    timeout: publicKey.timeout,
+    attestation: publicKey.attestation,
+    hints: publicKey.hints,
+    extensions: decodeExtensionInputs(publicKey.extensions),
+    excludeCredentials: unsupported.descriptors('excludeCredentials', publicKey.excludeCredentials) as
+      | PublicKeyCredentialDescriptorJSON[]
+      | undefined,
+  });
+
+  unsupported.report(conversion.unsupported);
+  return optionsJSON;
+}
+
+/**
+ * Maps simplewebauthn authentication options to `authenticate` options.
+ * @throws PasskeyError with code `INVALID_INPUT` when `unsupported` is `'reject'` and a field cannot be converted
+ */
+export function toPasskeyAuthenticationOptions(
+  optionsJSON: PublicKeyCredentialRequestOptionsJSON,
+  options: OptionsConversionOptions = {},
+): PasskeyAuthenticationOptions {
+  const unsupported = new UnsupportedFields('');
+  unsupported.unknownMembers(optionsJSON, REQUEST_FIELDS);
+
+  const publicKey: PublicKeyAuthenticationOptions = withoutUndefined({
+    challenge: optionsJSON.challenge,
+    rpId: optionsJSON.rpId,
+    timeout: optionsJSON.timeout,
+    userVerification: optionsJSON.userVerification,
+    hints: optionsJSON.hints,
+    extensions: encodeExtensionInputs(optionsJSON.extensions as ExtensionInputsLike | undefined),
+    allowCredentials: unsupported.descriptors('allowCredentials', optionsJSON.allowCredentials) as
+      | CredentialDescriptor[]
+      | undefined,
+  });
+
+  unsupported.report(options.unsupported);
+  return { publicKey };
+}
+
+/**
+ * Maps `authenticate` options back to simplewebauthn authentication options. `authenticatorAttachment` has no
+ * JSON counterpart and is reported as unsupported.
+ * @throws PasskeyError with code `INVALID_INPUT` when `unsupported` is `'reject'` and a field cannot be converted
+ */
+export function toRequestOptionsJSON(
+  options: PasskeyAuthenticationOptions,
+  conversion: OptionsConversionOptions = {},
+): PublicKeyCredentialRequestOptionsJSON {
+  const { publicKey } = options;
+  const unsupported = new UnsupportedFields('publicKey.');
+  unsupported.unknownMembers(publicKey, [...REQUEST_FIELDS, 'authenticatorAttachment']);
+  if (publicKey.authenticatorAttachment !== undefined) {
+    unsupported.add('authenticatorAttachment', 'has no WebAuthn JSON counterpart');
+  }
+
+  const optionsJSON: PublicKeyCredentialRequestOptionsJSON = withoutUndefined({
+    challenge: publicKey.challenge,
+    rpId: publicKey.rpId,
+    timeout: publicKey.timeout,
+    userVerification: publicKey.userVerification,
+    hints: publicKey.hints,
+    extensions: decodeExtensionInputs(publicKey.extensions),
+    allowCredentials: unsupported.descriptors('allowCredentials', publicKey.allowCredentials) as
+      | PublicKeyCredentialDescriptorJSON[]
+      | undefined,
+  });
+
+  unsupported.report(conversion.unsupported);
+  return optionsJSON;
+}
@@ -6,8 +6,56 @@ import type {
   RegistrationResponseJSON,
 } from '@simplewebauthn/browser';
 
-import type { PasskeyPlugin, PasskeyCreateResult } from './definitions.js';
-import { mapPluginError } from './errors.js';
+import { toPasskeyAuthenticationOptions, toPasskeyCreateOptions } from './adapter-options.js';
+import type { UnsupportedOptionsHandling } from './adapter-options.js';
+import { getRegistrationPublicKey } from './authenticator-data.js';
+import type { PasskeyCreateResult, PasskeyExtensionOutputs, PasskeyMediation, PasskeyPlugin } from './definitions.js';
+import { toBase64Url } from './encoding.js';
+import { createPasskeyError, mapPluginError } from './errors.js';
+import { encodeExtensionOutputs } from './extensions.js';
+import type { StoredCredential } from './storage.js';
+import { assertValidAuthenticationOptions, assertValidCreateOptions } from './validation.js';
+
+export {
+  toCreationOptionsJSON,
+  toPasskeyAuthenticationOptions,
+  toPasskeyCreateOptions,
+  toRequestOptionsJSON,
+} from './adapter-options.js';
+export type { OptionsConversionOptions, UnsupportedOptionsHandling } from './adapter-options.js';
+
+/**
+ * Stored credentials an authentication may use: every credential of `contractId` bound to
+ * `contextRuleId`, or the contract's primary credential when no rule is given.
+ */
+export interface AllowCredentialsScope {
+  contractId: string;
+  contextRuleId?: number;
+}
+
+/**
+ * Credential lookups used to build `allowCredentials`; implemented by `CapacitorStorageAdapter`.
+ */
+export interface AllowCredentialsSource {
+  getPrimary(contractId: string): Promise<StoredCredential | null>;
+  getByContextRule(contractId: string, contextRuleId: number): Promise<StoredCredential[]>;
+}
+
+export interface SimpleWebAuthnAdapterOptions {
+  /**
+   * Fills `allowCredentials` of authentication requests that list none (and do not use autofill) from `storage`,
+   * scoped by `allowCredentialsScope` of the call or else by `scope()`. Requests stay discoverable when
+   * no scope applies or it matches no stored credential.
+   */
+  allowCredentials?: {
+    storage: AllowCredentialsSource;
+    scope?: () => AllowCredentialsScope | null | undefined | Promise<AllowCredentialsScope | null | undefined>;
+  };
+  /**
+   * Handling of option fields the plugin cannot use, such as `attestationFormats`. Defaults to `'warn'`.
+   */
+  unsupportedOptions?: UnsupportedOptionsHandling;
+}
 
 type Attachment = 'platform' | 'cross-platform';
 
@@ -35,116 +83,45 @@ function normalizeUserHandle(value?: string): string | undefined {
   return value;
 }
 
-function fromBase64Url(input: string): Uint8Array {
-  const base64 = input
-    .replace(/-/g, '+')
-    .replace(/_/g, '/')
-    .padEnd(Math.ceil(input.length / 4) * 4, '=');
-  const globalBuffer = (globalThis as any).Buffer;
-  if (typeof atob !== 'function' && !globalBuffer) {
-    throw new Error('No base64 decoder available in this runtime');
-  }
-
-  const binary = typeof atob === 'function' ? atob(base64) : globalBuffer.from(base64, 'base64').toString('binary');
-
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-
-  return bytes;
-}
-
-function toBase64Url(input: Uint8Array): string {
-  const binary = Array.from(input, (byte) => String.fromCharCode(byte)).join('');
-  const globalBuffer = (globalThis as any).Buffer;
-  if (typeof btoa !== 'function' && !globalBuffer) {
-    throw new Error('No base64 encoder available in this runtime');
-  }
-
-  const base64 = typeof btoa === 'function' ? btoa(binary) : globalBuffer.from(binary, 'binary').toString('base64');
-
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
-}
-
-function extractPublicKeyFromRegistrationResponse(response: PasskeyCreateResult['response']): string | undefined {
+function extractPublicKeyFromRegistrationResponse(
+  response: PasskeyCreateResult['response'],
+): Pick<PasskeyCreateResult['response'], 'publicKey' | 'publicKeyAlgorithm'> {
   if (response.publicKey) {
-    return response.publicKey;
-  }
-
-  if (response.authenticatorData) {
-    const authenticatorData = fromBase64Url(response.authenticatorData);
-
-    // 32 (rpIdHash) + 1 (flags) + 4 (counter) + 16 (aaguid) = 53, then 2 bytes credential ID length.
-    if (authenticatorData.length < 55) {
-      return undefined;
-    }
-
-    const credentialIdLength = (authenticatorData[53] << 8) | authenticatorData[54];
-    const xStart = 55 + credentialIdLength + 10;
-    const yStart = 55 + credentialIdLength + 45;
-
-    if (authenticatorData.length < yStart + 32) {
-      return undefined;
-    }
-
-    const publicKey = new Uint8Array(65);
-    publicKey[0] = 0x04;
-    publicKey.set(authenticatorData.slice(xStart, xStart + 32), 1);
-    publicKey.set(authenticatorData.slice(yStart, yStart + 32), 33);
-    return toBase64Url(publicKey);
+    return { publicKey: response.publicKey, publicKeyAlgorithm: response.publicKeyAlgorithm };
   }
 
-  if (response.attestationObject) {
-    const attestationObject = fromBase64Url(response.attestationObject);
-    const cosePrefix = new Uint8Array([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20]);
-
-    let startIndex = -1;
-    for (let i = 0; i <= attestationObject.length - cosePrefix.length; i += 1) {
-      let matched = true;
-      for (let j = 0; j < cosePrefix.length; j += 1) {
-        if (attestationObject[i + j] !== cosePrefix[j]) {
-          matched = false;
-          break;
-        }
-      }
-
-      if (matched) {
-        startIndex = i + cosePrefix.length;
-        break;
-      }
-    }
-
-    if (startIndex < 0 || startIndex + 67 > attestationObject.length) {
-      return undefined;
+  try {
+    const credentialPublicKey = getRegistrationPublicKey(response);
+    if (!credentialPublicKey) {
+      return { publicKeyAlgorithm: response.publicKeyAlgorithm };
     }
 
-    const publicKey = new Uint8Array(65);
-    publicKey[0] = 0x04;
-    publicKey.set(attestationObject.slice(startIndex, startIndex + 32), 1);
-    publicKey.set(attestationObject.slice(startIndex + 35, startIndex + 67), 33);
-    return toBase64Url(publicKey);
+    return {
+      publicKey: toBase64Url(credentialPublicKey.spki),
+      publicKeyAlgorithm: response.publicKeyAlgorithm ?? credentialPublicKey.algorithm,
+    };
+  } catch {
+    // Malformed or unsupported key material; leave extraction to the relying party.
+    return { publicKeyAlgorithm: response.publicKeyAlgorithm };
   }
-
-  return undefined;
 }
 
 function normalizeRegistrationResponse(result: PasskeyCreateResult): RegistrationResponseJSON {
-  const fallbackPublicKey = extractPublicKeyFromRegistrationResponse(result.response);
+  const { publicKey, publicKeyAlgorithm } = extractPublicKeyFromRegistrationResponse(result.response);
 
   return {
     id: result.id,
     rawId: result.rawId,
     type: 'public-key',
     authenticatorAttachment: normalizeAttachment(result.authenticatorAttachment),
-    clientExtensionResults: result.clientExtensionResults ?? {},
+    clientExtensionResults: encodeExtensionOutputs(result.clientExtensionResults),
     response: {
       attestationObject: result.response.attestationObject,
       clientDataJSON: result.response.clientDataJSON,
       authenticatorData: result.response.authenticatorData,
       transports: normalizeTransports(result.response.transports),
-      publicKey: result.response.publicKey ?? fallbackPublicKey,
-      publicKeyAlgorithm: result.response.publicKeyAlgorithm,
+      publicKey,
+      publicKeyAlgorithm,
     },
   };
 }
@@ -157,7 +134,7 @@ function normalizeAuthenticationResponse(
     rawId: result.rawId,
     type: 'public-key',
     authenticatorAttachment: normalizeAttachment(result.authenticatorAttachment),
-    clientExtensionResults: result.clientExtensionResults ?? {},
+    clientExtensionResults: encodeExtensionOutputs(result.clientExtensionResults),
     response: {
       clientDataJSON: result.response.clientDataJSON,
       authenticatorData: result.response.authenticatorData,
@@ -167,51 +144,278 @@ function normalizeAuthenticationResponse(
   };
 }
 
-export function asSimpleWebAuthn(plugin: PasskeyPlugin): {
+async function resolveAllowCredentials(
+  config: SimpleWebAuthnAdapterOptions['allowCredentials'],
+  scopeOverride?: AllowCredentialsScope,
+): Promise<Parameters<PasskeyPlugin['authenticate']>[0]['publicKey']['allowCredentials']> {
+  const scope = scopeOverride ?? (await config?.scope?.());
+  if (!config || !scope) {
+    return undefined;
+  }
+
+  const credentials =
+    scope.contextRuleId === undefined
+      ? [await config.storage.getPrimary(scope.contractId)].filter((credential) => credential !== null)
+      : await config.storage.getByContextRule(scope.contractId, scope.contextRuleId);
+  if (credentials.length === 0) {
+    return undefined;
+  }
+
+  return credentials.map((credential) => ({
+    id: credential.credentialId,
+    type: 'public-key' as const,
+    // Passed through like request JSON transports, including values newer than the DOM typings
+    ...(credential.transports?.length ? { transports: credential.transports as AuthenticatorTransport[] } : {}),
+  }));
+}
+
+export function asSimpleWebAuthn(
+  plugin: PasskeyPlugin,
+  adapterOptions: SimpleWebAuthnAdapterOptions = {},
+): {
   startRegistration: (options: {
     optionsJSON: PublicKeyCredentialCreationOptionsJSON;
     useAutoRegister?: boolean;
+    signal?: AbortSignal;
   }) => Promise<RegistrationResponseJSON>;
   startAuthentication: (options: {
     optionsJSON: PublicKeyCredentialRequestOptionsJSON;
     useBrowserAutofill?: boolean;
     verifyBrowserAutofillInput?: boolean;
+    signal?: AbortSignal;
+    allowCredentialsScope?: AllowCredentialsScope;
   }) => Promise<AuthenticationResponseJSON>;
 } {
   return {
     startRegistration: async ({
       optionsJSON,
+      signal,
     }: {
       optionsJSON: PublicKeyCredentialCreationOptionsJSON;
       useAutoRegister?: boolean;
+      signal?: AbortSignal;
     }) => {
       try {
         const result = await plugin.createPasskey({
-          publicKey: optionsJSON as unknown as Parameters<PasskeyPlugin['createPasskey']>[0]['publicKey'],
+          ...toPasskeyCreateOptions(optionsJSON, { unsupported: adapterOptions.unsupportedOptions }),
+          ...(signal ? { signal } : {}),
         });
 
         return normalizeRegistrationResponse(result);
       } catch (error) {
-        throw mapPluginError(error);
+        throw mapPluginError(error, { ceremony: 'create' });
       }
     },
 
+    // verifyBrowserAutofillInput is accepted for signature compatibility: the web implementation always checks for
+    // an autocomplete="webauthn" input because a conditional request can never surface without one.
     startAuthentication: async ({
       optionsJSON,
+      useBrowserAutofill = false,
+      signal,
+      allowCredentialsScope,
     }: {
       optionsJSON: PublicKeyCredentialRequestOptionsJSON;
       useBrowserAutofill?: boolean;
       verifyBrowserAutofillInput?: boolean;
+      signal?: AbortSignal;
+      allowCredentialsScope?: AllowCredentialsScope;
     }) => {
+      // Storage errors surface as they are rather than as passkey errors
+      const allowCredentials =
+        useBrowserAutofill || optionsJSON.allowCredentials?.length
+          ? undefined
+          : await resolveAllowCredentials(adapterOptions.allowCredentials, allowCredentialsScope);
+
       try {
+        const { publicKey } = toPasskeyAuthenticationOptions(optionsJSON, {
+          unsupported: adapterOptions.unsupportedOptions,
+        });
         const result = await plugin.authenticate({
-          publicKey: optionsJSON as unknown as Parameters<PasskeyPlugin['authenticate']>[0]['publicKey'],
+          publicKey: allowCredentials ? { ...publicKey, allowCredentials } : publicKey,
+          ...(useBrowserAutofill ? { mediation: 'conditional' as const } : {}),
+          ...(signal ? { signal } : {}),
         });
 
         return normalizeAuthenticationResponse(result);
       } catch (error) {
-        throw mapPluginError(error);
+        throw mapPluginError(error, { ceremony: 'get' });
       }
     },
   };
 }
+
+export interface WebAuthnJSONAdapterOptions {
+  /** Handling of option fields the plugin cannot use. Defaults to `'warn'`. */
+  unsupportedOptions?: UnsupportedOptionsHandling;
+}
+
+/**
+ * `create()` options of `@github/webauthn-json`.
+ */
+export interface CredentialCreationOptionsJSON {
+  publicKey: PublicKeyCredentialCreationOptionsJSON;
+  signal?: AbortSignal;
+}
+
+/**
+ * `get()` options of `@github/webauthn-json`.
+ */
+export interface CredentialRequestOptionsJSON {
+  mediation?: PasskeyMediation;
+  publicKey?: PublicKeyCredentialRequestOptionsJSON;
+  signal?: AbortSignal;
+}
+
+/**
+ * `create()` result of `@github/webauthn-json`.
+ */
+export interface PublicKeyCredentialWithAttestationJSON {
+  type: 'public-key';
+  id: string;
+  rawId: string;
+  authenticatorAttachment: 'platform' | 'cross-platform' | null;
+  response: { clientDataJSON: string; attestationObject: string; transports: string[] };
+  clientExtensionResults: PasskeyExtensionOutputs;
+}
+
+/**
+ * `get()` result of `@github/webauthn-json`.
+ */
+export interface PublicKeyCredentialWithAssertionJSON {
+  type: 'public-key';
+  id: string;
+  rawId: string;
+  authenticatorAttachment: 'platform' | 'cross-platform' | null;
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle: string | null };
+  clientExtensionResults: PasskeyExtensionOutputs;
+}
+
+interface JSONCeremonies {
+  create(optionsJSON: PublicKeyCredentialCreationOptionsJSON, signal?: AbortSignal): Promise<RegistrationResponseJSON>;
+  get(
+    optionsJSON: PublicKeyCredentialRequestOptionsJSON,
+    mediation?: PasskeyMediation,
+    signal?: AbortSignal,
+  ): Promise<AuthenticationResponseJSON>;
+}
+
+// Ceremonies go through the plugin so its cancellation, timeout and error mapping apply; on web the plugin itself
+// prefers the browser's JSON methods
+function createJSONCeremonies(plugin: PasskeyPlugin, adapterOptions: WebAuthnJSONAdapterOptions): JSONCeremonies {
+  const conversion = { unsupported: adapterOptions.unsupportedOptions };
+
+  return {
+    create: async (optionsJSON, signal) => {
+      try {
+        // The JSON uses the plugin's field names, so the plugin's validation runs before any field is dropped
+        assertValidCreateOptions({ publicKey: optionsJSON });
+        const result = await plugin.createPasskey({
+          ...toPasskeyCreateOptions(optionsJSON, conversion),
+          ...(signal ? { signal } : {}),
+        });
+        return normalizeRegistrationResponse(result);
+      } catch (error) {
+        throw mapPluginError(error, { ceremony: 'create' });
+      }
+    },
+
+    get: async (optionsJSON, mediation, signal) => {
+      try {
+        assertValidAuthenticationOptions({ publicKey: optionsJSON, mediation });
+        const result = await plugin.authenticate({
+          ...toPasskeyAuthenticationOptions(optionsJSON, conversion),
+          ...(mediation ? { mediation } : {}),
+          ...(signal ? { signal } : {}),
+        });
+        return normalizeAuthenticationResponse(result);
+      } catch (error) {
+        throw mapPluginError(error, { ceremony: 'get' });
+      }
+    },
+  };
+}
+
+/**
+ * Adapts `PasskeyPlugin` to `navigator.credentials`-style calls with WebAuthn Level 3 JSON: the options
+ * `PublicKeyCredential.parseCreationOptionsFromJSON()` / `parseRequestOptionsFromJSON()` accept and the results of
+ * `credential.toJSON()`. On web the plugin uses the browser's own JSON methods when present.
+ */
+export function asWebAuthnJSON(
+  plugin: PasskeyPlugin,
+  adapterOptions: WebAuthnJSONAdapterOptions = {},
+): {
+  create: (options: {
+    publicKey: PublicKeyCredentialCreationOptionsJSON;
+    signal?: AbortSignal;
+  }) => Promise<RegistrationResponseJSON>;
+  get: (options: {
+    publicKey: PublicKeyCredentialRequestOptionsJSON;
+    mediation?: PasskeyMediation;
+    signal?: AbortSignal;
+  }) => Promise<AuthenticationResponseJSON>;
+} {
+  const ceremonies = createJSONCeremonies(plugin, adapterOptions);
+
+  return {
+    create: ({ publicKey, signal }) => ceremonies.create(publicKey, signal),
+    get: ({ publicKey, mediation, signal }) => ceremonies.get(publicKey, mediation, signal),
+  };
+}
+
+/**
+ * Adapts `PasskeyPlugin` to the `create()` / `get()` functions of `@github/webauthn-json`, on top of the same
+ * ceremonies as `asWebAuthnJSON()`.
+ */
+export function asGitHubWebAuthnJSON(
+  plugin: PasskeyPlugin,
+  adapterOptions: WebAuthnJSONAdapterOptions = {},
+): {
+  create: (requestJSON: CredentialCreationOptionsJSON) => Promise<PublicKeyCredentialWithAttestationJSON>;
+  get: (requestJSON: CredentialRequestOptionsJSON) => Promise<PublicKeyCredentialWithAssertionJSON>;
+} {
+  const ceremonies = createJSONCeremonies(plugin, adapterOptions);
+
+  return {
+    create: async ({ publicKey, signal }) => {
+      const result = await ceremonies.create(publicKey, signal);
+      return {
+        type: 'public-key',
+        id: result.id,
+        rawId: result.rawId,
+        authenticatorAttachment: normalizeAttachment(result.authenticatorAttachment) ?? null,
+        response: {
+          clientDataJSON: result.response.clientDataJSON,
+          attestationObject: result.response.attestationObject,
+          transports: result.response.transports ?? [],
+        },
+        clientExtensionResults: encodeExtensionOutputs(result.clientExtensionResults),
+      };
+    },
+
+    get: async ({ publicKey, mediation, signal }) => {
+      // webauthn-json types `publicKey` as optional, but a passkey ceremony cannot run without it
+      if (!publicKey) {
+        throw createPasskeyError('INVALID_INPUT', 'Invalid passkey options: publicKey must be an object', {
+          ceremony: 'get',
+          issues: [{ path: 'publicKey', message: 'must be an object' }],
+        });
+      }
+
+      const result = await ceremonies.get(publicKey, mediation, signal);
+      return {
+        type: 'public-key',
+        id: result.id,
+        rawId: result.rawId,
+        authenticatorAttachment: normalizeAttachment(result.authenticatorAttachment) ?? null,
+        response: {
+          clientDataJSON: result.response.clientDataJSON,
+          authenticatorData: result.response.authenticatorData,
+          signature: result.response.signature,
+          userHandle: normalizeUserHandle(result.response.userHandle) ?? null,
+        },
+        clientExtensionResults: encodeExtensionOutputs(result.clientExtensionResults),
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { decodeCbor, isCborMap } from './cbor.js';
+import type { CborMap } from './cbor.js';
+import { fromBase64Url } from './encoding.js';
+
+/**
+ * Decoded `attestationObject` (WebAuthn §6.5.4).
+ */
+export interface AttestationObject {
+  fmt: string;
+  attStmt: CborMap;
+  authData: Uint8Array;
+}
+
+/**
+ * Decodes an attestationObject given as bytes or a base64url string.
+ */
+export function parseAttestationObject(input: Uint8Array | string): AttestationObject {
+  const decoded = decodeCbor(typeof input === 'string' ? fromBase64Url(input) : input);
+  if (!isCborMap(decoded)) {
+    throw new Error('Invalid attestationObject: expected a CBOR map');
+  }
+
+  const fmt = decoded.get('fmt');
+  const attStmt = decoded.get('attStmt');
+  const authData = decoded.get('authData');
+
+  if (typeof fmt !== 'string' || !isCborMap(attStmt) || !(authData instanceof Uint8Array)) {
+    throw new Error('Invalid attestationObject: missing fmt, attStmt or authData');
+  }
+
+  return { fmt, attStmt, authData };
+}
@@ -0,0 +1,200 @@
+import { parseAttestationObject } from './attestation.js';
+import { decodeCborFirst, isCborMap } from './cbor.js';
+import type { CborValue } from './cbor.js';
+import { coseKeyToSpki, getCoseKeyAlgorithm, parseCoseKey } from './cose.js';
+import type { CoseKey } from './cose.js';
+import type { PasskeyAuthResult, PasskeyCreateResult } from './definitions.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+
+/**
+ * Flags byte of authenticatorData (WebAuthn §6.1).
+ */
+export interface AuthenticatorDataFlags {
+  /** UP: user was present. */
+  userPresent: boolean;
+  /** UV: user was verified (biometric, PIN, ...). */
+  userVerified: boolean;
+  /** BE: credential is eligible for backup (synced passkey). */
+  backupEligible: boolean;
+  /** BS: credential is currently backed up. */
+  backupState: boolean;
+  /** AT: attested credential data is included. */
+  attestedCredentialData: boolean;
+  /** ED: extension outputs are included. */
+  extensionData: boolean;
+  /** Raw flags byte. */
+  value: number;
+}
+
+/**
+ * Credential public key extracted from attested credential data.
+ */
+export interface CredentialPublicKey {
+  /** COSE algorithm identifier, e.g. -7 for ES256. */
+  algorithm: number;
+  /** Parsed COSE_Key parameters. */
+  key: CoseKey;
+  /** Raw CBOR-encoded COSE_Key bytes as stored in authenticatorData. */
+  cose: Uint8Array;
+  /** DER SubjectPublicKeyInfo encoding of the same key. */
+  spki: Uint8Array;
+}
+
+export interface ParsedAuthenticatorData {
+  /** SHA-256 hash of the RP ID the credential is scoped to. */
+  rpIdHash: Uint8Array;
+  flags: AuthenticatorDataFlags;
+  /** Signature counter; 0 when the authenticator does not implement one. */
+  signCount: number;
+  /** Authenticator model identifier formatted as a UUID (only with attested credential data). */
+  aaguid?: string;
+  /** Base64url-encoded credential ID (only with attested credential data). */
+  credentialId?: string;
+  /** Credential public key (only with attested credential data). */
+  credentialPublicKey?: CredentialPublicKey;
+  /** Authenticator extension outputs keyed by extension identifier. */
+  extensions?: Record<string, CborValue>;
+}
+
+export type AuthenticatorDataSource =
+  | Uint8Array
+  | string
+  | PasskeyCreateResult['response']
+  | PasskeyAuthResult['response'];
+
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_BE = 0x08;
+const FLAG_BS = 0x10;
+const FLAG_AT = 0x40;
+const FLAG_ED = 0x80;
+
+// rpIdHash (32) + flags (1) + signCount (4)
+const MIN_LENGTH = 37;
+
+function formatAaguid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function resolveAuthenticatorDataBytes(source: AuthenticatorDataSource): Uint8Array {
+  if (source instanceof Uint8Array) {
+    return source;
+  }
+
+  if (typeof source === 'string') {
+    return fromBase64Url(source);
+  }
+
+  if (source.authenticatorData) {
+    return fromBase64Url(source.authenticatorData);
+  }
+
+  if ('attestationObject' in source && source.attestationObject) {
+    return parseAttestationObject(source.attestationObject).authData;
+  }
+
+  throw new Error('Invalid response: neither authenticatorData nor attestationObject is present');
+}
+
+export function parseAuthenticatorDataFlags(value: number): AuthenticatorDataFlags {
+  return {
+    userPresent: (value & FLAG_UP) !== 0,
+    userVerified: (value & FLAG_UV) !== 0,
+    backupEligible: (value & FLAG_BE) !== 0,
+    backupState: (value & FLAG_BS) !== 0,
+    attestedCredentialData: (value & FLAG_AT) !== 0,
+    extensionData: (value & FLAG_ED) !== 0,
+    value,
+  };
+}
+
+/**
+ * Parses authenticatorData from raw bytes, a base64url string, or a plugin registration/authentication
+ * response. Registration responses without `authenticatorData` fall back to `attestationObject.authData`.
+ */
+export function parseAuthenticatorData(source: AuthenticatorDataSource): ParsedAuthenticatorData {
+  const bytes = resolveAuthenticatorDataBytes(source);
+  if (bytes.length < MIN_LENGTH) {
+    throw new Error(`Invalid authenticatorData: expected at least ${MIN_LENGTH} bytes, got ${bytes.length}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = parseAuthenticatorDataFlags(bytes[32]);
+  const result: ParsedAuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+  };
+
+  let offset = MIN_LENGTH;
+
+  if (flags.attestedCredentialData) {
+    // aaguid (16) followed by a 2-byte big-endian credential ID length.
+    if (bytes.length < offset + 18) {
+      throw new Error('Invalid authenticatorData: truncated attested credential data');
+    }
+
+    result.aaguid = formatAaguid(bytes.subarray(offset, offset + 16));
+    const credentialIdLength = view.getUint16(offset + 16);
+    offset += 18;
+
+    if (bytes.length < offset + credentialIdLength) {
+      throw new Error('Invalid authenticatorData: truncated credential ID');
+    }
+
+    result.credentialId = toBase64Url(bytes.subarray(offset, offset + credentialIdLength));
+    offset += credentialIdLength;
+
+    const decodedKey = decodeCborFirst(bytes, offset);
+    const key = parseCoseKey(decodedKey.value);
+    result.credentialPublicKey = {
+      algorithm: getCoseKeyAlgorithm(key),
+      key,
+      cose: bytes.slice(offset, decodedKey.offset),
+      spki: coseKeyToSpki(key),
+    };
+    offset = decodedKey.offset;
+  }
+
+  if (flags.extensionData) {
+    const decodedExtensions = decodeCborFirst(bytes, offset);
+    if (!isCborMap(decodedExtensions.value)) {
+      throw new Error('Invalid authenticatorData: extensions must be a CBOR map');
+    }
+
+    result.extensions = {};
+    decodedExtensions.value.forEach((value, key) => {
+      (result.extensions as Record<string, CborValue>)[String(key)] = value;
+    });
+    offset = decodedExtensions.offset;
+  }
+
+  if (offset !== bytes.length) {
+    throw new Error(`Invalid authenticatorData: ${bytes.length - offset} unexpected trailing bytes`);
+  }
+
+  return result;
+}
+
+/**
+ * Maps the BE/BS flags to the `deviceType`/`backedUp` fields of `StoredCredential`,
+ * using the same vocabulary as SimpleWebAuthn server (`singleDevice` / `multiDevice`).
+ */
+export function getCredentialBackupState(flags: AuthenticatorDataFlags): {
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+} {
+  return {
+    deviceType: flags.backupEligible ? 'multiDevice' : 'singleDevice',
+    backedUp: flags.backupState,
+  };
+}
+
+/**
+ * Resolves the credential public key of a registration response from its authenticatorData,
+ * falling back to the authData embedded in attestationObject.
+ */
+export function getRegistrationPublicKey(response: PasskeyCreateResult['response']): CredentialPublicKey | undefined {
+  return parseAuthenticatorData(response).credentialPublicKey;
+}
@@ -0,0 +1,413 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder and encoder covering the subset used by WebAuthn:
+ * attestation objects, COSE keys and authenticator extension outputs.
+ */
+
+export type CborMap = Map<CborValue, CborValue>;
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | CborMap
+  | CborTagged;
+
+/**
+ * Tagged CBOR item (major type 6). WebAuthn payloads rarely use tags, but they are preserved
+ * instead of rejected so callers can inspect vendor-specific attestation statements.
+ */
+export class CborTagged {
+  readonly tag: number;
+  readonly value: CborValue;
+
+  constructor(tag: number, value: CborValue) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+export interface CborDecodeResult {
+  value: CborValue;
+  /** Offset of the first byte after the decoded item. */
+  offset: number;
+}
+
+const MAX_NESTING_DEPTH = 64;
+const BREAK = Symbol('cbor-break');
+
+class CborReader {
+  private readonly view: DataView;
+  private readonly textDecoder = new TextDecoder('utf-8', { fatal: true });
+  offset: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    offset: number,
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = offset;
+  }
+
+  readItem(depth: number): CborValue | typeof BREAK {
+    if (depth > MAX_NESTING_DEPTH) {
+      throw new Error('Invalid CBOR: maximum nesting depth exceeded');
+    }
+
+    const initial = this.readUint8();
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    if (majorType === 7) {
+      return this.readSimple(additional);
+    }
+
+    if (additional === 31) {
+      return this.readIndefinite(majorType, depth);
+    }
+
+    const argument = this.readArgument(additional);
+
+    switch (majorType) {
+      case 0:
+        return argument;
+      case 1:
+        return typeof argument === 'bigint' ? -1n - argument : -1 - argument;
+      case 2:
+        return this.readBytes(this.toLength(argument));
+      case 3:
+        return this.readText(this.toLength(argument));
+      case 4: {
+        const length = this.toLength(argument);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i += 1) {
+          items.push(this.readValue(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.toLength(argument);
+        const map: CborMap = new Map();
+        for (let i = 0; i < length; i += 1) {
+          const key = this.readValue(depth + 1);
+          map.set(key, this.readValue(depth + 1));
+        }
+        return map;
+      }
+      case 6:
+        return new CborTagged(Number(argument), this.readValue(depth + 1));
+      default:
+        throw new Error(`Invalid CBOR: unknown major type ${majorType}`);
+    }
+  }
+
+  private readValue(depth: number): CborValue {
+    const value = this.readItem(depth);
+    if (value === BREAK) {
+      throw new Error('Invalid CBOR: unexpected break');
+    }
+
+    return value;
+  }
+
+  private readIndefinite(majorType: number, depth: number): CborValue {
+    switch (majorType) {
+      case 2:
+      case 3: {
+        const chunks: Uint8Array[] = [];
+        for (;;) {
+          const chunk = this.readItem(depth + 1);
+          if (chunk === BREAK) {
+            break;
+          }
+          if (majorType === 2 && chunk instanceof Uint8Array) {
+            chunks.push(chunk);
+          } else if (majorType === 3 && typeof chunk === 'string') {
+            chunks.push(new TextEncoder().encode(chunk));
+          } else {
+            throw new Error('Invalid CBOR: mismatched chunk in indefinite-length string');
+          }
+        }
+        const joined = concatBytes(chunks);
+        return majorType === 2 ? joined : this.textDecoder.decode(joined);
+      }
+      case 4: {
+        const items: CborValue[] = [];
+        for (;;) {
+          const item = this.readItem(depth + 1);
+          if (item === BREAK) {
+            return items;
+          }
+          items.push(item);
+        }
+      }
+      case 5: {
+        const map: CborMap = new Map();
+        for (;;) {
+          const key = this.readItem(depth + 1);
+          if (key === BREAK) {
+            return map;
+          }
+          map.set(key, this.readValue(depth + 1));
+        }
+      }
+      default:
+        throw new Error(`Invalid CBOR: indefinite length not allowed for major type ${majorType}`);
+    }
+  }
+
+  private readSimple(additional: number): CborValue | typeof BREAK {
+    switch (additional) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 24:
+        return this.readUint8();
+      case 25:
+        return readFloat16(this.readUint16());
+      case 26:
+        return this.view.getFloat32(this.take(4));
+      case 27:
+        return this.view.getFloat64(this.take(8));
+      case 31:
+        return BREAK;
+      default:
+        if (additional < 20) {
+          return additional;
+        }
+        throw new Error(`Invalid CBOR: reserved simple value ${additional}`);
+    }
+  }
+
+  private readArgument(additional: number): number | bigint {
+    if (additional < 24) {
+      return additional;
+    }
+
+    switch (additional) {
+      case 24:
+        return this.readUint8();
+      case 25:
+        return this.readUint16();
+      case 26:
+        return this.view.getUint32(this.take(4));
+      case 27: {
+        const value = this.view.getBigUint64(this.take(8));
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw new Error(`Invalid CBOR: reserved additional information ${additional}`);
+    }
+  }
+
+  private toLength(argument: number | bigint): number {
+    if (typeof argument === 'bigint' || argument > this.bytes.length - this.offset) {
+      throw new Error('Invalid CBOR: length exceeds available data');
+    }
+
+    return argument;
+  }
+
+  private readUint8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  private readUint16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  private readBytes(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.bytes.slice(start, start + length);
+  }
+
+  private readText(length: number): string {
+    const start = this.take(length);
+    return this.textDecoder.decode(this.bytes.subarray(start, start + length));
+  }
+
+  private take(length: number): number {
+    const start = this.offset;
+    if (start + length > this.bytes.length) {
+      throw new Error('Invalid CBOR: unexpected end of data');
+    }
+
+    this.offset += length;
+    return start;
+  }
+}
+
+function readFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return result;
+}
+
+/**
+ * Decodes the first CBOR item starting at `offset` and reports where it ended.
+ * Used for structures that concatenate CBOR items with raw bytes, such as authenticatorData.
+ */
+export function decodeCborFirst(input: Uint8Array, offset = 0): CborDecodeResult {
+  const reader = new CborReader(input, offset);
+  const value = reader.readItem(0);
+  if (value === BREAK) {
+    throw new Error('Invalid CBOR: unexpected break');
+  }
+
+  return { value, offset: reader.offset };
+}
+
+/**
+ * Decodes a buffer that must contain exactly one CBOR item.
+ */
+export function decodeCbor(input: Uint8Array): CborValue {
+  const { value, offset } = decodeCborFirst(input);
+  if (offset !== input.length) {
+    throw new Error(`Invalid CBOR: ${input.length - offset} trailing bytes after top-level item`);
+  }
+
+  return value;
+}
+
+export function isCborMap(value: CborValue): value is CborMap {
+  return value instanceof Map;
+}
+
+class CborWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private readonly textEncoder = new TextEncoder();
+  private length = 0;
+
+  writeItem(value: CborValue, depth: number): void {
+    if (depth > MAX_NESTING_DEPTH) {
+      throw new Error('Cannot encode CBOR: maximum nesting depth exceeded');
+    }
+
+    if (value === false || value === true) {
+      this.push(new Uint8Array([value ? 0xf5 : 0xf4]));
+    } else if (value === null) {
+      this.push(new Uint8Array([0xf6]));
+    } else if (value === undefined) {
+      this.push(new Uint8Array([0xf7]));
+    } else if (typeof value === 'number' || typeof value === 'bigint') {
+      this.writeNumber(value);
+    } else if (typeof value === 'string') {
+      const bytes = this.textEncoder.encode(value);
+      this.writeHead(3, bytes.length);
+      this.push(bytes);
+    } else if (value instanceof Uint8Array) {
+      this.writeHead(2, value.length);
+      this.push(value);
+    } else if (Array.isArray(value)) {
+      this.writeHead(4, value.length);
+      value.forEach((item) => this.writeItem(item, depth + 1));
+    } else if (value instanceof Map) {
+      this.writeHead(5, value.size);
+      value.forEach((item, key) => {
+        this.writeItem(key, depth + 1);
+        this.writeItem(item, depth + 1);
+      });
+    } else if (value instanceof CborTagged) {
+      this.writeHead(6, value.tag);
+      this.writeItem(value.value, depth + 1);
+    } else {
+      throw new Error(`Cannot encode CBOR: unsupported value of type ${typeof value}`);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return result;
+  }
+
+  private writeNumber(value: number | bigint): void {
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      const bytes = new Uint8Array(9);
+      bytes[0] = 0xfb;
+      new DataView(bytes.buffer).setFloat64(1, value);
+      this.push(bytes);
+      return;
+    }
+
+    const integer = BigInt(value);
+    if (integer >= 0n) {
+      this.writeHead(0, integer);
+    } else {
+      this.writeHead(1, -1n - integer);
+    }
+  }
+
+  private writeHead(major: number, argument: number | bigint): void {
+    const value = BigInt(argument);
+    if (value > 0xffffffffffffffffn) {
+      throw new Error('Cannot encode CBOR: integer exceeds 64 bits');
+    }
+
+    if (value < 24n) {
+      this.push(new Uint8Array([(major << 5) | Number(value)]));
+      return;
+    }
+
+    // Shortest form, as required by the CTAP2 canonical encoding
+    const size = value <= 0xffn ? 1 : value <= 0xffffn ? 2 : value <= 0xffffffffn ? 4 : 8;
+    const bytes = new Uint8Array(1 + size);
+    bytes[0] = (major << 5) | (size === 1 ? 24 : size === 2 ? 25 : size === 4 ? 26 : 27);
+    for (let i = 0; i < size; i += 1) {
+      bytes[size - i] = Number((value >> BigInt(8 * i)) & 0xffn);
+    }
+    this.push(bytes);
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+}
+
+/**
+ * Encodes a value as CBOR using definite lengths and shortest-form integers.
+ * Map entries are written in insertion order, so callers that need CTAP2 canonical ordering
+ * (e.g. COSE keys: 1, 3, -1, -2, -3) must insert keys in that order.
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const writer = new CborWriter();
+  writer.writeItem(value, 0);
+  return writer.toBytes();
+}
@@ -0,0 +1,253 @@
+import { decodeCbor, isCborMap } from './cbor.js';
+import type { CborMap, CborValue } from './cbor.js';
+
+/**
+ * COSE algorithm identifiers (IANA "COSE Algorithms" registry) supported by this plugin.
+ */
+export const COSE_ALGORITHM = {
+  ES256: -7,
+  EdDSA: -8,
+  ES384: -35,
+  ES512: -36,
+  PS256: -37,
+  PS384: -38,
+  PS512: -39,
+  RS256: -257,
+  RS384: -258,
+  RS512: -259,
+} as const;
+
+export type CoseAlgorithm = (typeof COSE_ALGORITHM)[keyof typeof COSE_ALGORITHM];
+
+/** COSE key types (`kty`). */
+export const COSE_KEY_TYPE = {
+  OKP: 1,
+  EC2: 2,
+  RSA: 3,
+} as const;
+
+/** COSE elliptic curves (`crv`). */
+export const COSE_CURVE = {
+  P256: 1,
+  P384: 2,
+  P521: 3,
+  Ed25519: 6,
+} as const;
+
+export type CoseKey =
+  | {
+      kty: typeof COSE_KEY_TYPE.EC2;
+      alg?: number;
+      crv: number;
+      x: Uint8Array;
+      y: Uint8Array;
+    }
+  | {
+      kty: typeof COSE_KEY_TYPE.OKP;
+      alg?: number;
+      crv: number;
+      x: Uint8Array;
+    }
+  | {
+      kty: typeof COSE_KEY_TYPE.RSA;
+      alg?: number;
+      n: Uint8Array;
+      e: Uint8Array;
+    };
+
+const EC2_CURVES: Record<number, { oid: number[]; size: number }> = {
+  [COSE_CURVE.P256]: { oid: [1, 2, 840, 10045, 3, 1, 7], size: 32 },
+  [COSE_CURVE.P384]: { oid: [1, 3, 132, 0, 34], size: 48 },
+  [COSE_CURVE.P521]: { oid: [1, 3, 132, 0, 35], size: 66 },
+};
+
+const OID_EC_PUBLIC_KEY = [1, 2, 840, 10045, 2, 1];
+const OID_ED25519 = [1, 3, 101, 112];
+const OID_RSA_ENCRYPTION = [1, 2, 840, 113549, 1, 1, 1];
+
+function readBytesParam(map: CborMap, label: number, name: string): Uint8Array {
+  const value = map.get(label);
+  if (!(value instanceof Uint8Array)) {
+    throw new Error(`Invalid COSE key: missing or malformed ${name}`);
+  }
+
+  return value;
+}
+
+function readIntParam(map: CborMap, label: number): number | undefined {
+  const value = map.get(label);
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Parses a COSE_Key (RFC 9052 §7) from its CBOR bytes or an already-decoded CBOR map.
+ * Unknown parameters are ignored so authenticators may include extra COSE labels.
+ */
+export function parseCoseKey(input: Uint8Array | CborValue): CoseKey {
+  const decoded = input instanceof Uint8Array ? decodeCbor(input) : input;
+  if (!isCborMap(decoded)) {
+    throw new Error('Invalid COSE key: expected a CBOR map');
+  }
+
+  const kty = readIntParam(decoded, 1);
+  const alg = readIntParam(decoded, 3);
+
+  switch (kty) {
+    case COSE_KEY_TYPE.EC2: {
+      const crv = readIntParam(decoded, -1);
+      const curve = crv === undefined ? undefined : EC2_CURVES[crv];
+      if (!curve) {
+        throw new Error(`Invalid COSE key: unsupported EC2 curve ${String(crv)}`);
+      }
+      const x = readBytesParam(decoded, -2, 'x coordinate');
+      const y = readBytesParam(decoded, -3, 'y coordinate');
+      if (x.length !== curve.size || y.length !== curve.size) {
+        throw new Error('Invalid COSE key: EC2 coordinate length does not match curve');
+      }
+      return { kty, alg, crv: crv as number, x, y };
+    }
+    case COSE_KEY_TYPE.OKP: {
+      const crv = readIntParam(decoded, -1);
+      if (crv !== COSE_CURVE.Ed25519) {
+        throw new Error(`Invalid COSE key: unsupported OKP curve ${String(crv)}`);
+      }
+      const x = readBytesParam(decoded, -2, 'x coordinate');
+      if (x.length !== 32) {
+        throw new Error('Invalid COSE key: Ed25519 public key must be 32 bytes');
+      }
+      return { kty, alg, crv, x };
+    }
+    case COSE_KEY_TYPE.RSA:
+      return {
+        kty,
+        alg,
+        n: readBytesParam(decoded, -1, 'modulus'),
+        e: readBytesParam(decoded, -2, 'exponent'),
+      };
+    default:
+      throw new Error(`Invalid COSE key: unsupported key type ${String(kty)}`);
+  }
+}
+
+/**
+ * Infers the COSE algorithm for a key whose `alg` parameter is absent.
+ */
+export function getCoseKeyAlgorithm(key: CoseKey): number {
+  if (key.alg !== undefined) {
+    return key.alg;
+  }
+
+  switch (key.kty) {
+    case COSE_KEY_TYPE.EC2:
+      return key.crv === COSE_CURVE.P384
+        ? COSE_ALGORITHM.ES384
+        : key.crv === COSE_CURVE.P521
+          ? COSE_ALGORITHM.ES512
+          : COSE_ALGORITHM.ES256;
+    case COSE_KEY_TYPE.OKP:
+      return COSE_ALGORITHM.EdDSA;
+    case COSE_KEY_TYPE.RSA:
+      return COSE_ALGORITHM.RS256;
+  }
+}
+
+/**
+ * Returns the uncompressed SEC1 point (`0x04 || x || y`) for EC2 keys.
+ * This is the 65-byte P-256 format stored by Smart Account Kit.
+ */
+export function coseKeyToRawPublicKey(key: CoseKey): Uint8Array {
+  if (key.kty === COSE_KEY_TYPE.EC2) {
+    const raw = new Uint8Array(1 + key.x.length + key.y.length);
+    raw[0] = 0x04;
+    raw.set(key.x, 1);
+    raw.set(key.y, 1 + key.x.length);
+    return raw;
+  }
+
+  if (key.kty === COSE_KEY_TYPE.OKP) {
+    return key.x.slice();
+  }
+
+  throw new Error('RSA keys have no raw point encoding; use SPKI instead');
+}
+
+/**
+ * Encodes a COSE key as DER SubjectPublicKeyInfo, the format returned by
+ * `AuthenticatorAttestationResponse.getPublicKey()` and accepted by WebCrypto `importKey('spki')`.
+ */
+export function coseKeyToSpki(key: CoseKey): Uint8Array {
+  switch (key.kty) {
+    case COSE_KEY_TYPE.EC2:
+      return derSequence(
+        derSequence(derOid(OID_EC_PUBLIC_KEY), derOid(EC2_CURVES[key.crv].oid)),
+        derBitString(coseKeyToRawPublicKey(key)),
+      );
+    case COSE_KEY_TYPE.OKP:
+      return derSequence(derSequence(derOid(OID_ED25519)), derBitString(key.x));
+    case COSE_KEY_TYPE.RSA:
+      return derSequence(
+        derSequence(derOid(OID_RSA_ENCRYPTION), new Uint8Array([0x05, 0x00])),
+        derBitString(derSequence(derInteger(key.n), derInteger(key.e))),
+      );
+  }
+}
+
+function derLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return new Uint8Array([length]);
+  }
+
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining >>>= 8) {
+    bytes.unshift(remaining & 0xff);
+  }
+
+  return new Uint8Array([0x80 | bytes.length, ...bytes]);
+}
+
+function derNode(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const bodyLength = contents.reduce((sum, part) => sum + part.length, 0);
+  const length = derLength(bodyLength);
+  const node = new Uint8Array(1 + length.length + bodyLength);
+  node[0] = tag;
+  node.set(length, 1);
+
+  let offset = 1 + length.length;
+  for (const part of contents) {
+    node.set(part, offset);
+    offset += part.length;
+  }
+
+  return node;
+}
+
+function derSequence(...contents: Uint8Array[]): Uint8Array {
+  return derNode(0x30, ...contents);
+}
+
+function derBitString(bytes: Uint8Array): Uint8Array {
+  return derNode(0x03, new Uint8Array([0x00]), bytes);
+}
+
+function derInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start += 1;
+  }
+
+  const trimmed = bytes.subarray(start);
+  return trimmed[0] & 0x80 ? derNode(0x02, new Uint8Array([0x00]), trimmed) : derNode(0x02, trimmed);
+}
+
+function derOid(oid: number[]): Uint8Array {
+  const bytes: number[] = [oid[0] * 40 + oid[1]];
+  for (const component of oid.slice(2)) {
+    const encoded: number[] = [component & 0x7f];
+    for (let remaining = component >>> 7; remaining > 0; remaining >>>= 7) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+
+  return derNode(0x06, new Uint8Array(bytes));
+}
@@ -0,0 +1,29 @@
+/**
+ * WebCrypto helpers shared by verification, storage encryption, backups and the virtual authenticator.
+ */
+
+export function getSubtle(subtle?: SubtleCrypto): SubtleCrypto {
+  const resolved = subtle ?? (globalThis as any).crypto?.subtle;
+  if (!resolved) {
+    throw new Error('WebCrypto (crypto.subtle) is not available in this runtime');
+  }
+
+  return resolved;
+}
+
+export function toBufferSource(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  const cryptoApi = (globalThis as any).crypto;
+  if (typeof cryptoApi?.getRandomValues !== 'function') {
+    throw new Error('crypto.getRandomValues is not available in this runtime');
+  }
+
+  return cryptoApi.getRandomValues(new Uint8Array(length));
+}
+
+export async function sha256(bytes: Uint8Array, subtle?: SubtleCrypto): Promise<Uint8Array> {
+  return new Uint8Array(await getSubtle(subtle).digest('SHA-256', toBufferSource(bytes)));
+}
@@ -24,8 +24,10 @@ export interface PublicKeyCreationOptions {
   timeout?: number;
   /** Preference for attestation conveyance (none, indirect, direct, enterprise) */
   attestation?: AttestationConveyancePreference;
+  /** Preferred authenticator UI, in order of preference. Forwarded on web; iOS and Android ignore it. */
+  hints?: PasskeyCredentialHint[];
   /** WebAuthn extensions for additional functionality */
-  extensions?: AuthenticationExtensionsClientInputs;
+  extensions?: PasskeyExtensionInputs;
   /** List of credentials to exclude from creation (prevents duplicate registrations) */
   excludeCredentials?: {
     /** Credential identifier (base64url encoded) */
@@ -37,6 +39,82 @@ export interface PublicKeyCreationOptions {
   }[];
 }
 
+/**
+ * PRF (pseudo-random function) salts or outputs, base64url encoded
+ */
+export interface PasskeyPrfValues {
+  /** First salt or derived secret (base64url encoded) */
+  first: string; // base64url
+  /** Optional second salt or derived secret (base64url encoded), e.g. for key rotation */
+  second?: string; // base64url
+}
+
+/**
+ * credProtect policy, see CTAP 2.1 §12.1
+ */
+export type PasskeyCredentialProtectionPolicy =
+  | 'userVerificationOptional'
+  | 'userVerificationOptionalWithCredentialIDList'
+  | 'userVerificationRequired';
+
+/**
+ * WebAuthn client extension inputs in a JSON-safe form
+ * Binary fields are base64url strings; the web implementation converts them to BufferSources
+ */
+export interface PasskeyExtensionInputs {
+  /** FIDO AppID for credentials registered with the legacy U2F API (authentication only) */
+  appid?: string;
+  /** Request the `credProps` output reporting whether a discoverable credential was created (registration only) */
+  credProps?: boolean;
+  /** credProtect policy for the new credential (registration only) */
+  credentialProtectionPolicy?: PasskeyCredentialProtectionPolicy;
+  /** Fail registration if the authenticator cannot honor `credentialProtectionPolicy` */
+  enforceCredentialProtectionPolicy?: boolean;
+  /** Ask the authenticator to report its minimum PIN length (registration only) */
+  minPinLength?: boolean;
+  /** Large blob storage: `support` at registration, `read` or `write` at authentication */
+  largeBlob?: {
+    support?: 'required' | 'preferred';
+    read?: boolean;
+    /** Blob to store (base64url encoded) */
+    write?: string; // base64url
+  };
+  /** Evaluate the credential's PRF, e.g. to derive an encryption key */
+  prf?: {
+    /** Salts used for any credential */
+    eval?: PasskeyPrfValues;
+    /** Salts keyed by base64url credential ID (authentication only, requires allowCredentials) */
+    evalByCredential?: Record<string, PasskeyPrfValues>;
+  };
+}
+
+/**
+ * WebAuthn client extension outputs in a JSON-safe form
+ * credProtect and minPinLength are authenticator outputs; read them with parseAuthenticatorData().extensions
+ */
+export interface PasskeyExtensionOutputs {
+  /** Whether the AppID was used instead of the RP ID */
+  appid?: boolean;
+  /** Credential properties; `rk` is true when a discoverable credential was created */
+  credProps?: {
+    rk?: boolean;
+  };
+  largeBlob?: {
+    /** Registration: whether the credential supports large blobs */
+    supported?: boolean;
+    /** Authentication with `read`: stored blob (base64url encoded) */
+    blob?: string; // base64url
+    /** Authentication with `write`: whether the blob was stored */
+    written?: boolean;
+  };
+  prf?: {
+    /** Registration: whether the credential supports PRF */
+    enabled?: boolean;
+    /** PRF outputs for the requested salts (base64url encoded) */
+    results?: PasskeyPrfValues;
+  };
+}
+
 /**
  * Top-level options for passkey creation
  * Wraps PublicKeyCreationOptions to match WebAuthn navigator.credentials.create() structure
@@ -44,6 +122,11 @@ export interface PublicKeyCreationOptions {
 export interface PasskeyCreateOptions {
   /** Public key credential creation options */
   publicKey: PublicKeyCreationOptions;
+  /**
+   * Aborts the ceremony when signalled; the call rejects with INTERRUPTED.
+   * Native platforms forward the abort to cancelOperation().
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -73,10 +156,28 @@ export interface PublicKeyAuthenticationOptions {
   timeout?: number;
   /** Requirement for user verification (biometric, PIN, etc.) */
   userVerification?: 'required' | 'preferred' | 'discouraged';
+  /** Preferred authenticator UI, in order of preference. Forwarded on web; iOS and Android ignore it. */
+  hints?: PasskeyCredentialHint[];
   /** WebAuthn extensions for additional functionality */
-  extensions?: AuthenticationExtensionsClientInputs;
+  extensions?: PasskeyExtensionInputs;
 }
 
+/**
+ * WebAuthn Level 3 `PublicKeyCredentialHint`
+ * - 'security-key': a roaming hardware security key
+ * - 'client-device': the platform authenticator of this device
+ * - 'hybrid': a phone, over the hybrid (caBLE) transport
+ */
+export type PasskeyCredentialHint = 'security-key' | 'client-device' | 'hybrid';
+
+/**
+ * Credential mediation requirement, mirroring `CredentialMediationRequirement` in the Credential Management spec
+ * - 'conditional': passkey autofill; the request waits for the user to pick a passkey from an input's suggestions
+ * - 'optional' / 'required': modal account chooser (default behavior)
+ * - 'silent': only resolve if a credential can be returned without user interaction
+ */
+export type PasskeyMediation = 'conditional' | 'optional' | 'required' | 'silent';
+
 /**
  * Top-level options for passkey authentication
  * Wraps PublicKeyAuthenticationOptions to match WebAuthn navigator.credentials.get() structure
@@ -84,6 +185,17 @@ export interface PublicKeyAuthenticationOptions {
 export interface PasskeyAuthenticationOptions {
   /** Public key credential request options */
   publicKey: PublicKeyAuthenticationOptions;
+  /**
+   * Mediation mode for the request.
+   * 'conditional' requires an `<input autocomplete="username webauthn">` on web and iOS 16+ natively;
+   * Android rejects it with UNSUPPORTED_ERROR.
+   */
+  mediation?: PasskeyMediation;
+  /**
+   * Aborts the ceremony when signalled; the call rejects with INTERRUPTED.
+   * Native platforms forward the abort to cancelOperation().
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -105,7 +217,7 @@ export interface PasskeyCreateResult {
   /**
    * Extension outputs. simplewebauthn expects this field; plugin responses may omit it.
    */
-  clientExtensionResults?: any;
+  clientExtensionResults?: PasskeyExtensionOutputs;
   /** Authenticator attestation response containing verification data */
   response: {
     /** Base64url-encoded attestation object containing the new public key and metadata */
@@ -154,7 +266,7 @@ export interface PasskeyAuthResult {
   /**
    * Extension outputs. simplewebauthn expects this field; plugin responses may omit it.
    */
-  clientExtensionResults?: any;
+  clientExtensionResults?: PasskeyExtensionOutputs;
   /** Authenticator assertion response containing verification data */
   response: {
     /** Base64url-encoded client data JSON containing challenge and origin information */
@@ -168,6 +280,76 @@ export interface PasskeyAuthResult {
   };
 }
 
+/**
+ * Passkey features supported by the current platform, as reported by getCapabilities()
+ * Mirrors the WebAuthn `getClientCapabilities()` vocabulary so the same checks work on web, iOS and Android
+ */
+export interface PasskeyCapabilities {
+  /** A user-verifying platform authenticator (Face ID, Touch ID, fingerprint, device PIN) is available */
+  platformAuthenticator: boolean;
+  /** Passkey autofill (`mediation: 'conditional'`) is supported by authenticate() */
+  conditionalMediation: boolean;
+  /** Cross-device authentication with a phone via QR code / Bluetooth (hybrid transport) is supported */
+  hybridTransport: boolean;
+  /** WebAuthn Related Origin Requests (`/.well-known/webauthn`) are honored */
+  relatedOrigins: boolean;
+  /** Support for WebAuthn extensions */
+  extensions: {
+    /** Pseudo-random function extension (`prf`) */
+    prf: boolean;
+    /** Large blob storage extension (`largeBlob`) */
+    largeBlob: boolean;
+  };
+  /** Support for WebAuthn Signal API methods */
+  signals: {
+    /** `PublicKeyCredential.signalUnknownCredential()` */
+    unknownCredential: boolean;
+    /** `PublicKeyCredential.signalAllAcceptedCredentials()` */
+    allAcceptedCredentials: boolean;
+    /** `PublicKeyCredential.signalCurrentUserDetails()` */
+    currentUserDetails: boolean;
+  };
+}
+
+/**
+ * Options for signalUnknownCredential()
+ * Tells the passkey provider that a credential no longer exists on the server
+ */
+export interface PasskeyUnknownCredentialOptions {
+  /** Relying Party identifier the credential belongs to */
+  rpId: string;
+  /** Credential identifier that the server does not recognize (base64url encoded) */
+  credentialId: string; // base64url
+}
+
+/**
+ * Options for signalAllAcceptedCredentials()
+ * Tells the passkey provider which of the user's credentials the server still accepts
+ */
+export interface PasskeyAllAcceptedCredentialsOptions {
+  /** Relying Party identifier the credentials belong to */
+  rpId: string;
+  /** User handle the credentials were registered for (base64url encoded) */
+  userId: string; // base64url
+  /** Every credential identifier the server accepts for this user (base64url encoded) */
+  allAcceptedCredentialIds: string[]; // base64url
+}
+
+/**
+ * Options for signalCurrentUserDetails()
+ * Tells the passkey provider the user's current account name and display name
+ */
+export interface PasskeyCurrentUserDetailsOptions {
+  /** Relying Party identifier the credentials belong to */
+  rpId: string;
+  /** User handle the credentials were registered for (base64url encoded) */
+  userId: string; // base64url
+  /** User's current account name (e.g., username or email) */
+  name: string;
+  /** User's current human-readable display name */
+  displayName: string;
+}
+
 /**
  * Main plugin interface for passkey operations
  * Provides methods for creating and authenticating with passkeys across iOS and Android platforms
@@ -188,4 +370,38 @@ export interface PasskeyPlugin {
    * @throws Error if authentication fails (user cancellation, invalid credential, etc.)
    */
   authenticate(options: PasskeyAuthenticationOptions): Promise<PasskeyAuthResult>;
+
+  /**
+   * Cancels the in-flight createPasskey/authenticate call, if any
+   * The pending call rejects with INTERRUPTED; resolves even when nothing was pending
+   */
+  cancelOperation(): Promise<void>;
+
+  /**
+   * Reports which passkey features the current platform supports
+   * Resolves with every capability set to false when passkeys are unavailable; never rejects for lack of support
+   * @returns Promise resolving to the platform's passkey capabilities
+   */
+  getCapabilities(): Promise<PasskeyCapabilities>;
+
+  /**
+   * Signals that a credential is unknown to the server so the passkey provider can hide or remove it
+   * Resolves without doing anything where the Signal API is unsupported (see `getCapabilities().signals`)
+   * @param options Relying Party and credential identifiers
+   */
+  signalUnknownCredential(options: PasskeyUnknownCredentialOptions): Promise<void>;
+
+  /**
+   * Signals the complete list of credentials the server accepts for a user
+   * Providers may hide or remove the user's other credentials for this RP; no-op where unsupported
+   * @param options Relying Party, user handle and accepted credential identifiers
+   */
+  signalAllAcceptedCredentials(options: PasskeyAllAcceptedCredentialsOptions): Promise<void>;
+
+  /**
+   * Signals the user's current name and display name so the passkey provider can update its entries
+   * Resolves without doing anything where the Signal API is unsupported
+   * @param options Relying Party, user handle and current user details
+   */
+  signalCurrentUserDetails(options: PasskeyCurrentUserDetailsOptions): Promise<void>;
 }
@@ -0,0 +1,62 @@
+/**
+ * Base64 and base64url helpers shared by modules that may run outside a browser (Node tests, SSR).
+ */
+
+interface NodeBuffer {
+  from(input: string, encoding: 'base64' | 'binary'): { toString(encoding: 'base64' | 'binary'): string };
+}
+
+function getGlobalBuffer(): NodeBuffer | undefined {
+  return (globalThis as { Buffer?: NodeBuffer }).Buffer;
+}
+
+/**
+ * Decodes standard base64 (with or without padding).
+ */
+export function fromBase64(input: string): Uint8Array {
+  const base64 = input.padEnd(Math.ceil(input.length / 4) * 4, '=');
+  let binary: string;
+
+  if (typeof atob === 'function') {
+    binary = atob(base64);
+  } else {
+    const globalBuffer = getGlobalBuffer();
+    if (!globalBuffer) {
+      throw new Error('No base64 decoder available in this runtime');
+    }
+    binary = globalBuffer.from(base64, 'base64').toString('binary');
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Encodes to padded standard base64.
+ */
+export function toBase64(input: Uint8Array): string {
+  const binary = Array.from(input, (byte) => String.fromCharCode(byte)).join('');
+
+  if (typeof btoa === 'function') {
+    return btoa(binary);
+  }
+
+  const globalBuffer = getGlobalBuffer();
+  if (!globalBuffer) {
+    throw new Error('No base64 encoder available in this runtime');
+  }
+
+  return globalBuffer.from(binary, 'binary').toString('base64');
+}
+
+export function fromBase64Url(input: string): Uint8Array {
+  return fromBase64(input.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+export function toBase64Url(input: Uint8Array): string {
+  return toBase64(input).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+}
@@ -1,3 +1,7 @@
+import { Capacitor } from '@capacitor/core';
+
+import type { PasskeyValidationIssue } from './validation.js';
+
 export type PluginErrorCode =
   | 'UNKNOWN_ERROR'
   | 'CANCELLED'
@@ -11,14 +15,58 @@ export type PluginErrorCode =
   | 'INTERRUPTED'
   | 'NO_ACTIVITY';
 
+/**
+ * Code carried by `PasskeyError`: one of the plugin's codes, or any string for errors created by apps.
+ */
+export type PasskeyErrorCode = PluginErrorCode | (string & Record<never, never>);
+
+/**
+ * Stable subtype of an error for UI handling, independent of the platform that raised it.
+ */
+export type PasskeyErrorReason =
+  | 'user-cancelled'
+  | 'timed-out'
+  | 'excluded-credential-exists'
+  | 'rp-mismatch'
+  | 'no-matching-credential';
+
+export type PasskeyCeremony = 'create' | 'get';
+
+export interface PasskeyErrorContext {
+  ceremony?: PasskeyCeremony;
+  /** `Capacitor.getPlatform()` of the code path that failed: `'web'`, `'ios'` or `'android'`. */
+  platform?: string;
+}
+
+export interface PasskeyErrorOptions extends PasskeyErrorContext {
+  reason?: PasskeyErrorReason;
+  /** Original error, e.g. the DOMException or the native plugin rejection. */
+  cause?: unknown;
+  /** Offending fields of an `INVALID_INPUT` error raised by options validation. */
+  issues?: PasskeyValidationIssue[];
+}
+
 export class PasskeyError extends Error {
-  readonly pluginErrorCode: string;
+  readonly pluginErrorCode: PasskeyErrorCode;
+  /** Same as `pluginErrorCode`, matching the `code` of Capacitor plugin rejections. */
+  readonly code: PasskeyErrorCode;
+  readonly reason?: PasskeyErrorReason;
+  readonly ceremony?: PasskeyCeremony;
+  readonly platform?: string;
+  readonly cause?: unknown;
+  readonly issues?: PasskeyValidationIssue[];
   override readonly name: string;
 
-  constructor(name: string, message: string, pluginErrorCode: string) {
+  constructor(name: string, message: string, pluginErrorCode: PasskeyErrorCode, options: PasskeyErrorOptions = {}) {
     super(message);
     this.name = name;
     this.pluginErrorCode = pluginErrorCode;
+    this.code = pluginErrorCode;
+    this.reason = options.reason;
+    this.ceremony = options.ceremony;
+    this.platform = options.platform;
+    this.cause = options.cause;
+    this.issues = options.issues;
   }
 }
 
@@ -36,6 +84,23 @@ const ERROR_NAME_MAP: Record<PluginErrorCode, string> = {
   NO_ACTIVITY: 'InvalidStateError',
 };
 
+// DOMException names raised by navigator.credentials, and the codes native platforms use for them
+const DOM_NAME_CODES: Record<string, PluginErrorCode> = {
+  NotAllowedError: 'CANCELLED',
+  AbortError: 'INTERRUPTED',
+  SecurityError: 'RPID_VALIDATION_ERROR',
+  NotSupportedError: 'UNSUPPORTED_ERROR',
+  TypeError: 'INVALID_INPUT',
+  InvalidStateError: 'DOM_ERROR',
+};
+
+const REASON_BY_CODE: Partial<Record<PluginErrorCode, PasskeyErrorReason>> = {
+  CANCELLED: 'user-cancelled',
+  TIMEOUT: 'timed-out',
+  NO_CREDENTIAL: 'no-matching-credential',
+  RPID_VALIDATION_ERROR: 'rp-mismatch',
+};
+
 function inferDomErrorNameFromMessage(message: string): string | undefined {
   const knownNames = [
     'NotAllowedError',
@@ -64,20 +129,86 @@ function toPluginErrorCode(value: unknown): PluginErrorCode | undefined {
   return (Object.keys(ERROR_NAME_MAP) as PluginErrorCode[]).find((key) => key === value);
 }
 
-export function mapPluginError(error: unknown): PasskeyError {
+function errorNameFor(code: PluginErrorCode, message: string): string {
+  return code === 'DOM_ERROR' ? (inferDomErrorNameFromMessage(message) ?? ERROR_NAME_MAP[code]) : ERROR_NAME_MAP[code];
+}
+
+function inferReason(code: PasskeyErrorCode, name: string, ceremony?: PasskeyCeremony): PasskeyErrorReason | undefined {
+  if (name === 'SecurityError') {
+    return 'rp-mismatch';
+  }
+
+  // During create, InvalidStateError means a credential in excludeCredentials is already on the authenticator
+  if (name === 'InvalidStateError' && code === 'DOM_ERROR' && ceremony === 'create') {
+    return 'excluded-credential-exists';
+  }
+
+  const pluginCode = toPluginErrorCode(code);
+  return pluginCode && REASON_BY_CODE[pluginCode];
+}
+
+/**
+ * Creates the error for a failure the plugin detected itself. `DOM_ERROR` takes its name from the message,
+ * and `reason` is derived from the code and name unless given.
+ */
+export function createPasskeyError(
+  code: PluginErrorCode,
+  message: string,
+  options: PasskeyErrorOptions = {},
+): PasskeyError {
+  const name = errorNameFor(code, message);
+  return new PasskeyError(name, message, code, {
+    ...options,
+    reason: options.reason ?? inferReason(code, name, options.ceremony),
+  });
+}
+
+/**
+ * Normalizes any failure of a passkey call, whether a plugin rejection with `code`, a DOMException from
+ * `navigator.credentials` or an existing `PasskeyError`, into a `PasskeyError`. The original error is kept as
+ * `cause`; `platform` defaults to `Capacitor.getPlatform()`.
+ */
+export function mapPluginError(error: unknown, context: PasskeyErrorContext = {}): PasskeyError {
+  const platform = context.platform ?? Capacitor.getPlatform();
+
   if (error instanceof PasskeyError) {
-    return error;
+    if (error.ceremony && error.platform) {
+      return error;
+    }
+
+    const ceremony = error.ceremony ?? context.ceremony;
+    return new PasskeyError(error.name, error.message, error.pluginErrorCode, {
+      reason: error.reason ?? inferReason(error.pluginErrorCode, error.name, ceremony),
+      ceremony,
+      platform: error.platform ?? platform,
+      cause: error.cause,
+      issues: error.issues,
+    });
   }
 
   const anyError = error as { code?: unknown; message?: unknown; name?: unknown };
-  const pluginCode = toPluginErrorCode(anyError?.code) ?? 'UNKNOWN_ERROR';
-
-  let name = ERROR_NAME_MAP[pluginCode];
   const message = typeof anyError?.message === 'string' ? anyError.message : 'Passkey operation failed';
+  const domName =
+    typeof anyError?.name === 'string' && Object.prototype.hasOwnProperty.call(DOM_NAME_CODES, anyError.name)
+      ? anyError.name
+      : undefined;
 
-  if (pluginCode === 'DOM_ERROR') {
-    name = inferDomErrorNameFromMessage(message) ?? 'NotAllowedError';
+  let code = toPluginErrorCode(anyError?.code);
+  let name: string;
+  if (code) {
+    name = errorNameFor(code, message);
+  } else if (domName) {
+    code = DOM_NAME_CODES[domName];
+    name = domName;
+  } else {
+    code = 'UNKNOWN_ERROR';
+    name = ERROR_NAME_MAP[code];
   }
 
-  return new PasskeyError(name, message, pluginCode);
+  return new PasskeyError(name, message, code, {
+    reason: inferReason(code, name, context.ceremony),
+    ceremony: context.ceremony,
+    platform,
+    cause: error,
+  });
 }
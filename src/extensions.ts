@@ -0,0 +1,173 @@
+import type { PasskeyExtensionInputs, PasskeyExtensionOutputs } from './definitions.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+
+/**
+ * Conversions between the JSON-safe extension shapes in definitions.ts and WebAuthn's BufferSource fields.
+ * Only PRF and largeBlob carry binary data; every other extension is copied as is.
+ */
+
+type BinaryLike = string | BufferSource;
+
+type PrfValuesLike = { first: BinaryLike; second?: BinaryLike };
+
+/**
+ * Extension inputs as they may arrive from callers: JSON-safe strings or BufferSources (e.g. SimpleWebAuthn options).
+ */
+export type ExtensionInputsLike = Omit<PasskeyExtensionInputs, 'largeBlob' | 'prf'> & {
+  largeBlob?: Omit<NonNullable<PasskeyExtensionInputs['largeBlob']>, 'write'> & { write?: BinaryLike };
+  prf?: { eval?: PrfValuesLike; evalByCredential?: Record<string, PrfValuesLike> };
+};
+
+function toBytes(value: BufferSource): Uint8Array {
+  if (ArrayBuffer.isView(value)) {
+    return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  }
+
+  return new Uint8Array(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isBinaryLike(value: unknown): value is BinaryLike {
+  return typeof value === 'string' || value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+}
+
+function encodeBinary(value: BinaryLike): string {
+  return typeof value === 'string' ? value : toBase64Url(toBytes(value));
+}
+
+function decodeBinary(value: BinaryLike): BufferSource {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const bytes = fromBase64Url(value);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function mapPrfValues<T>(values: PrfValuesLike, convert: (value: BinaryLike) => T): { first: T; second?: T } {
+  return {
+    first: convert(values.first),
+    ...(values.second != null ? { second: convert(values.second) } : {}),
+  };
+}
+
+function mapExtensionInputs(
+  inputs: ExtensionInputsLike,
+  convert: (value: BinaryLike) => unknown,
+): Record<string, unknown> {
+  const { largeBlob, prf, ...rest } = inputs;
+  const mapped: Record<string, unknown> = { ...rest };
+
+  if (largeBlob) {
+    mapped.largeBlob = {
+      ...largeBlob,
+      ...(largeBlob.write != null ? { write: convert(largeBlob.write) } : {}),
+    };
+  }
+
+  if (prf) {
+    const evalByCredential = prf.evalByCredential
+      ? Object.fromEntries(
+          Object.entries(prf.evalByCredential).map(([credentialId, values]) => [
+            credentialId,
+            mapPrfValues(values, convert),
+          ]),
+        )
+      : undefined;
+
+    mapped.prf = {
+      ...(prf.eval ? { eval: mapPrfValues(prf.eval, convert) } : {}),
+      ...(evalByCredential ? { evalByCredential } : {}),
+    };
+  }
+
+  return mapped;
+}
+
+/**
+ * Normalizes extension inputs to the JSON-safe form sent over the native bridge (BufferSources become base64url).
+ */
+export function encodeExtensionInputs(inputs?: ExtensionInputsLike): PasskeyExtensionInputs | undefined {
+  return inputs ? (mapExtensionInputs(inputs, encodeBinary) as PasskeyExtensionInputs) : undefined;
+}
+
+/**
+ * Converts JSON-safe extension inputs to WebAuthn inputs (base64url strings become ArrayBuffers).
+ */
+export function decodeExtensionInputs(inputs?: ExtensionInputsLike): AuthenticationExtensionsClientInputs | undefined {
+  return inputs ? (mapExtensionInputs(inputs, decodeBinary) as AuthenticationExtensionsClientInputs) : undefined;
+}
+
+/**
+ * Converts client extension results to the JSON-safe form (PRF results and largeBlob blobs become base64url).
+ * Accepts outputs that are already encoded, so it is safe to apply to native plugin results.
+ */
+export function encodeExtensionOutputs(
+  outputs?: PasskeyExtensionOutputs | AuthenticationExtensionsClientOutputs | Record<string, unknown> | null,
+): PasskeyExtensionOutputs {
+  if (!outputs) {
+    return {};
+  }
+
+  const { largeBlob, prf, ...rest } = outputs;
+  const encoded: Record<string, unknown> = { ...rest };
+
+  if (isRecord(largeBlob)) {
+    const { blob } = largeBlob;
+    encoded.largeBlob = {
+      ...largeBlob,
+      ...(isBinaryLike(blob) ? { blob: encodeBinary(blob) } : {}),
+    };
+  }
+
+  if (isRecord(prf)) {
+    const { results } = prf;
+    encoded.prf = {
+      ...prf,
+      ...(isRecord(results) && isBinaryLike(results.first)
+        ? {
+            results: mapPrfValues(
+              { first: results.first, ...(isBinaryLike(results.second) ? { second: results.second } : {}) },
+              encodeBinary,
+            ),
+          }
+        : {}),
+    };
+  }
+
+  return encoded as PasskeyExtensionOutputs;
+}
+
+/**
+ * Converts JSON-safe extension outputs to WebAuthn client extension results (base64url PRF results and
+ * largeBlob blobs become ArrayBuffers), as `PublicKeyCredential.getClientExtensionResults()` returns them.
+ */
+export function decodeExtensionOutputs(
+  outputs?: PasskeyExtensionOutputs | null,
+): AuthenticationExtensionsClientOutputs {
+  if (!outputs) {
+    return {};
+  }
+
+  const { largeBlob, prf, ...rest } = outputs;
+  const decoded: Record<string, unknown> = { ...rest };
+
+  if (largeBlob) {
+    decoded.largeBlob = {
+      ...largeBlob,
+      ...(largeBlob.blob != null ? { blob: decodeBinary(largeBlob.blob) } : {}),
+    };
+  }
+
+  if (prf) {
+    decoded.prf = {
+      ...prf,
+      ...(prf.results?.first != null ? { results: mapPrfValues(prf.results, decodeBinary) } : {}),
+    };
+  }
+
+  return decoded as AuthenticationExtensionsClientOutputs;
+}
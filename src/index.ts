@@ -1,11 +1,16 @@
 import { registerPlugin } from '@capacitor/core';
 
 import type { PasskeyPlugin as PasskeyPluginType } from './definitions.js';
+import { withNativeAbortSignal } from './native-abort.js';
 
 // Rename the type locally to avoid conflict
-const PasskeyPlugin = registerPlugin<PasskeyPluginType>('PasskeyPlugin', {
-  web: () => import('./web.js').then((m) => new m.WebPasskeyPlugin()),
-});
+const PasskeyPlugin = withNativeAbortSignal(
+  registerPlugin<PasskeyPluginType>('PasskeyPlugin', {
+    web: () => import('./web.js').then((m) => new m.WebPasskeyPlugin()),
+  }),
+);
 
 export * from './definitions.js';
+export * from './errors.js';
+export * from './validation.js';
 export { PasskeyPlugin };
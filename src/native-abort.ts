@@ -0,0 +1,74 @@
+import { Capacitor } from '@capacitor/core';
+
+import type { PasskeyPlugin } from './definitions.js';
+import { createPasskeyError, mapPluginError } from './errors.js';
+import type { PasskeyCeremony } from './errors.js';
+import { wrapPluginMethods } from './plugin-hooks.js';
+import { assertValidAuthenticationOptions, assertValidCreateOptions } from './validation.js';
+
+/**
+ * Strips `signal` (an AbortSignal cannot cross the native bridge) and translates its abort into cancelOperation().
+ */
+async function callWithSignal<O extends { signal?: AbortSignal }, R>(
+  plugin: PasskeyPlugin,
+  invoke: (options: Omit<O, 'signal'>) => Promise<R>,
+  options: O,
+): Promise<R> {
+  const { signal, ...nativeOptions } = options;
+
+  if (!signal) {
+    return invoke(nativeOptions);
+  }
+
+  if (signal.aborted) {
+    throw createPasskeyError('INTERRUPTED', 'Passkey operation was aborted');
+  }
+
+  const onAbort = () => {
+    plugin.cancelOperation().catch(() => undefined);
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await invoke(nativeOptions);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Validates the options of a native ceremony, runs it and maps its rejection to `PasskeyError`.
+ */
+async function callCeremony<O extends { signal?: AbortSignal }, R>(
+  plugin: PasskeyPlugin,
+  ceremony: PasskeyCeremony,
+  invoke: (options: Omit<O, 'signal'>) => Promise<R>,
+  options: O,
+): Promise<R> {
+  try {
+    if (ceremony === 'create') {
+      assertValidCreateOptions(options);
+    } else {
+      assertValidAuthenticationOptions(options);
+    }
+
+    return await callWithSignal(plugin, invoke, options);
+  } catch (error) {
+    throw mapPluginError(error, { ceremony });
+  }
+}
+
+/**
+ * Wraps the registered plugin proxy so `signal` works on native platforms.
+ * On web the options reach WebPasskeyPlugin untouched, which wires the signal to its own AbortController.
+ * Native `createPasskey`/`authenticate` options are validated first, and rejections are mapped to `PasskeyError`;
+ * on web the plugin does both itself.
+ */
+export function withNativeAbortSignal(plugin: PasskeyPlugin): PasskeyPlugin {
+  return wrapPluginMethods(plugin, {
+    createPasskey: (createPasskey, options) =>
+      Capacitor.isNativePlatform() ? callCeremony(plugin, 'create', createPasskey, options) : createPasskey(options),
+    authenticate: (authenticate, options) =>
+      Capacitor.isNativePlatform() ? callCeremony(plugin, 'get', authenticate, options) : authenticate(options),
+  });
+}
@@ -0,0 +1,36 @@
+import type { PasskeyPlugin } from './definitions.js';
+
+type PluginMethod = {
+  [K in keyof PasskeyPlugin]: PasskeyPlugin[K] extends (...args: never[]) => unknown ? K : never;
+}[keyof PasskeyPlugin];
+
+/**
+ * Replacements for plugin methods. Each hook receives the original method, bound to the plugin, and the call arguments.
+ */
+export type PluginMethodHooks = {
+  [K in PluginMethod]?: (
+    original: PasskeyPlugin[K],
+    ...args: Parameters<PasskeyPlugin[K]>
+  ) => ReturnType<PasskeyPlugin[K]>;
+};
+
+/**
+ * Wraps `plugin` in a Proxy that routes the methods in `hooks` through their hook. Every other property is read from
+ * the plugin unchanged, so Capacitor's own plugin proxy keeps resolving listeners and platform methods.
+ */
+export function wrapPluginMethods<P extends Partial<PasskeyPlugin>>(plugin: P, hooks: PluginMethodHooks): P {
+  return new Proxy(plugin, {
+    get(target, property, receiver) {
+      const hook = Object.prototype.hasOwnProperty.call(hooks, property)
+        ? (hooks[property as PluginMethod] as ((original: unknown, ...args: unknown[]) => unknown) | undefined)
+        : undefined;
+      if (!hook) {
+        return Reflect.get(target, property, receiver);
+      }
+
+      const original = Reflect.get(target, property, receiver);
+      const bound = typeof original === 'function' ? original.bind(target) : original;
+      return (...args: unknown[]) => hook(bound, ...args);
+    },
+  });
+}
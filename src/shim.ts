@@ -0,0 +1,2 @@
+export { installWebAuthnShim, uninstallWebAuthnShim } from './webauthn-shim.js';
+export type { WebAuthnShimOptions } from './webauthn-shim.js';
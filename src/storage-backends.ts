@@ -0,0 +1,267 @@
+/**
+ * Key-value backends for `CapacitorStorageAdapter`.
+ *
+ * The adapter keeps its credential index, serialization, encryption and session logic on top of this
+ * interface, so switching persistence only means passing a different backend.
+ */
+
+/**
+ * Minimal async string key-value store.
+ */
+export interface StorageBackend {
+  get(key: string): Promise<string | null>;
+  /** Reads several keys in one round trip. Optional; without it the adapter issues the reads in parallel. */
+  getMany?(keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** Lists every stored key. Optional; without it `integrityCheck()` cannot find unindexed records. */
+  keys?(): Promise<string[]>;
+}
+
+/**
+ * Functions bridging an arbitrary key-value store, e.g. a SQLite plugin. Each may be sync or async;
+ * `get` may return `undefined` for a missing key.
+ */
+export interface KeyValueBridge {
+  get(key: string): string | null | undefined | Promise<string | null | undefined>;
+  getMany?(keys: string[]): (string | null | undefined)[] | Promise<(string | null | undefined)[]>;
+  set(key: string, value: string): void | Promise<unknown>;
+  remove(key: string): void | Promise<unknown>;
+  keys?(): string[] | Promise<string[]>;
+}
+
+type PreferencesAPI = {
+  get(options: { key: string }): Promise<{ value: string | null }>;
+  set(options: { key: string; value: string }): Promise<void>;
+  remove(options: { key: string }): Promise<void>;
+  keys(): Promise<{ keys: string[] }>;
+};
+
+const DEFAULT_DATABASE_NAME = 'capacitor-passkey';
+const DEFAULT_OBJECT_STORE_NAME = 'entries';
+
+/**
+ * Persists entries with `@capacitor/preferences` (NSUserDefaults / SharedPreferences / localStorage).
+ * The plugin is imported on first use, so other backends work without it installed.
+ */
+export class PreferencesStorageBackend implements StorageBackend {
+  private preferences?: Promise<PreferencesAPI>;
+
+  async get(key: string): Promise<string | null> {
+    const preferences = await this.getPreferences();
+    const { value } = await preferences.get({ key });
+    return value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const preferences = await this.getPreferences();
+    await preferences.set({ key, value });
+  }
+
+  async remove(key: string): Promise<void> {
+    const preferences = await this.getPreferences();
+    await preferences.remove({ key });
+  }
+
+  async keys(): Promise<string[]> {
+    const preferences = await this.getPreferences();
+    const { keys } = await preferences.keys();
+    return keys;
+  }
+
+  private getPreferences(): Promise<PreferencesAPI> {
+    if (!this.preferences) {
+      this.preferences = import('@capacitor/preferences').then(
+        (module) => module.Preferences as PreferencesAPI,
+        (error) => {
+          this.preferences = undefined;
+          throw new Error(`@capacitor/preferences is required for the default storage backend: ${error}`);
+        },
+      );
+    }
+
+    return this.preferences;
+  }
+}
+
+/**
+ * Keeps entries in a `Map`, for tests and server-side rendering. Pass a map to inspect or seed the entries.
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly entries: Map<string, string>;
+
+  constructor(entries: Map<string, string> = new Map()) {
+    this.entries = entries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async getMany(keys: string[]): Promise<(string | null)[]> {
+    return keys.map((key) => this.entries.get(key) ?? null);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * Persists entries in an IndexedDB object store (web). The database is opened on first use.
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(databaseName: string = DEFAULT_DATABASE_NAME, storeName: string = DEFAULT_OBJECT_STORE_NAME) {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.request('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async getMany(keys: string[]): Promise<(string | null)[]> {
+    const values = await this.requestAll('readonly', (store) => keys.map((key) => store.get(key)));
+    return values.map((value) => (typeof value === 'string' ? value : null));
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', (store) => store.getAllKeys());
+    return (keys as IDBValidKey[]).filter((key): key is string => typeof key === 'string');
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = this.connect().catch((error) => {
+        this.database = undefined;
+        throw error;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Opens the database at its current version. Object stores can only be created in a version upgrade, so when
+   * another backend created the database with a different store, the version is bumped to add this one.
+   */
+  private async connect(): Promise<IDBDatabase> {
+    const factory: IDBFactory | undefined = (globalThis as any).indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available in this runtime');
+    }
+
+    let database = await this.open(factory);
+    while (!database.objectStoreNames.contains(this.storeName)) {
+      const version = database.version + 1;
+      database.close();
+      database = await this.open(factory, version);
+    }
+
+    // Let other backends on the same database upgrade it; the next request reconnects
+    const connected = database;
+    connected.onversionchange = () => {
+      connected.close();
+      this.database = undefined;
+    };
+    return connected;
+  }
+
+  private open(factory: IDBFactory, version?: number): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+      const request =
+        version === undefined ? factory.open(this.databaseName) : factory.open(this.databaseName, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    const [result] = await this.requestAll(mode, (store) => [run(store)]);
+    return result;
+  }
+
+  /**
+   * Runs the requests in a single transaction.
+   */
+  private async requestAll(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest[]): Promise<unknown[]> {
+    const database = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const requests = run(transaction.objectStore(this.storeName));
+      // Resolve on commit so a write is durable before the adapter continues
+      transaction.oncomplete = () => resolve(requests.map((request) => request.result));
+      transaction.onerror = (event) => reject(transaction.error ?? (event.target as IDBRequest).error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
+
+/**
+ * Adapts caller-supplied functions, e.g. backed by a SQLite plugin, to `StorageBackend`.
+ *
+ * ```ts
+ * new KeyValueBridgeBackend({
+ *   get: async (key) => (await db.query('SELECT value FROM kv WHERE key = ?', [key])).values?.[0]?.value,
+ *   set: (key, value) => db.run('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)', [key, value]),
+ *   remove: (key) => db.run('DELETE FROM kv WHERE key = ?', [key]),
+ *   keys: async () => (await db.query('SELECT key FROM kv')).values?.map((row) => row.key) ?? [],
+ * });
+ * ```
+ */
+export class KeyValueBridgeBackend implements StorageBackend {
+  private readonly bridge: KeyValueBridge;
+  readonly keys?: () => Promise<string[]>;
+  readonly getMany?: (keys: string[]) => Promise<(string | null)[]>;
+
+  constructor(bridge: KeyValueBridge) {
+    this.bridge = bridge;
+    const listKeys = bridge.keys?.bind(bridge);
+    if (listKeys) {
+      this.keys = async () => listKeys();
+    }
+    const getMany = bridge.getMany?.bind(bridge);
+    if (getMany) {
+      this.getMany = async (keys) => (await getMany(keys)).map((value) => value ?? null);
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.bridge.get(key)) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.bridge.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.bridge.remove(key);
+  }
+}
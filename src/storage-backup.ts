@@ -0,0 +1,136 @@
+/**
+ * Backup file format for `CapacitorStorageAdapter.exportAll()` / `importAll()`.
+ *
+ * A backup is a JSON document `{ format, version, createdAt, checksum, ... }` holding either the
+ * payload in clear or, with a passphrase, an AES-GCM envelope whose key is derived with PBKDF2.
+ * The checksum is the SHA-256 of the payload JSON and is verified after decryption.
+ */
+
+import { randomBytes, sha256 } from './crypto.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+import { StorageCipher, isEncryptedValue, passphraseKeyProvider } from './storage-encryption.js';
+import type { StoredSession } from './storage.js';
+
+export type BackupMergeStrategy = 'skip' | 'overwrite' | 'newest';
+
+/**
+ * Contents of a backup. Credentials use the storage record format of `schemaVersion`.
+ */
+export interface StorageBackupPayload {
+  schemaVersion: number;
+  credentials: unknown[];
+  sessions: StoredSession[];
+  activeContractId?: string;
+}
+
+interface StorageBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  createdAt: number;
+  /** SHA-256 (base64url) of the payload JSON. */
+  checksum: string;
+  payload?: StorageBackupPayload;
+  kdf?: { name: 'PBKDF2'; hash: 'SHA-256'; salt: string; iterations: number };
+  /** `StorageCipher` envelope of the payload JSON. */
+  encrypted?: string;
+}
+
+const BACKUP_FORMAT = 'capacitor-passkey-backup';
+const BACKUP_VERSION = 1;
+const DEFAULT_BACKUP_ITERATIONS = 310000;
+const SALT_LENGTH = 16;
+
+async function checksum(text: string, subtle?: SubtleCrypto): Promise<string> {
+  return toBase64Url(await sha256(new TextEncoder().encode(text), subtle));
+}
+
+function createCipher(passphrase: string, salt: Uint8Array, iterations: number, subtle?: SubtleCrypto) {
+  return new StorageCipher({ keyProvider: passphraseKeyProvider(passphrase, { salt, iterations, subtle }), subtle });
+}
+
+/**
+ * Serializes a payload into a backup document, encrypted when `passphrase` is given.
+ */
+export async function encodeBackup(
+  payload: StorageBackupPayload,
+  options: { passphrase?: string; iterations?: number; subtle?: SubtleCrypto } = {},
+): Promise<string> {
+  const json = JSON.stringify(payload);
+  const file: StorageBackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    checksum: await checksum(json, options.subtle),
+  };
+
+  if (options.passphrase === undefined) {
+    file.payload = payload;
+  } else {
+    const salt = randomBytes(SALT_LENGTH);
+    const iterations = options.iterations ?? DEFAULT_BACKUP_ITERATIONS;
+    file.kdf = { name: 'PBKDF2', hash: 'SHA-256', salt: toBase64Url(salt), iterations };
+    file.encrypted = await createCipher(options.passphrase, salt, iterations, options.subtle).encrypt(
+      BACKUP_FORMAT,
+      json,
+    );
+  }
+
+  return JSON.stringify(file);
+}
+
+/**
+ * Parses a backup document, decrypting it with `passphrase` when needed, and verifies its checksum.
+ * @throws Error when the document is not a supported backup, the passphrase is missing or wrong,
+ * or the checksum does not match.
+ */
+export async function decodeBackup(
+  backup: string,
+  options: { passphrase?: string; subtle?: SubtleCrypto } = {},
+): Promise<StorageBackupPayload> {
+  let file: StorageBackupFile;
+  try {
+    file = JSON.parse(backup);
+  } catch {
+    throw new Error('Backup is not valid JSON');
+  }
+
+  if (file?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a capacitor-passkey backup');
+  }
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${file.version}`);
+  }
+
+  let json: string;
+  if (typeof file.encrypted === 'string' && isEncryptedValue(file.encrypted) && file.kdf) {
+    if (options.passphrase === undefined) {
+      throw new Error('Backup is encrypted; a passphrase is required');
+    }
+
+    const cipher = createCipher(options.passphrase, fromBase64Url(file.kdf.salt), file.kdf.iterations, options.subtle);
+    try {
+      json = await cipher.decrypt(BACKUP_FORMAT, file.encrypted);
+    } catch {
+      throw new Error('Backup cannot be decrypted: wrong passphrase or damaged data');
+    }
+  } else if (file.payload !== undefined) {
+    json = JSON.stringify(file.payload);
+  } else {
+    throw new Error('Backup payload is malformed');
+  }
+
+  if ((await checksum(json, options.subtle)) !== file.checksum) {
+    throw new Error('Backup checksum mismatch: the data is damaged or was modified');
+  }
+
+  const payload = JSON.parse(json) as StorageBackupPayload;
+  if (
+    typeof payload?.schemaVersion !== 'number' ||
+    !Array.isArray(payload.credentials) ||
+    !Array.isArray(payload.sessions)
+  ) {
+    throw new Error('Backup payload is malformed');
+  }
+
+  return payload;
+}
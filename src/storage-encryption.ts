@@ -0,0 +1,236 @@
+/**
+ * AES-GCM encryption at rest for storage adapters.
+ *
+ * Records are written as a JSON envelope `{ enc, v, iv, ct }` with a random 96-bit IV. The storage key of
+ * the record is bound as additional authenticated data, so ciphertexts cannot be swapped between entries.
+ */
+
+import { getSubtle, randomBytes, toBufferSource } from './crypto.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+
+/**
+ * Supplies the AES-GCM key used to encrypt stored records.
+ */
+export interface StorageKeyProvider {
+  getKey(): Promise<CryptoKey>;
+}
+
+export interface StorageEncryptionOptions {
+  /** Key used to encrypt new writes and tried first when decrypting. */
+  keyProvider: StorageKeyProvider;
+  /** Keys tried when `keyProvider` cannot decrypt a record, e.g. to finish an interrupted key rotation. */
+  previousKeyProviders?: StorageKeyProvider[];
+  /**
+   * Reads values that are not encrypted envelopes as plaintext instead of rejecting them. Defaults to `false`;
+   * `migrateToEncrypted()` accepts plaintext regardless while it rewrites the entries.
+   */
+  allowPlaintext?: boolean;
+  /** WebCrypto implementation; defaults to `globalThis.crypto.subtle`. */
+  subtle?: SubtleCrypto;
+}
+
+export interface PrfKeyProviderOptions {
+  /** HKDF salt (bytes or base64url). Defaults to empty. */
+  salt?: Uint8Array | string;
+  /** HKDF info string separating this key from other keys derived from the same PRF output. */
+  info?: string;
+  subtle?: SubtleCrypto;
+}
+
+export interface PassphraseKeyProviderOptions {
+  /** PBKDF2 salt (bytes or base64url). Store it alongside the data; it must not change between sessions. */
+  salt: Uint8Array | string;
+  /** PBKDF2-SHA256 iterations. Defaults to 310000. */
+  iterations?: number;
+  subtle?: SubtleCrypto;
+}
+
+interface EncryptedEnvelope {
+  enc: typeof ENVELOPE_ALGORITHM;
+  v: typeof ENVELOPE_VERSION;
+  iv: string;
+  ct: string;
+}
+
+const ENVELOPE_ALGORITHM = 'AES-GCM';
+const ENVELOPE_VERSION = 1;
+const IV_LENGTH = 12;
+const DEFAULT_PBKDF2_ITERATIONS = 310000;
+const DEFAULT_PRF_INFO = 'capacitor-passkey storage';
+
+function toBytes(input: Uint8Array | string): Uint8Array {
+  return typeof input === 'string' ? fromBase64Url(input) : input;
+}
+
+/**
+ * Caches the derived key; a failed derivation is retried on the next call.
+ */
+function memoizeKey(load: () => Promise<CryptoKey>): StorageKeyProvider {
+  let pending: Promise<CryptoKey> | undefined;
+
+  return {
+    getKey() {
+      if (!pending) {
+        pending = load().catch((error) => {
+          pending = undefined;
+          throw error;
+        });
+      }
+
+      return pending;
+    },
+  };
+}
+
+function importAesKey(subtle: SubtleCrypto, raw: Uint8Array): Promise<CryptoKey> {
+  if (raw.length !== 16 && raw.length !== 32) {
+    throw new Error(`AES-GCM keys must be 16 or 32 bytes, got ${raw.length}`);
+  }
+
+  return subtle.importKey('raw', toBufferSource(raw), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Uses a caller-supplied key: an AES-GCM `CryptoKey` or 16/32 raw key bytes (bytes or base64url).
+ */
+export function staticKeyProvider(key: CryptoKey | Uint8Array | string, subtle?: SubtleCrypto): StorageKeyProvider {
+  if (typeof key !== 'string' && !(key instanceof Uint8Array)) {
+    return { getKey: async () => key };
+  }
+
+  return memoizeKey(() => importAesKey(getSubtle(subtle), toBytes(key)));
+}
+
+/**
+ * Derives a 256-bit key with HKDF-SHA256 from a passkey PRF output, e.g.
+ * `clientExtensionResults.prf.results.first` of an `authenticate` call.
+ * `getPrfOutput` runs once, on first use, and again only if derivation fails.
+ */
+export function prfKeyProvider(
+  getPrfOutput: () => Promise<Uint8Array | string>,
+  options: PrfKeyProviderOptions = {},
+): StorageKeyProvider {
+  return memoizeKey(async () => {
+    const subtle = getSubtle(options.subtle);
+    const material = await subtle.importKey('raw', toBufferSource(toBytes(await getPrfOutput())), 'HKDF', false, [
+      'deriveKey',
+    ]);
+
+    return subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: toBufferSource(toBytes(options.salt ?? new Uint8Array())),
+        info: toBufferSource(new TextEncoder().encode(options.info ?? DEFAULT_PRF_INFO)),
+      },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  });
+}
+
+/**
+ * Derives a 256-bit key with PBKDF2-SHA256 from a user passphrase.
+ */
+export function passphraseKeyProvider(
+  passphrase: string | (() => Promise<string>),
+  options: PassphraseKeyProviderOptions,
+): StorageKeyProvider {
+  return memoizeKey(async () => {
+    const subtle = getSubtle(options.subtle);
+    const secret = typeof passphrase === 'string' ? passphrase : await passphrase();
+    const material = await subtle.importKey('raw', toBufferSource(new TextEncoder().encode(secret)), 'PBKDF2', false, [
+      'deriveKey',
+    ]);
+
+    return subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        salt: toBufferSource(toBytes(options.salt)),
+        iterations: options.iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+      },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  });
+}
+
+function parseEnvelope(value: string): EncryptedEnvelope | undefined {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed?.enc === ENVELOPE_ALGORITHM && typeof parsed.iv === 'string' && typeof parsed.ct === 'string'
+      ? (parsed as EncryptedEnvelope)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isEncryptedValue(value: string): boolean {
+  return parseEnvelope(value) !== undefined;
+}
+
+/**
+ * Encrypts and decrypts stored values for one adapter. Plaintext values are rejected by `decrypt`
+ * unless `allowPlaintext` is set, so a tampered or downgraded entry cannot be read as valid data.
+ */
+export class StorageCipher {
+  readonly options: StorageEncryptionOptions;
+
+  constructor(options: StorageEncryptionOptions) {
+    this.options = options;
+  }
+
+  async encrypt(storageKey: string, plaintext: string): Promise<string> {
+    const subtle = getSubtle(this.options.subtle);
+    const iv = randomBytes(IV_LENGTH);
+    const ciphertext = await subtle.encrypt(
+      { name: 'AES-GCM', iv: toBufferSource(iv), additionalData: toBufferSource(new TextEncoder().encode(storageKey)) },
+      await this.options.keyProvider.getKey(),
+      toBufferSource(new TextEncoder().encode(plaintext)),
+    );
+    const envelope: EncryptedEnvelope = {
+      enc: ENVELOPE_ALGORITHM,
+      v: ENVELOPE_VERSION,
+      iv: toBase64Url(iv),
+      ct: toBase64Url(new Uint8Array(ciphertext)),
+    };
+
+    return JSON.stringify(envelope);
+  }
+
+  async decrypt(storageKey: string, value: string): Promise<string> {
+    const envelope = parseEnvelope(value);
+    if (!envelope) {
+      if (this.options.allowPlaintext) {
+        return value;
+      }
+
+      throw new Error(`Stored entry "${storageKey}" is not encrypted; call migrateToEncrypted() to encrypt it`);
+    }
+
+    const subtle = getSubtle(this.options.subtle);
+    const params = {
+      name: 'AES-GCM',
+      iv: toBufferSource(fromBase64Url(envelope.iv)),
+      additionalData: toBufferSource(new TextEncoder().encode(storageKey)),
+    };
+    const ciphertext = toBufferSource(fromBase64Url(envelope.ct));
+
+    for (const provider of [this.options.keyProvider, ...(this.options.previousKeyProviders ?? [])]) {
+      const key = await provider.getKey();
+      try {
+        return new TextDecoder().decode(await subtle.decrypt(params, key, ciphertext));
+      } catch {
+        // Wrong key or tampered data; try the next key
+      }
+    }
+
+    throw new Error(`Unable to decrypt stored entry "${storageKey}": no configured key matches`);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Credential queries for `CapacitorStorageAdapter`.
+ *
+ * The adapter keeps secondary indexes (credential ids by contractId and by deploymentStatus) in one
+ * entry next to the credential index, so a query only reads the records that can match. Every other
+ * filter, sorting and pagination run on the records that were read.
+ */
+
+import type { CredentialDeploymentStatus, StoredCredential } from './storage.js';
+
+export type StoredCredentialSortField = 'createdAt' | 'lastUsedAt' | 'nickname' | 'contractId';
+
+export interface StoredCredentialSort {
+  field: StoredCredentialSortField;
+  /** Defaults to `'asc'`. Credentials without the field sort last in both directions. */
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Filters of `query()`; all given filters must match. Array values match any of their entries.
+ */
+export interface StoredCredentialQuery {
+  contractId?: string | string[];
+  /** `null` matches credentials without `deploymentStatus`, e.g. saved before deployment tracking. */
+  deploymentStatus?: CredentialDeploymentStatus | null | (CredentialDeploymentStatus | null)[];
+  /** Exact nickname, or a pattern tested against it. */
+  nickname?: string | RegExp;
+  /** `false` also matches credentials without `isPrimary`. */
+  isPrimary?: boolean;
+  contextRuleId?: number | number[];
+  /** Inclusive range; credentials never used do not match. */
+  lastUsedAt?: { from?: number; to?: number };
+  /** Defaults to the order credentials were first saved in. */
+  sort?: StoredCredentialSort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface StoredCredentialPage {
+  credentials: StoredCredential[];
+  /** Number of matching credentials before `offset` and `limit` were applied. */
+  total: number;
+}
+
+/**
+ * Secondary indexes: credential ids by contractId and by deploymentStatus. Credentials without
+ * a status are not listed under `deploymentStatus`.
+ */
+export interface CredentialLookup {
+  contractId: Record<string, string[]>;
+  deploymentStatus: Record<string, string[]>;
+}
+
+type LookupField = keyof CredentialLookup;
+
+const LOOKUP_FIELDS: LookupField[] = ['contractId', 'deploymentStatus'];
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+export function createLookup(): CredentialLookup {
+  return { contractId: {}, deploymentStatus: {} };
+}
+
+export function isCredentialLookup(value: unknown): value is CredentialLookup {
+  return LOOKUP_FIELDS.every((field) => {
+    const buckets = (value as Partial<CredentialLookup> | null)?.[field];
+    return (
+      typeof buckets === 'object' &&
+      buckets !== null &&
+      Object.values(buckets).every((ids) => Array.isArray(ids) && ids.every((id) => typeof id === 'string'))
+    );
+  });
+}
+
+export function unindexCredential(lookup: CredentialLookup, credentialId: string): void {
+  for (const field of LOOKUP_FIELDS) {
+    for (const [value, ids] of Object.entries(lookup[field])) {
+      const remaining = ids.filter((id) => id !== credentialId);
+      if (remaining.length === 0) {
+        delete lookup[field][value];
+      } else {
+        lookup[field][value] = remaining;
+      }
+    }
+  }
+}
+
+/**
+ * Files the credential under its current contractId and deploymentStatus, replacing earlier entries.
+ */
+export function indexCredential(lookup: CredentialLookup, credential: StoredCredential): void {
+  unindexCredential(lookup, credential.credentialId);
+  for (const field of LOOKUP_FIELDS) {
+    const value = credential[field];
+    if (value !== undefined) {
+      lookup[field][value] = [...(lookup[field][value] ?? []), credential.credentialId];
+    }
+  }
+}
+
+/**
+ * Order-insensitive comparison, e.g. of a stored lookup with one rebuilt from the records.
+ */
+export function lookupsEqual(a: CredentialLookup, b: CredentialLookup): boolean {
+  const canonical = (lookup: CredentialLookup) =>
+    JSON.stringify(
+      LOOKUP_FIELDS.map((field) =>
+        Object.entries(lookup[field])
+          .map(([value, ids]) => [value, [...ids].sort()])
+          .sort(([x], [y]) => String(x).localeCompare(String(y))),
+      ),
+    );
+
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Narrows the credential index to the ids the indexed filters allow, keeping index order.
+ */
+export function selectCandidates(lookup: CredentialLookup, index: string[], query: StoredCredentialQuery): string[] {
+  let candidates = index;
+
+  if (query.contractId !== undefined) {
+    const ids = new Set(toArray(query.contractId).flatMap((contractId) => lookup.contractId[contractId] ?? []));
+    candidates = candidates.filter((id) => ids.has(id));
+  }
+
+  if (query.deploymentStatus !== undefined) {
+    const statuses = toArray(query.deploymentStatus);
+    const ids = new Set(statuses.flatMap((status) => (status === null ? [] : (lookup.deploymentStatus[status] ?? []))));
+    const tracked = statuses.includes(null) ? new Set(Object.values(lookup.deploymentStatus).flat()) : undefined;
+    candidates = candidates.filter((id) => ids.has(id) || (tracked !== undefined && !tracked.has(id)));
+  }
+
+  return candidates;
+}
+
+export function matchesQuery(credential: StoredCredential, query: StoredCredentialQuery): boolean {
+  if (query.contractId !== undefined && !toArray(query.contractId).includes(credential.contractId)) {
+    return false;
+  }
+
+  if (
+    query.deploymentStatus !== undefined &&
+    !toArray(query.deploymentStatus).includes(credential.deploymentStatus ?? null)
+  ) {
+    return false;
+  }
+
+  if (query.nickname !== undefined) {
+    const { nickname } = credential;
+    const matches =
+      typeof query.nickname === 'string'
+        ? nickname === query.nickname
+        : nickname !== undefined && query.nickname.test(nickname);
+    if (!matches) {
+      return false;
+    }
+  }
+
+  if (query.isPrimary !== undefined && (credential.isPrimary ?? false) !== query.isPrimary) {
+    return false;
+  }
+
+  if (
+    query.contextRuleId !== undefined &&
+    (credential.contextRuleId === undefined || !toArray(query.contextRuleId).includes(credential.contextRuleId))
+  ) {
+    return false;
+  }
+
+  if (query.lastUsedAt) {
+    const { from = -Infinity, to = Infinity } = query.lastUsedAt;
+    if (credential.lastUsedAt === undefined || credential.lastUsedAt < from || credential.lastUsedAt > to) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return typeof a === 'string' && typeof b === 'string' ? a.localeCompare(b) : Number(a) - Number(b);
+}
+
+/**
+ * Sorts the matching credentials (stable) and applies `offset` and `limit`.
+ */
+export function paginate(credentials: StoredCredential[], query: StoredCredentialQuery): StoredCredentialPage {
+  const sorted = [...credentials];
+  const { sort } = query;
+  if (sort) {
+    const direction = sort.direction === 'desc' ? -1 : 1;
+    sorted.sort((a, b) => {
+      const x = a[sort.field];
+      const y = b[sort.field];
+      if (x === undefined || y === undefined) {
+        return x === y ? 0 : x === undefined ? 1 : -1;
+      }
+
+      return compareValues(x, y) * direction;
+    });
+  }
+
+  const offset = query.offset ?? 0;
+  const end = query.limit === undefined ? undefined : offset + query.limit;
+  return { credentials: sorted.slice(offset, end), total: sorted.length };
+}
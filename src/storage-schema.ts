@@ -0,0 +1,83 @@
+/**
+ * Versioned record format for `CapacitorStorageAdapter`.
+ *
+ * Every credential, index, lookup and session entry is stored as `{ schemaVersion, data }`. Entries written before
+ * versioning (bare JSON) are version 0. Reads upgrade older entries in memory by running each migration
+ * above the entry's version in order; the upgraded form is persisted on the next write or by `migrateSchema()`.
+ */
+
+export type StorageRecordKind = 'credential' | 'index' | 'lookup' | 'session';
+
+interface StorageSchemaMigration {
+  /** Version the migration produces. */
+  version: number;
+  migrate(kind: StorageRecordKind, data: unknown): unknown;
+}
+
+interface VersionedRecord {
+  schemaVersion: number;
+  data: unknown;
+}
+
+const MIGRATIONS: StorageSchemaMigration[] = [
+  // v1 introduced the envelope; the payloads kept the unversioned shape
+  { version: 1, migrate: (_kind, data) => data },
+  // v2 keeps one session per contractId; the single session becomes the active one
+  {
+    version: 2,
+    migrate: (kind, data) => {
+      const session = data as { contractId?: unknown } | null;
+      if (kind !== 'session' || typeof session?.contractId !== 'string') {
+        return data;
+      }
+
+      return { activeContractId: session.contractId, sessions: { [session.contractId]: session } };
+    },
+  },
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function isVersionedRecord(value: unknown): value is VersionedRecord {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as VersionedRecord).schemaVersion === 'number' &&
+    'data' in value
+  );
+}
+
+export function encodeRecord(data: unknown): string {
+  const record: VersionedRecord = { schemaVersion: STORAGE_SCHEMA_VERSION, data };
+  return JSON.stringify(record);
+}
+
+/**
+ * Returns the schema version of a parsed entry; 0 for entries written before versioning.
+ */
+export function getRecordVersion(parsed: unknown): number {
+  return isVersionedRecord(parsed) ? parsed.schemaVersion : 0;
+}
+
+/**
+ * Upgrades a parsed entry to the current schema and returns its payload.
+ * @throws Error when the entry was written by a newer schema, rather than misreading it.
+ */
+export function upgradeRecord(kind: StorageRecordKind, parsed: unknown): unknown {
+  const version = getRecordVersion(parsed);
+  if (version > STORAGE_SCHEMA_VERSION) {
+    throw new Error(
+      `Stored ${kind} uses schema version ${version}, newer than the supported version ${STORAGE_SCHEMA_VERSION}`,
+    );
+  }
+
+  let data = isVersionedRecord(parsed) ? parsed.data : parsed;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) {
+      data = migration.migrate(kind, data);
+    }
+  }
+
+  return data;
+}
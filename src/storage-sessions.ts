@@ -0,0 +1,332 @@
+/**
+ * Session lifecycle for `CapacitorStorageAdapter`.
+ *
+ * The adapter keeps one session per contractId in a single entry, plus which of them is active.
+ * `SessionManager` enforces `expiresAt`, applies sliding expiry and reports changes as plugin events.
+ */
+
+import { WebPlugin } from '@capacitor/core';
+import type { ListenerCallback, PluginListenerHandle } from '@capacitor/core';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
+
+import type { PasskeyAuthResult, PasskeyPlugin } from './definitions.js';
+import { wrapPluginMethods } from './plugin-hooks.js';
+import type { StorageLogger, StoredSession } from './storage.js';
+
+/**
+ * Every session kept by a storage adapter, keyed by contractId, and the one `getSession()` returns.
+ */
+export interface StoredSessionState {
+  activeContractId?: string;
+  sessions: Record<string, StoredSession>;
+}
+
+/**
+ * Persistence used by `SessionManager`; provided by the owning storage adapter.
+ */
+export interface SessionStore {
+  load(): Promise<StoredSessionState>;
+  store(state: StoredSessionState): Promise<void>;
+  /** Runs `task` serialized with the adapter's other writes. */
+  exclusive<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export interface SessionManagerOptions {
+  /**
+   * Sliding expiry: after a successful authentication with a session's credential, its `expiresAt`
+   * moves to now + this many milliseconds. Sessions without `expiresAt` never expire and are not extended.
+   */
+  slidingExpiryMs?: number;
+  /** Receives failures of the background expiry check. Defaults to `console`. */
+  logger?: StorageLogger;
+}
+
+export type SessionChangeReason = 'saved' | 'switched' | 'refreshed' | 'cleared' | 'expired';
+
+export interface SessionChangedEvent {
+  contractId: string;
+  /** The session after the change; null when it was cleared or expired. */
+  session: StoredSession | null;
+  /** Whether the session is (or, when removed, was) the active one. */
+  active: boolean;
+  reason: SessionChangeReason;
+}
+
+export interface SessionExpiredEvent {
+  contractId: string;
+  session: StoredSession;
+}
+
+interface PendingChange extends SessionChangedEvent {
+  /** The removed session, for `sessionExpired`. */
+  previous?: StoredSession;
+}
+
+// setTimeout delays are 32-bit signed; longer expiries are re-checked when this fires
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+function isExpired(session: StoredSession, now: number): boolean {
+  return session.expiresAt !== undefined && session.expiresAt <= now;
+}
+
+/**
+ * Session lifecycle on top of a storage adapter: expired sessions read as absent, sliding expiry on
+ * authentication, one session per contractId for multi-account apps, and `sessionChanged` /
+ * `sessionExpired` events through the Capacitor listener API.
+ *
+ * Expiry is detected on every read and by a timer armed for the earliest `expiresAt`.
+ */
+export class SessionManager extends WebPlugin {
+  private readonly store: SessionStore;
+  private readonly options: SessionManagerOptions;
+  private readonly logger: StorageLogger;
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(store: SessionStore, options: SessionManagerOptions = {}) {
+    super();
+    this.store = store;
+    this.options = options;
+    this.logger = options.logger ?? console;
+  }
+
+  addListener(
+    eventName: 'sessionChanged',
+    listenerFunc: (event: SessionChangedEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  addListener(
+    eventName: 'sessionExpired',
+    listenerFunc: (event: SessionExpiredEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  addListener(eventName: string, listenerFunc: ListenerCallback): Promise<PluginListenerHandle>;
+  addListener(eventName: string, listenerFunc: ListenerCallback): Promise<PluginListenerHandle> {
+    return super.addListener(eventName, listenerFunc);
+  }
+
+  /**
+   * Returns the session for `contractId`, or the active session when omitted; null when absent or expired.
+   */
+  async get(contractId?: string): Promise<StoredSession | null> {
+    return this.update((state) => {
+      const id = contractId ?? state.activeContractId;
+      return (id !== undefined && state.sessions[id]) || null;
+    });
+  }
+
+  /**
+   * Returns every unexpired session.
+   */
+  async getAll(): Promise<StoredSession[]> {
+    return this.update((state) => Object.values(state.sessions));
+  }
+
+  /**
+   * Stores the session under its contractId, replacing the previous one for that contract.
+   * @param options.activate Make it the session `get()` returns. Defaults to true.
+   */
+  async save(session: StoredSession, options: { activate?: boolean } = {}): Promise<void> {
+    await this.update((state, changes) => {
+      const active = options.activate ?? true;
+      state.sessions[session.contractId] = session;
+      if (active) {
+        state.activeContractId = session.contractId;
+      }
+      changes.push({
+        contractId: session.contractId,
+        session,
+        active: state.activeContractId === session.contractId,
+        reason: 'saved',
+      });
+    }, true);
+  }
+
+  /**
+   * Makes the stored session of `contractId` the active one.
+   * @returns The session, or null (leaving the active session unchanged) when it is absent or expired.
+   */
+  async switchTo(contractId: string): Promise<StoredSession | null> {
+    return this.update((state, changes) => {
+      const target = state.sessions[contractId];
+      if (target && state.activeContractId !== contractId) {
+        state.activeContractId = contractId;
+        changes.push({ contractId, session: target, active: true, reason: 'switched' });
+      }
+      return target ?? null;
+    }, true);
+  }
+
+  /**
+   * Removes the session of `contractId`, or the active session when omitted.
+   */
+  async clear(contractId?: string): Promise<void> {
+    await this.update((state, changes) => {
+      const id = contractId ?? state.activeContractId;
+      if (id === undefined || !state.sessions[id]) {
+        return;
+      }
+
+      delete state.sessions[id];
+      const active = state.activeContractId === id;
+      if (active) {
+        state.activeContractId = undefined;
+      }
+      changes.push({ contractId: id, session: null, active, reason: 'cleared' });
+    }, true);
+  }
+
+  /**
+   * Removes every session.
+   */
+  async clearAll(): Promise<void> {
+    await this.update((state, changes) => {
+      for (const id of Object.keys(state.sessions)) {
+        changes.push({ contractId: id, session: null, active: state.activeContractId === id, reason: 'cleared' });
+        delete state.sessions[id];
+      }
+      state.activeContractId = undefined;
+    }, true);
+  }
+
+  /**
+   * Moves `expiresAt` of the session to now + `ttlMs` (default: `slidingExpiryMs`).
+   * Does nothing when the session is absent or no TTL is configured.
+   */
+  async refresh(contractId?: string, ttlMs: number | undefined = this.options.slidingExpiryMs): Promise<void> {
+    if (ttlMs === undefined) {
+      return;
+    }
+
+    await this.update((state, changes) => {
+      const id = contractId ?? state.activeContractId;
+      const session = id !== undefined ? state.sessions[id] : undefined;
+      if (session) {
+        this.extend(state, session, ttlMs, changes);
+      }
+    }, true);
+  }
+
+  /**
+   * Applies sliding expiry to sessions bound to the credential that just authenticated.
+   */
+  async handleAuthentication(result: Pick<PasskeyAuthResult | AuthenticationResponseJSON, 'id'>): Promise<void> {
+    const ttlMs = this.options.slidingExpiryMs;
+    if (ttlMs === undefined) {
+      return;
+    }
+
+    await this.update((state, changes) => {
+      for (const session of Object.values(state.sessions)) {
+        if (session.credentialId === result.id && session.expiresAt !== undefined) {
+          this.extend(state, session, ttlMs, changes);
+        }
+      }
+    }, true);
+  }
+
+  /**
+   * Wraps `plugin` so every successful `authenticate` refreshes the matching sessions.
+   * Pass the result to `asSimpleWebAuthn()` to cover Smart Account Kit sign-ins.
+   * A failed refresh is logged and never fails the sign-in.
+   */
+  withSessionRefresh<P extends Pick<PasskeyPlugin, 'authenticate'>>(plugin: P): P {
+    return wrapPluginMethods(plugin, {
+      authenticate: async (authenticate, options) => {
+        const result = await authenticate(options);
+        try {
+          await this.handleAuthentication(result);
+        } catch (error) {
+          this.logger.warn('Passkey session refresh failed:', error);
+        }
+        return result;
+      },
+    });
+  }
+
+  /**
+   * Removes expired sessions and emits their events; reads do this implicitly.
+   * @returns The sessions that expired.
+   */
+  async checkExpiry(): Promise<StoredSession[]> {
+    return this.update((_state, changes) =>
+      changes.flatMap((change) => (change.reason === 'expired' && change.previous ? [change.previous] : [])),
+    );
+  }
+
+  private extend(state: StoredSessionState, session: StoredSession, ttlMs: number, changes: PendingChange[]): void {
+    const refreshed = { ...session, expiresAt: Date.now() + ttlMs };
+    state.sessions[session.contractId] = refreshed;
+    changes.push({
+      contractId: session.contractId,
+      session: refreshed,
+      active: state.activeContractId === session.contractId,
+      reason: 'refreshed',
+    });
+  }
+
+  /**
+   * Loads the state under the write lock, drops expired sessions, runs `mutate`, persists the state
+   * when anything changed and then emits the events.
+   */
+  private async update<T>(
+    mutate: (state: StoredSessionState, changes: PendingChange[]) => T,
+    writes = false,
+  ): Promise<T> {
+    const changes: PendingChange[] = [];
+    const result = await this.store.exclusive(async () => {
+      const state = await this.store.load();
+      const now = Date.now();
+
+      for (const [contractId, session] of Object.entries(state.sessions)) {
+        if (isExpired(session, now)) {
+          const active = state.activeContractId === contractId;
+          delete state.sessions[contractId];
+          if (active) {
+            state.activeContractId = undefined;
+          }
+          changes.push({ contractId, session: null, active, reason: 'expired', previous: session });
+        }
+      }
+
+      const value = mutate(state, changes);
+      if (changes.length > 0 || writes) {
+        await this.store.store(state);
+      }
+      this.scheduleExpiry(state);
+      return value;
+    });
+
+    for (const { previous, ...event } of changes) {
+      if (event.reason === 'expired' && previous) {
+        const expired: SessionExpiredEvent = { contractId: event.contractId, session: previous };
+        this.notifyListeners('sessionExpired', expired);
+      }
+      this.notifyListeners('sessionChanged', event);
+    }
+
+    return result;
+  }
+
+  private scheduleExpiry(state: StoredSessionState): void {
+    if (this.expiryTimer !== undefined) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+
+    const expiries = Object.values(state.sessions)
+      .map((session) => session.expiresAt)
+      .filter((expiresAt): expiresAt is number => expiresAt !== undefined);
+    if (expiries.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...expiries) - Date.now(), 0), MAX_TIMER_DELAY);
+    const timer: ReturnType<typeof setTimeout> = setTimeout(() => {
+      this.expiryTimer = undefined;
+      this.checkExpiry().catch((error) => this.logger.warn('Passkey session expiry check failed:', error));
+    }, delay);
+    // Do not keep Node processes (tests, SSR) alive just for the expiry timer
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+    this.expiryTimer = timer;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Credential usage tracking for `CapacitorStorageAdapter`.
+ *
+ * After each successful assertion the credential's `lastUsedAt` and signature counter are recorded.
+ * A counter that does not advance is reported as a possible cloned authenticator, and assertions with
+ * credentials the adapter does not know are reported so the app can clean up.
+ */
+
+import { WebPlugin } from '@capacitor/core';
+import type { ListenerCallback, PluginListenerHandle } from '@capacitor/core';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
+
+import { parseAuthenticatorData } from './authenticator-data.js';
+import type { PasskeyAuthResult, PasskeyPlugin } from './definitions.js';
+import { wrapPluginMethods } from './plugin-hooks.js';
+import type { CapacitorStorageAdapter, CredentialUsageResult, StorageLogger } from './storage.js';
+
+export interface SignCountRegressionEvent {
+  credentialId: string;
+  contractId: string;
+  /** Counter stored from earlier assertions. */
+  storedSignCount: number;
+  /** Counter reported by this assertion; not greater than `storedSignCount`. */
+  signCount: number;
+}
+
+export interface UnknownCredentialEvent {
+  credentialId: string;
+}
+
+type AuthenticationResult = Pick<PasskeyAuthResult | AuthenticationResponseJSON, 'id' | 'response'>;
+
+/**
+ * Records credential usage and emits `signCountRegression` / `unknownCredential` events through the
+ * Capacitor listener API. Tracking is advisory: storage failures are logged and never fail the sign-in.
+ */
+export class CredentialUsageTracker extends WebPlugin {
+  private readonly storage: Pick<CapacitorStorageAdapter, 'recordUsage'>;
+  private readonly logger: StorageLogger;
+
+  constructor(storage: Pick<CapacitorStorageAdapter, 'recordUsage'>, logger: StorageLogger = console) {
+    super();
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  addListener(
+    eventName: 'signCountRegression',
+    listenerFunc: (event: SignCountRegressionEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  addListener(
+    eventName: 'unknownCredential',
+    listenerFunc: (event: UnknownCredentialEvent) => void,
+  ): Promise<PluginListenerHandle>;
+  addListener(eventName: string, listenerFunc: ListenerCallback): Promise<PluginListenerHandle>;
+  addListener(eventName: string, listenerFunc: ListenerCallback): Promise<PluginListenerHandle> {
+    return super.addListener(eventName, listenerFunc);
+  }
+
+  /**
+   * Records a successful assertion: `lastUsedAt` and the authenticator's signature counter.
+   * @returns The outcome, or null when it could not be recorded.
+   */
+  async handleAuthentication(result: AuthenticationResult): Promise<CredentialUsageResult | null> {
+    let signCount: number | undefined;
+    try {
+      signCount = parseAuthenticatorData(result.response.authenticatorData).signCount;
+    } catch {
+      // Malformed authenticatorData; still record the use
+    }
+
+    let usage: CredentialUsageResult;
+    try {
+      usage = await this.storage.recordUsage(result.id, { signCount });
+    } catch (error) {
+      this.logger.warn('Passkey credential usage could not be recorded:', error);
+      return null;
+    }
+
+    if (!usage.credential) {
+      const event: UnknownCredentialEvent = { credentialId: result.id };
+      this.notifyListeners('unknownCredential', event);
+    } else if (usage.signCountRegressed && signCount !== undefined) {
+      const event: SignCountRegressionEvent = {
+        credentialId: result.id,
+        contractId: usage.credential.contractId,
+        storedSignCount: usage.previousSignCount ?? 0,
+        signCount,
+      };
+      this.notifyListeners('signCountRegression', event);
+    }
+
+    return usage;
+  }
+
+  /**
+   * Wraps `plugin` so every successful `authenticate` is recorded. Pass the result to `asSimpleWebAuthn()`
+   * to track Smart Account Kit sign-ins.
+   */
+  withUsageTracking<P extends Pick<PasskeyPlugin, 'authenticate'>>(plugin: P): P {
+    return wrapPluginMethods(plugin, {
+      authenticate: async (authenticate, options) => {
+        const result = await authenticate(options);
+        await this.handleAuthentication(result);
+        return result;
+      },
+    });
+  }
+}
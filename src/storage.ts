@@ -1,7 +1,84 @@
-import type { AuthenticatorTransportFuture } from '@simplewebauthn/browser';
-import { Preferences } from '@capacitor/preferences';
+import type { AuthenticatorTransportFuture, RegistrationResponseJSON } from '@simplewebauthn/browser';
 
-export type CredentialDeploymentStatus = 'pending' | 'failed';
+import { getCredentialBackupState, parseAuthenticatorData } from './authenticator-data.js';
+import type { ParsedAuthenticatorData } from './authenticator-data.js';
+import { COSE_KEY_TYPE, coseKeyToRawPublicKey } from './cose.js';
+import type { PasskeyCreateResult, PasskeyPlugin } from './definitions.js';
+import { fromBase64, fromBase64Url, toBase64 } from './encoding.js';
+import { PreferencesStorageBackend } from './storage-backends.js';
+import type { StorageBackend } from './storage-backends.js';
+import { decodeBackup, encodeBackup } from './storage-backup.js';
+import type { BackupMergeStrategy } from './storage-backup.js';
+import { StorageCipher, isEncryptedValue } from './storage-encryption.js';
+import type { StorageEncryptionOptions, StorageKeyProvider } from './storage-encryption.js';
+import {
+  createLookup,
+  indexCredential,
+  isCredentialLookup,
+  lookupsEqual,
+  matchesQuery,
+  paginate,
+  selectCandidates,
+  unindexCredential,
+} from './storage-query.js';
+import type { CredentialLookup, StoredCredentialPage, StoredCredentialQuery } from './storage-query.js';
+import { STORAGE_SCHEMA_VERSION, encodeRecord, getRecordVersion, upgradeRecord } from './storage-schema.js';
+import type { StorageRecordKind } from './storage-schema.js';
+import { SessionManager } from './storage-sessions.js';
+import type { SessionManagerOptions, StoredSessionState } from './storage-sessions.js';
+import { CredentialUsageTracker } from './storage-usage.js';
+
+export {
+  IndexedDBStorageBackend,
+  KeyValueBridgeBackend,
+  MemoryStorageBackend,
+  PreferencesStorageBackend,
+} from './storage-backends.js';
+export type { KeyValueBridge, StorageBackend } from './storage-backends.js';
+export type { BackupMergeStrategy } from './storage-backup.js';
+export { passphraseKeyProvider, prfKeyProvider, staticKeyProvider } from './storage-encryption.js';
+export type {
+  StoredCredentialPage,
+  StoredCredentialQuery,
+  StoredCredentialSort,
+  StoredCredentialSortField,
+} from './storage-query.js';
+export { STORAGE_SCHEMA_VERSION } from './storage-schema.js';
+export { SessionManager } from './storage-sessions.js';
+export type {
+  SessionChangeReason,
+  SessionChangedEvent,
+  SessionExpiredEvent,
+  SessionManagerOptions,
+  SessionStore,
+  StoredSessionState,
+} from './storage-sessions.js';
+export { CredentialUsageTracker } from './storage-usage.js';
+export type { SignCountRegressionEvent, UnknownCredentialEvent } from './storage-usage.js';
+export type {
+  PassphraseKeyProviderOptions,
+  PrfKeyProviderOptions,
+  StorageEncryptionOptions,
+  StorageKeyProvider,
+} from './storage-encryption.js';
+
+/**
+ * Deployment lifecycle of a credential's smart account contract:
+ * `pending` → `submitting` → `deployed`, or `failed` → `submitting` again until it is `abandoned`.
+ */
+export type CredentialDeploymentStatus = 'pending' | 'submitting' | 'deployed' | 'failed' | 'abandoned';
+
+/**
+ * Why the last deployment attempt failed.
+ */
+export type CredentialDeploymentErrorCode =
+  | 'NETWORK_ERROR'
+  | 'SIMULATION_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'TIMEOUT'
+  | 'INTERRUPTED'
+  | 'UNKNOWN_ERROR';
 
 export interface StoredSession {
   contractId: string;
@@ -17,13 +94,24 @@ export interface StoredCredential {
   nickname?: string;
   createdAt: number;
   lastUsedAt?: number;
+  /** Signature counter of the last assertion (or the registration); 0 when the authenticator keeps none. */
+  signCount?: number;
   transports?: AuthenticatorTransportFuture[];
   deviceType?: 'singleDevice' | 'multiDevice';
   backedUp?: boolean;
   contextRuleId?: number;
   isPrimary?: boolean;
   deploymentStatus?: CredentialDeploymentStatus;
+  /** Message of the last failed attempt; cleared by the next transition. */
   deploymentError?: string;
+  deploymentErrorCode?: CredentialDeploymentErrorCode;
+  /** Number of times the credential entered `submitting`. */
+  deploymentAttempts?: number;
+  /** When the last attempt entered `submitting`. */
+  deploymentLastAttemptAt?: number;
+  /** When `deploymentStatus` last changed. */
+  deploymentUpdatedAt?: number;
+  deployedAt?: number;
 }
 
 export interface StorageAdapter {
@@ -39,205 +127,1067 @@ export interface StorageAdapter {
   clearSession(): Promise<void>;
 }
 
-type PreferencesAPI = {
-  get(options: { key: string }): Promise<{ value: string | null }>;
-  set(options: { key: string; value: string }): Promise<void>;
-  remove(options: { key: string }): Promise<void>;
+/**
+ * Result of `CapacitorStorageAdapter.integrityCheck()`.
+ */
+export interface StorageIntegrityReport {
+  /** True when the index matches the stored records and every record is readable. */
+  ok: boolean;
+  /** The credential index exists but cannot be decrypted or parsed. */
+  indexCorrupt: boolean;
+  /** Ids listed more than once in the index. */
+  duplicateIds: string[];
+  /** Ids listed in the index without a stored record, e.g. after an interrupted delete. */
+  danglingIds: string[];
+  /** Stored records missing from the index, e.g. after an interrupted save. */
+  orphanedIds: string[];
+  /** The contractId/deploymentStatus indexes used by `query()` are missing, unreadable or out of date. */
+  lookupStale: boolean;
+  /** Records that exist but cannot be decrypted or parsed. */
+  corrupt: { credentialId: string; reason: string }[];
+  /** Whether the backend can list its keys; without it orphaned records are not detected. */
+  keysListed: boolean;
+}
+
+export interface ImportStoredCredentialsOptions {
+  /** Replace credentials that already exist in the target. Defaults to false. */
+  overwrite?: boolean;
+  /** Copy the source session when the target has none. Defaults to true. */
+  includeSession?: boolean;
+}
+
+export interface ImportStoredCredentialsResult {
+  /** Ids of the credentials written to the target. */
+  imported: string[];
+  /** Ids left out because they already exist in the target or have no usable public key. */
+  skipped: string[];
+  /** Whether a session was copied. */
+  session: boolean;
+}
+
+/**
+ * Outcome of `CapacitorStorageAdapter.recordUsage()`.
+ */
+export interface CredentialUsageResult {
+  /** The updated credential; null when no credential has the id. */
+  credential: StoredCredential | null;
+  /** The counter did not advance, which may indicate a cloned authenticator. The stored counter is kept. */
+  signCountRegressed: boolean;
+  /** Counter stored before this use. */
+  previousSignCount?: number;
+}
+
+export interface ExportAllOptions {
+  /** Encrypts the backup with a key derived from this passphrase (PBKDF2-SHA256, AES-GCM). */
+  passphrase?: string;
+  /** PBKDF2 iterations for `passphrase`. Defaults to 310000. */
+  iterations?: number;
+  /** Include the stored sessions. Defaults to true. */
+  includeSession?: boolean;
+}
+
+export interface ImportAllOptions {
+  /** Required for backups exported with a passphrase. */
+  passphrase?: string;
+  /**
+   * What to do with credentials and sessions that already exist: keep them (`'skip'`, the default), replace
+   * them (`'overwrite'`), or keep the more recent one (`'newest'`, by `lastUsedAt` falling back to
+   * `createdAt` for credentials and by `connectedAt` for sessions).
+   */
+  strategy?: BackupMergeStrategy;
+  /** Restore the backup's sessions. Defaults to true. */
+  includeSession?: boolean;
+}
+
+export interface DeploymentTransitionOptions {
+  /** Required context for `failed`; the code defaults to `'UNKNOWN_ERROR'`. */
+  error?: { code: CredentialDeploymentErrorCode; message?: string };
+  /** Transition time. Defaults to `Date.now()`. */
+  at?: number;
+}
+
+export interface DeploymentRetryOptions {
+  /** Leave out credentials that already made this many attempts. Defaults to no limit. */
+  maxAttempts?: number;
+  /**
+   * `submitting` credentials whose last attempt started at least this long ago count as interrupted.
+   * Defaults to 0: on app start no submission is in flight.
+   */
+  submittingTimeoutMs?: number;
+  now?: number;
+}
+
+/**
+ * Allowed `transitionDeployment()` targets per status. Credentials saved without a status
+ * (`untracked`) may start anywhere a new deployment would, or be marked as already deployed.
+ */
+export const CREDENTIAL_DEPLOYMENT_TRANSITIONS: Readonly<
+  Record<CredentialDeploymentStatus | 'untracked', readonly CredentialDeploymentStatus[]>
+> = {
+  untracked: ['pending', 'submitting', 'deployed'],
+  pending: ['submitting', 'abandoned'],
+  // submitting → submitting resubmits after an interrupted attempt
+  submitting: ['submitting', 'deployed', 'failed'],
+  failed: ['submitting', 'abandoned'],
+  abandoned: ['pending'],
+  deployed: [],
 };
 
+/**
+ * Caller-provided fields for credentials derived from a registration result.
+ */
+export type StoredCredentialInit = Partial<Omit<StoredCredential, 'credentialId' | 'publicKey' | 'contractId'>>;
+
+/**
+ * Optional behavior of `CapacitorStorageAdapter`.
+ */
+export interface CapacitorStorageAdapterOptions {
+  /** Key-value store the adapter persists to. Defaults to `PreferencesStorageBackend`. */
+  backend?: StorageBackend;
+  /**
+   * Called after `delete()` removed a stored credential, e.g. to signal the passkey provider
+   * with `signalUnknownCredentialOnDelete()`. Errors propagate to the `delete()` caller.
+   */
+  onCredentialDeleted?: (credentialId: string) => void | Promise<void>;
+  /**
+   * Encrypts credential records, the credential index and the session with AES-GCM.
+   * Plaintext entries written before encryption was enabled are rejected on read unless `allowPlaintext` is set;
+   * call `migrateToEncrypted()` to encrypt them.
+   */
+  encryption?: StorageEncryptionOptions;
+  /** Session lifecycle settings, e.g. sliding expiry; see `SessionManager`. */
+  session?: SessionManagerOptions;
+  /**
+   * Receives failures the adapter logs instead of throwing: usage records and session expiry checks.
+   * Defaults to `console`; `session.logger` takes precedence for the session manager.
+   */
+  logger?: StorageLogger;
+}
+
+/** Destination of warnings about advisory work that failed without failing the caller. */
+export type StorageLogger = Pick<Console, 'warn'>;
+
 type SerializedCredential = Omit<StoredCredential, 'publicKey'> & {
   publicKey: string;
 };
 
 const DEFAULT_PREFIX = 'capacitor-passkey';
 
-function getGlobalBuffer(): any {
-  return (globalThis as any).Buffer;
+// Tail of the pending writes per backend, so adapters sharing a backend never interleave read-modify-write cycles
+const writeQueues = new WeakMap<StorageBackend, Promise<unknown>>();
+
+let defaultBackend: StorageBackend | undefined;
+
+function getDefaultBackend(): StorageBackend {
+  defaultBackend ??= new PreferencesStorageBackend();
+  return defaultBackend;
+}
+
+/**
+ * Runs `task` after every write already queued on `backend` has settled.
+ */
+function runExclusive<T>(backend: StorageBackend, task: () => Promise<T>): Promise<T> {
+  const result = (writeQueues.get(backend) ?? Promise.resolve()).then(task);
+  writeQueues.set(
+    backend,
+    result.catch(() => undefined),
+  );
+  return result;
 }
 
-function toBase64(input: Uint8Array): string {
-  const binary = Array.from(input, (byte) => String.fromCharCode(byte)).join('');
+const KNOWN_TRANSPORTS: AuthenticatorTransportFuture[] = [
+  'ble',
+  'cable',
+  'hybrid',
+  'internal',
+  'nfc',
+  'smart-card',
+  'usb',
+];
 
-  if (typeof btoa === 'function') {
-    return btoa(binary);
-  }
+// DER prefix of a P-256 SubjectPublicKeyInfo; the uncompressed point follows it.
+const P256_SPKI_PREFIX_LENGTH = 26;
+const P256_SPKI_LENGTH = 91;
 
-  const globalBuffer = getGlobalBuffer();
-  if (!globalBuffer) {
-    throw new Error('No base64 encoder available in this runtime');
+function serializeCredential(credential: StoredCredential): SerializedCredential {
+  return {
+    ...credential,
+    publicKey: toBase64(credential.publicKey),
+  };
+}
+
+function lastActivity(credential: StoredCredential): number {
+  return credential.lastUsedAt ?? credential.createdAt;
+}
+
+function replacesExisting(strategy: BackupMergeStrategy, incoming: number, existing: number): boolean {
+  return strategy === 'overwrite' || (strategy === 'newest' && incoming > existing);
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
   }
+}
 
-  return globalBuffer.from(binary, 'binary').toString('base64');
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
-function fromBase64(input: string): Uint8Array {
-  let binary: string;
+function deserializeCredential(payload: SerializedCredential): StoredCredential {
+  return {
+    ...payload,
+    publicKey: fromBase64(payload.publicKey),
+  };
+}
 
-  if (typeof atob === 'function') {
-    binary = atob(input);
-  } else {
-    const globalBuffer = getGlobalBuffer();
-    if (!globalBuffer) {
-      throw new Error('No base64 decoder available in this runtime');
-    }
-    binary = globalBuffer.from(input, 'base64').toString('binary');
+function tryParseAuthenticatorData(
+  response: PasskeyCreateResult['response'] | RegistrationResponseJSON['response'],
+): ParsedAuthenticatorData | undefined {
+  try {
+    return parseAuthenticatorData(response);
+  } catch {
+    return undefined;
+  }
+}
+
+function resolvePublicKeyBytes(
+  response: PasskeyCreateResult['response'] | RegistrationResponseJSON['response'],
+  authenticatorData?: ParsedAuthenticatorData,
+): Uint8Array | undefined {
+  const credentialPublicKey = authenticatorData?.credentialPublicKey;
+  if (credentialPublicKey) {
+    return credentialPublicKey.key.kty === COSE_KEY_TYPE.RSA
+      ? credentialPublicKey.spki
+      : coseKeyToRawPublicKey(credentialPublicKey.key);
+  }
+
+  if (!response.publicKey) {
+    return undefined;
   }
 
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
+  const spki = fromBase64Url(response.publicKey);
+  if (spki.length === P256_SPKI_LENGTH && spki[P256_SPKI_PREFIX_LENGTH] === 0x04) {
+    return spki.slice(P256_SPKI_PREFIX_LENGTH);
   }
 
-  return bytes;
+  return spki;
 }
 
-function serializeCredential(credential: StoredCredential): SerializedCredential {
+function normalizeStoredTransports(value?: string[]): AuthenticatorTransportFuture[] | undefined {
+  const transports = value?.filter((transport): transport is AuthenticatorTransportFuture =>
+    KNOWN_TRANSPORTS.includes(transport as AuthenticatorTransportFuture),
+  );
+
+  return transports && transports.length > 0 ? transports : undefined;
+}
+
+/**
+ * Builds a `StoredCredential` from a plugin registration result or a SimpleWebAuthn `RegistrationResponseJSON`.
+ *
+ * The public key is stored in the format Smart Account Kit expects: the uncompressed EC point
+ * (`0x04 || x || y`) for ES256, the raw key for Ed25519 and SPKI for RSA. `deviceType` and `backedUp`
+ * come from the authenticatorData BE/BS flags. Fields in `init` take precedence over derived values.
+ */
+export function toStoredCredential(
+  result: PasskeyCreateResult | RegistrationResponseJSON,
+  contractId: string,
+  init: StoredCredentialInit = {},
+): StoredCredential {
+  const authenticatorData = tryParseAuthenticatorData(result.response);
+  const publicKey = resolvePublicKeyBytes(result.response, authenticatorData);
+
+  if (!publicKey) {
+    throw new Error('Unable to derive credential public key from registration response');
+  }
+
   return {
-    ...credential,
-    publicKey: toBase64(credential.publicKey),
+    createdAt: Date.now(),
+    transports: normalizeStoredTransports(result.response.transports),
+    ...(authenticatorData ? getCredentialBackupState(authenticatorData.flags) : {}),
+    ...(authenticatorData ? { signCount: authenticatorData.signCount } : {}),
+    ...init,
+    credentialId: result.id,
+    publicKey,
+    contractId,
   };
 }
 
-function deserializeCredential(payload: SerializedCredential): StoredCredential {
-  return {
-    ...payload,
-    publicKey: fromBase64(payload.publicKey),
+/**
+ * Derives a `StoredCredential` from a registration result and persists it through `storage`.
+ * @returns The credential that was saved.
+ */
+export async function saveRegistration(
+  storage: StorageAdapter,
+  result: PasskeyCreateResult | RegistrationResponseJSON,
+  contractId: string,
+  init: StoredCredentialInit = {},
+): Promise<StoredCredential> {
+  const credential = toStoredCredential(result, contractId, init);
+  await storage.save(credential);
+  return credential;
+}
+
+/**
+ * Coerces the public key shapes other adapters persist (Uint8Array, ArrayBuffer, number arrays,
+ * JSON-serialized Uint8Arrays and base64/base64url strings) to bytes.
+ */
+function normalizeImportedPublicKey(value: unknown): Uint8Array | undefined {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  if (typeof value === 'string') {
+    // fromBase64Url also accepts standard, padded base64
+    return value.length > 0 ? fromBase64Url(value) : undefined;
+  }
+  if (Array.isArray(value)) {
+    return Uint8Array.from(value);
+  }
+  if (typeof value === 'object' && value !== null) {
+    // JSON.stringify(Uint8Array) produces { "0": byte, "1": byte, ... }
+    const entries = Object.entries(value).sort(([a], [b]) => Number(a) - Number(b));
+    return entries.length > 0 ? Uint8Array.from(entries, ([, byte]) => Number(byte)) : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Copies credentials and the session from another `StorageAdapter` into `target`, e.g. from the
+ * Smart Account Kit's IndexedDB or localStorage adapter when a web user moves to the Capacitor app.
+ * Public keys are normalized to `Uint8Array` whatever encoding the source persisted.
+ */
+export async function importStoredCredentials(
+  target: StorageAdapter,
+  source: Pick<StorageAdapter, 'getAll' | 'getSession'>,
+  options: ImportStoredCredentialsOptions = {},
+): Promise<ImportStoredCredentialsResult> {
+  const result: ImportStoredCredentialsResult = { imported: [], skipped: [], session: false };
+
+  for (const credential of await source.getAll()) {
+    const publicKey = normalizeImportedPublicKey(credential.publicKey as unknown);
+    if (
+      !publicKey ||
+      typeof credential.credentialId !== 'string' ||
+      (!options.overwrite && (await target.get(credential.credentialId)))
+    ) {
+      result.skipped.push(String(credential.credentialId));
+      continue;
+    }
+
+    await target.save({ ...credential, publicKey });
+    result.imported.push(credential.credentialId);
+  }
+
+  if (options.includeSession ?? true) {
+    const session = await source.getSession();
+    if (session && !(await target.getSession())) {
+      await target.saveSession(session);
+      result.session = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds an `onCredentialDeleted` hook that tells the passkey provider the credential is gone,
+ * so it stops offering it. Signals are advisory: failures are logged and do not fail the delete.
+ */
+export function signalUnknownCredentialOnDelete(
+  plugin: Pick<PasskeyPlugin, 'signalUnknownCredential'>,
+  rpId: string,
+  logger: StorageLogger = console,
+): (credentialId: string) => Promise<void> {
+  return async (credentialId) => {
+    try {
+      await plugin.signalUnknownCredential({ rpId, credentialId });
+    } catch (error) {
+      logger.warn('Passkey unknown-credential signal failed:', error);
+    }
   };
 }
 
 /**
  * Storage adapter compatible with Smart Account Kit StorageAdapter contract.
  *
- * Uses @capacitor/preferences for persistence and maintains its own credential index
- * because Preferences does not provide prefix queries.
+ * Persists to a `StorageBackend` (`@capacitor/preferences` by default) and maintains its own
+ * credential index because key-value backends do not provide prefix queries.
+ *
+ * Writes are serialized per backend. A save writes the record before the index and a delete removes
+ * the record before the index, so an interrupted write leaves at most an orphaned record or a dangling
+ * index entry, both of which `repair()` fixes.
  */
 export class CapacitorStorageAdapter implements StorageAdapter {
   private readonly prefix: string;
+  private readonly options: CapacitorStorageAdapterOptions;
+  private readonly backend: StorageBackend;
+  private cipher?: StorageCipher;
+  /** Sessions of every contract, their expiry and change events. `getSession()` returns the active one. */
+  readonly sessions: SessionManager;
+  /** Records `lastUsedAt`/`signCount` after assertions and reports counter regressions and unknown credentials. */
+  readonly usage: CredentialUsageTracker;
 
-  constructor(prefix: string = DEFAULT_PREFIX) {
+  constructor(prefix: string = DEFAULT_PREFIX, options: CapacitorStorageAdapterOptions = {}) {
     this.prefix = prefix;
+    this.options = options;
+    this.backend = options.backend ?? getDefaultBackend();
+    this.cipher = options.encryption ? new StorageCipher(options.encryption) : undefined;
+    this.sessions = new SessionManager(
+      {
+        load: () => this.loadSessions(),
+        store: (state) => this.storeSessions(state),
+        exclusive: (task) => this.exclusive(task),
+      },
+      { logger: options.logger, ...options.session },
+    );
+    this.usage = new CredentialUsageTracker(this, options.logger);
   }
 
   async save(credential: StoredCredential): Promise<void> {
-    const preferences = await this.getPreferences();
-    const index = await this.getCredentialIndex(preferences);
-    const serialized = JSON.stringify(serializeCredential(credential));
-
-    await preferences.set({
-      key: this.credentialKey(credential.credentialId),
-      value: serialized,
-    });
-
-    if (!index.includes(credential.credentialId)) {
-      index.push(credential.credentialId);
-      await this.setCredentialIndex(preferences, index);
-    }
+    await this.exclusive(() => this.saveRecord(credential));
   }
 
   async get(credentialId: string): Promise<StoredCredential | null> {
-    const preferences = await this.getPreferences();
-    const value = await preferences.get({ key: this.credentialKey(credentialId) });
+    return this.decodeCredential(credentialId, await this.readValue(this.credentialKey(credentialId)));
+  }
 
-    if (!value.value) {
-      return null;
-    }
+  /**
+   * Reads several credentials in one batch (a single backend call when it implements `getMany`).
+   * @returns The stored credentials in the order of `credentialIds`; missing ids are left out.
+   */
+  async getMany(credentialIds: string[]): Promise<StoredCredential[]> {
+    const values = await this.readValues(credentialIds.map((credentialId) => this.credentialKey(credentialId)));
+    const results: StoredCredential[] = [];
 
-    try {
-      return deserializeCredential(JSON.parse(value.value) as SerializedCredential);
-    } catch {
-      return null;
-    }
+    values.forEach((value, position) => {
+      const credential = this.decodeCredential(credentialIds[position], value);
+      if (credential) {
+        results.push(credential);
+      }
+    });
+
+    return results;
   }
 
   async getByContract(contractId: string): Promise<StoredCredential[]> {
-    const all = await this.getAll();
-    return all.filter((credential) => credential.contractId === contractId);
+    const { credentials } = await this.query({ contractId });
+    return credentials;
   }
 
   async getAll(): Promise<StoredCredential[]> {
-    const preferences = await this.getPreferences();
-    const index = await this.getCredentialIndex(preferences);
-    const results: StoredCredential[] = [];
+    return this.getMany(await this.getCredentialIndex());
+  }
+
+  /**
+   * Finds credentials by filter, then sorts and paginates them. The contractId and deploymentStatus
+   * filters use the adapter's secondary indexes, so only records that can match are read.
+   */
+  async query(query: StoredCredentialQuery = {}): Promise<StoredCredentialPage> {
+    const index = await this.getCredentialIndex();
+    return this.select(index, await this.getLookup(index), query);
+  }
 
-    for (const credentialId of index) {
+  /**
+   * Makes `credentialId` the primary credential of `contractId` and demotes the previous one in the same write.
+   * @throws Error when the credential does not exist or belongs to another contract.
+   */
+  async setPrimary(contractId: string, credentialId: string): Promise<void> {
+    await this.exclusive(async () => {
       const credential = await this.get(credentialId);
-      if (credential) {
-        results.push(credential);
+      if (credential?.contractId !== contractId) {
+        throw new Error(`No stored credential with id "${credentialId}" for contract "${contractId}"`);
       }
-    }
 
-    return results;
+      await this.saveRecord({ ...credential, isPrimary: true });
+    });
+  }
+
+  /**
+   * Returns the primary credential of `contractId`, or null when none is marked primary.
+   */
+  async getPrimary(contractId: string): Promise<StoredCredential | null> {
+    const { credentials } = await this.query({ contractId, isPrimary: true, limit: 1 });
+    return credentials[0] ?? null;
+  }
+
+  /**
+   * Returns the credentials of `contractId` bound to the context rule `contextRuleId`.
+   */
+  async getByContextRule(contractId: string, contextRuleId: number): Promise<StoredCredential[]> {
+    const { credentials } = await this.query({ contractId, contextRuleId });
+    return credentials;
   }
 
   async delete(credentialId: string): Promise<void> {
-    const preferences = await this.getPreferences();
-    const index = await this.getCredentialIndex(preferences);
+    const deleted = await this.exclusive(async () => {
+      const index = await this.getCredentialIndex();
+
+      await this.backend.remove(this.credentialKey(credentialId));
+      await this.updateLookup(index, (lookup) => unindexCredential(lookup, credentialId));
 
-    await preferences.remove({ key: this.credentialKey(credentialId) });
+      const next = index.filter((id) => id !== credentialId);
+      await this.setCredentialIndex(next);
+      return next.length !== index.length;
+    });
 
-    const next = index.filter((id) => id !== credentialId);
-    await this.setCredentialIndex(preferences, next);
+    // Outside the write lock so the hook may use the adapter
+    if (deleted) {
+      await this.options.onCredentialDeleted?.(credentialId);
+    }
   }
 
   async update(
     credentialId: string,
     updates: Partial<Omit<StoredCredential, 'credentialId' | 'publicKey'>>,
   ): Promise<void> {
-    const credential = await this.get(credentialId);
-    if (!credential) {
-      return;
-    }
+    await this.exclusive(async () => {
+      const credential = await this.get(credentialId);
+      if (!credential) {
+        return;
+      }
 
-    await this.save({
-      ...credential,
-      ...updates,
-      credentialId: credential.credentialId,
-      publicKey: credential.publicKey,
+      await this.saveRecord({
+        ...credential,
+        ...updates,
+        credentialId: credential.credentialId,
+        publicKey: credential.publicKey,
+      });
     });
   }
 
   async clear(): Promise<void> {
-    const preferences = await this.getPreferences();
-    const index = await this.getCredentialIndex(preferences);
+    await this.exclusive(async () => {
+      const index = await this.getCredentialIndex();
 
-    for (const credentialId of index) {
-      await preferences.remove({ key: this.credentialKey(credentialId) });
-    }
+      for (const credentialId of index) {
+        await this.backend.remove(this.credentialKey(credentialId));
+      }
+
+      await this.backend.remove(this.lookupKey());
+      await this.backend.remove(this.indexKey());
+    });
 
-    await preferences.remove({ key: this.indexKey() });
-    await preferences.remove({ key: this.sessionKey() });
+    // Through the session manager so listeners see the sessions go
+    await this.sessions.clearAll();
   }
 
+  /**
+   * Stores the session under its contractId and makes it the active one.
+   */
   async saveSession(session: StoredSession): Promise<void> {
-    const preferences = await this.getPreferences();
-    await preferences.set({
-      key: this.sessionKey(),
-      value: JSON.stringify(session),
-    });
+    await this.sessions.save(session);
   }
 
+  /**
+   * Returns the active session; null when there is none or it has expired.
+   */
   async getSession(): Promise<StoredSession | null> {
-    const preferences = await this.getPreferences();
-    const value = await preferences.get({ key: this.sessionKey() });
+    return this.sessions.get();
+  }
+
+  /**
+   * Removes the active session. Sessions of other contracts are kept; see `sessions.clearAll()`.
+   */
+  async clearSession(): Promise<void> {
+    await this.sessions.clear();
+  }
 
-    if (!value.value) {
+  /**
+   * Compares the credential index with the stored records without modifying anything.
+   * Orphaned records are only found when the backend implements `keys()`.
+   */
+  async integrityCheck(): Promise<StorageIntegrityReport> {
+    const { report } = await this.inspect();
+    return report;
+  }
+
+  /**
+   * Rebuilds the credential index: drops duplicate and dangling ids and adds orphaned records.
+   * Corrupt records stay in place (they may only need the right encryption key) unless `removeCorrupt` is set.
+   * The secondary indexes used by `query()` are rebuilt from the readable records.
+   * @returns The report describing the state before the repair.
+   */
+  async repair(options: { removeCorrupt?: boolean } = {}): Promise<StorageIntegrityReport> {
+    return this.exclusive(async () => {
+      const { report, lookup } = await this.inspect();
+      if (report.ok) {
+        return report;
+      }
+
+      const index = report.indexCorrupt ? [] : await this.getCredentialIndex();
+      const dropped = new Set(report.danglingIds);
+      if (options.removeCorrupt) {
+        for (const { credentialId } of report.corrupt) {
+          await this.backend.remove(this.credentialKey(credentialId));
+          unindexCredential(lookup, credentialId);
+          dropped.add(credentialId);
+        }
+      }
+
+      await this.writeValue(this.lookupKey(), encodeRecord(lookup));
+      const next = Array.from(new Set([...index, ...report.orphanedIds])).filter((id) => !dropped.has(id));
+      await this.setCredentialIndex(next);
+      return report;
+    });
+  }
+
+  /**
+   * Sets `lastUsedAt` and advances `signCount` after a successful assertion with the credential.
+   * As in WebAuthn, a counter that does not increase while either value is nonzero is a regression:
+   * `lastUsedAt` is still updated, the stored counter is kept.
+   */
+  async recordUsage(
+    credentialId: string,
+    usage: { signCount?: number; at?: number } = {},
+  ): Promise<CredentialUsageResult> {
+    return this.exclusive(async () => {
+      const credential = await this.get(credentialId);
+      if (!credential) {
+        return { credential: null, signCountRegressed: false };
+      }
+
+      const { signCount } = usage;
+      const previousSignCount = credential.signCount;
+      const signCountRegressed =
+        signCount !== undefined &&
+        previousSignCount !== undefined &&
+        (signCount !== 0 || previousSignCount !== 0) &&
+        signCount <= previousSignCount;
+
+      const next: StoredCredential = {
+        ...credential,
+        lastUsedAt: usage.at ?? Date.now(),
+        ...(signCount !== undefined && !signCountRegressed ? { signCount } : {}),
+      };
+      await this.saveRecord(next);
+      return { credential: next, signCountRegressed, previousSignCount };
+    });
+  }
+
+  /**
+   * Serializes every credential and, unless disabled, the sessions into a versioned backup document,
+   * e.g. to hand to the share sheet. The document carries a SHA-256 checksum of its contents.
+   */
+  async exportAll(options: ExportAllOptions = {}): Promise<string> {
+    const credentials = await this.getAll();
+    const includeSession = options.includeSession ?? true;
+    const sessions = includeSession ? await this.sessions.getAll() : [];
+    const active = includeSession ? await this.sessions.get() : null;
+
+    return encodeBackup(
+      {
+        schemaVersion: STORAGE_SCHEMA_VERSION,
+        credentials: credentials.map(serializeCredential),
+        sessions,
+        ...(active ? { activeContractId: active.contractId } : {}),
+      },
+      { passphrase: options.passphrase, iterations: options.iterations },
+    );
+  }
+
+  /**
+   * Restores a document produced by `exportAll()`. The whole backup is decrypted, checksummed and
+   * validated before anything is written. Expired sessions are left out; the backup's active session
+   * becomes active when there is none yet, or with `'overwrite'`.
+   * @throws Error when the backup is malformed, damaged, newer than this release or the passphrase is wrong.
+   */
+  async importAll(backup: string, options: ImportAllOptions = {}): Promise<ImportStoredCredentialsResult> {
+    const payload = await decodeBackup(backup, { passphrase: options.passphrase });
+    const strategy = options.strategy ?? 'skip';
+    const result: ImportStoredCredentialsResult = { imported: [], skipped: [], session: false };
+
+    const credentials = payload.credentials.map((data) => {
+      // Backups from older releases go through the same migrations as stored records
+      const record = upgradeRecord('credential', { schemaVersion: payload.schemaVersion, data });
+      const credentialId = (record as SerializedCredential | undefined)?.credentialId;
+      if (typeof credentialId !== 'string') {
+        throw new Error('Backup contains a credential without a credentialId');
+      }
+
+      return this.toCredential(credentialId, record);
+    });
+
+    await this.exclusive(async () => {
+      for (const credential of credentials) {
+        const existing = await this.get(credential.credentialId);
+        if (existing && !replacesExisting(strategy, lastActivity(credential), lastActivity(existing))) {
+          result.skipped.push(credential.credentialId);
+          continue;
+        }
+
+        await this.saveRecord(credential);
+        result.imported.push(credential.credentialId);
+      }
+    });
+
+    if (options.includeSession ?? true) {
+      const now = Date.now();
+      for (const session of payload.sessions) {
+        if (
+          typeof session?.contractId !== 'string' ||
+          typeof session.credentialId !== 'string' ||
+          (session.expiresAt !== undefined && session.expiresAt <= now)
+        ) {
+          continue;
+        }
+
+        const existing = await this.sessions.get(session.contractId);
+        if (existing && !replacesExisting(strategy, session.connectedAt, existing.connectedAt)) {
+          continue;
+        }
+
+        const activate =
+          session.contractId === payload.activeContractId && (strategy === 'overwrite' || !(await this.sessions.get()));
+        await this.sessions.save(session, { activate });
+        result.session = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves the credential to `status`, validating the transition against `CREDENTIAL_DEPLOYMENT_TRANSITIONS`.
+   * Entering `submitting` counts an attempt; entering `failed` records the error code and message.
+   * @returns The updated credential.
+   * @throws Error when the credential does not exist or the transition is not allowed.
+   */
+  async transitionDeployment(
+    credentialId: string,
+    status: CredentialDeploymentStatus,
+    options: DeploymentTransitionOptions = {},
+  ): Promise<StoredCredential> {
+    return this.exclusive(async () => {
+      const credential = await this.get(credentialId);
+      if (!credential) {
+        throw new Error(`No stored credential with id "${credentialId}"`);
+      }
+
+      const from = credential.deploymentStatus ?? 'untracked';
+      if (!CREDENTIAL_DEPLOYMENT_TRANSITIONS[from].includes(status)) {
+        throw new Error(`Invalid deployment transition for "${credentialId}": ${from} -> ${status}`);
+      }
+
+      const at = options.at ?? Date.now();
+      const next: StoredCredential = {
+        ...credential,
+        deploymentStatus: status,
+        deploymentUpdatedAt: at,
+        deploymentError: undefined,
+        deploymentErrorCode: undefined,
+      };
+      if (status === 'submitting') {
+        next.deploymentAttempts = (credential.deploymentAttempts ?? 0) + 1;
+        next.deploymentLastAttemptAt = at;
+      } else if (status === 'failed') {
+        next.deploymentErrorCode = options.error?.code ?? 'UNKNOWN_ERROR';
+        next.deploymentError = options.error?.message;
+      } else if (status === 'deployed') {
+        next.deployedAt = at;
+      }
+
+      await this.saveRecord(next);
+      return next;
+    });
+  }
+
+  /**
+   * Lists credentials whose deployment should be (re)submitted, e.g. on app start: `pending` ones,
+   * `failed` ones and interrupted `submitting` ones, within `maxAttempts`.
+   */
+  async getDeploymentsToRetry(options: DeploymentRetryOptions = {}): Promise<StoredCredential[]> {
+    const { maxAttempts = Infinity, submittingTimeoutMs = 0, now = Date.now() } = options;
+    const { credentials } = await this.query({ deploymentStatus: ['pending', 'failed', 'submitting'] });
+
+    return credentials.filter((credential) => {
+      if (credential.deploymentStatus === 'pending') {
+        return true;
+      }
+
+      if ((credential.deploymentAttempts ?? 0) >= maxAttempts) {
+        return false;
+      }
+
+      return (
+        credential.deploymentStatus === 'failed' ||
+        now - (credential.deploymentLastAttemptAt ?? 0) >= submittingTimeoutMs
+      );
+    });
+  }
+
+  /**
+   * Rewrites every entry stored with an older schema version in the current format.
+   * Reads upgrade older entries on the fly, so this is only needed to persist the upgrade in bulk.
+   * @returns The number of entries rewritten.
+   */
+  async migrateSchema(): Promise<number> {
+    return this.exclusive(async () => {
+      const index = await this.getCredentialIndex();
+      const entries: [string, StorageRecordKind][] = [
+        ...index.map((credentialId): [string, StorageRecordKind] => [this.credentialKey(credentialId), 'credential']),
+        [this.sessionKey(), 'session'],
+        [this.lookupKey(), 'lookup'],
+        [this.indexKey(), 'index'],
+      ];
+      let migrated = 0;
+
+      for (const [key, kind] of entries) {
+        const value = await this.readValue(key);
+        const parsed = value ? parseJson(value) : undefined;
+        if (parsed === undefined || getRecordVersion(parsed) === STORAGE_SCHEMA_VERSION) {
+          continue;
+        }
+
+        await this.writeValue(key, encodeRecord(upgradeRecord(kind, parsed)));
+        migrated += 1;
+      }
+
+      return migrated;
+    });
+  }
+
+  /**
+   * Re-writes plaintext entries left from before encryption was enabled, so every record is encrypted.
+   * Safe to call repeatedly; already encrypted entries get a fresh IV.
+   */
+  async migrateToEncrypted(): Promise<void> {
+    const cipher = this.cipher;
+    if (!cipher) {
+      throw new Error('Encryption is not configured for this storage adapter');
+    }
+
+    // Plaintext entries are what the migration replaces, so only its own reads accept them
+    const reader = new StorageCipher({ ...cipher.options, allowPlaintext: true });
+    await this.exclusive(() => this.rewriteAll(cipher, reader));
+  }
+
+  /**
+   * Re-encrypts every entry with the key from `keyProvider` and uses it for subsequent reads and writes.
+   * The outgoing key stays in `previousKeyProviders` so entries it encrypted remain readable. If the rotation
+   * is interrupted, construct the adapter with the old key in `previousKeyProviders`
+   * and call `rotateKey()` again.
+   */
+  async rotateKey(keyProvider: StorageKeyProvider): Promise<void> {
+    if (!this.cipher) {
+      throw new Error('Encryption is not configured for this storage adapter');
+    }
+
+    const { options } = this.cipher;
+    const next = new StorageCipher({
+      ...options,
+      keyProvider,
+      previousKeyProviders: [options.keyProvider, ...(options.previousKeyProviders ?? [])],
+    });
+    await this.exclusive(() => this.rewriteAll(next));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return runExclusive(this.backend, task);
+  }
+
+  /**
+   * Builds the integrity report and the secondary indexes matching the readable records.
+   */
+  private async inspect(): Promise<{ report: StorageIntegrityReport; lookup: CredentialLookup }> {
+    let index: string[] = [];
+    let indexCorrupt = false;
+    let storedIndex: string | null = null;
+    try {
+      storedIndex = await this.readValue(this.indexKey());
+    } catch {
+      indexCorrupt = true;
+    }
+
+    if (storedIndex) {
+      const ids = this.parseEntry('index', storedIndex);
+      if (Array.isArray(ids) && ids.every((id) => typeof id === 'string')) {
+        index = ids;
+      } else {
+        indexCorrupt = true;
+      }
+    }
+
+    const recordPrefix = this.credentialKey('');
+    const storedKeys = this.backend.keys ? await this.backend.keys() : undefined;
+    const recordIds = storedKeys
+      ?.filter((key) => key.startsWith(recordPrefix))
+      .map((key) => key.slice(recordPrefix.length));
+    const indexed = new Set(index);
+    const report: StorageIntegrityReport = {
+      ok: false,
+      indexCorrupt,
+      duplicateIds: Array.from(new Set(index.filter((id, position) => index.indexOf(id) !== position))),
+      danglingIds: [],
+      orphanedIds: recordIds?.filter((id) => !indexed.has(id)) ?? [],
+      lookupStale: false,
+      corrupt: [],
+      keysListed: storedKeys !== undefined,
+    };
+
+    // Corrupt records are left out; once readable again they show up as a stale lookup
+    const lookup = createLookup();
+    for (const credentialId of [...indexed, ...report.orphanedIds]) {
+      let value: string | null;
+      try {
+        value = await this.readValue(this.credentialKey(credentialId));
+      } catch (error) {
+        report.corrupt.push({ credentialId, reason: describeError(error) });
+        continue;
+      }
+
+      if (!value) {
+        report.danglingIds.push(credentialId);
+        continue;
+      }
+
+      // Newer-schema records throw here so repair() never rewrites data it does not understand
+      const payload = this.parseEntry('credential', value);
+      try {
+        indexCredential(lookup, this.toCredential(credentialId, payload));
+      } catch (error) {
+        report.corrupt.push({ credentialId, reason: describeError(error) });
+      }
+    }
+
+    let storedLookup: string | null = null;
+    try {
+      storedLookup = await this.readValue(this.lookupKey());
+    } catch {
+      report.lookupStale = true;
+    }
+
+    if (storedLookup) {
+      const parsed = this.parseEntry('lookup', storedLookup);
+      report.lookupStale = !isCredentialLookup(parsed) || !lookupsEqual(parsed, lookup);
+    } else if (!report.lookupStale) {
+      report.lookupStale = !lookupsEqual(createLookup(), lookup);
+    }
+
+    report.ok =
+      !report.indexCorrupt &&
+      report.duplicateIds.length === 0 &&
+      report.danglingIds.length === 0 &&
+      report.orphanedIds.length === 0 &&
+      !report.lookupStale &&
+      report.corrupt.length === 0;
+    return { report, lookup };
+  }
+
+  private async select(
+    index: string[],
+    lookup: CredentialLookup,
+    query: StoredCredentialQuery,
+  ): Promise<StoredCredentialPage> {
+    const candidates = await this.getMany(selectCandidates(lookup, index, query));
+    return paginate(
+      candidates.filter((credential) => matchesQuery(credential, query)),
+      query,
+    );
+  }
+
+  /**
+   * Writes the record before the lookup and the index, so a crash in between leaves an orphan or
+   * a stale lookup that `repair()` fixes. A primary credential first demotes the other primaries of
+   * its contract, so a crash leaves at most one.
+   */
+  private async saveRecord(credential: StoredCredential): Promise<void> {
+    const index = await this.getCredentialIndex();
+    const serialized = encodeRecord(serializeCredential(credential));
+
+    if (credential.isPrimary) {
+      const lookup = await this.updateLookup(index, () => undefined);
+      const { credentials } = await this.select(index, lookup, { contractId: credential.contractId, isPrimary: true });
+      for (const other of credentials) {
+        if (other.credentialId !== credential.credentialId) {
+          await this.writeValue(
+            this.credentialKey(other.credentialId),
+            encodeRecord(serializeCredential({ ...other, isPrimary: false })),
+          );
+        }
+      }
+    }
+
+    await this.writeValue(this.credentialKey(credential.credentialId), serialized);
+    await this.updateLookup(index, (lookup) => indexCredential(lookup, credential));
+
+    if (!index.includes(credential.credentialId)) {
+      index.push(credential.credentialId);
+      await this.setCredentialIndex(index);
+    }
+  }
+
+  /**
+   * Parses a stored entry and upgrades it to the current schema; `undefined` when it is not valid JSON.
+   */
+  private parseEntry(kind: StorageRecordKind, value: string): unknown {
+    const parsed = parseJson(value);
+    return parsed === undefined ? undefined : upgradeRecord(kind, parsed);
+  }
+
+  /**
+   * Decodes a stored credential record; null when it is missing or does not have the credential shape.
+   * A record from a newer schema throws instead of being skipped as unreadable.
+   */
+  private decodeCredential(credentialId: string, value: string | null): StoredCredential | null {
+    if (!value) {
       return null;
     }
 
+    const payload = this.parseEntry('credential', value);
     try {
-      return JSON.parse(value.value) as StoredSession;
+      return this.toCredential(credentialId, payload);
     } catch {
       return null;
     }
   }
 
-  async clearSession(): Promise<void> {
-    const preferences = await this.getPreferences();
-    await preferences.remove({ key: this.sessionKey() });
+  private toCredential(credentialId: string, payload: unknown): StoredCredential {
+    const record = payload as SerializedCredential | undefined;
+    if (
+      record?.credentialId !== credentialId ||
+      typeof record.publicKey !== 'string' ||
+      typeof record.contractId !== 'string'
+    ) {
+      throw new Error('Record does not match the stored credential shape');
+    }
+
+    return deserializeCredential(record);
   }
 
-  private async getPreferences(): Promise<PreferencesAPI> {
-    return Preferences as PreferencesAPI;
+  private async loadSessions(): Promise<StoredSessionState> {
+    const value = await this.readValue(this.sessionKey());
+    const state = (value ? this.parseEntry('session', value) : undefined) as StoredSessionState | undefined;
+    if (typeof state?.sessions !== 'object' || state.sessions === null) {
+      return { sessions: {} };
+    }
+
+    const sessions: Record<string, StoredSession> = {};
+    for (const [contractId, session] of Object.entries(state.sessions)) {
+      if (session?.contractId === contractId && typeof session.credentialId === 'string') {
+        sessions[contractId] = session;
+      }
+    }
+
+    const activeContractId =
+      typeof state.activeContractId === 'string' && sessions[state.activeContractId]
+        ? state.activeContractId
+        : undefined;
+    return { activeContractId, sessions };
+  }
+
+  private async storeSessions(state: StoredSessionState): Promise<void> {
+    if (Object.keys(state.sessions).length === 0) {
+      await this.backend.remove(this.sessionKey());
+      return;
+    }
+
+    await this.writeValue(this.sessionKey(), encodeRecord(state));
   }
 
   private credentialKey(credentialId: string): string {
@@ -248,29 +1198,132 @@ export class CapacitorStorageAdapter implements StorageAdapter {
     return `${this.prefix}:credentials-index`;
   }
 
+  private lookupKey(): string {
+    return `${this.prefix}:credentials-lookup`;
+  }
+
   private sessionKey(): string {
     return `${this.prefix}:session`;
   }
 
-  private async getCredentialIndex(preferences: PreferencesAPI): Promise<string[]> {
-    const stored = await preferences.get({ key: this.indexKey() });
+  private async getCredentialIndex(cipher = this.cipher): Promise<string[]> {
+    const stored = await this.readValue(this.indexKey(), cipher);
 
-    if (!stored.value) {
+    if (!stored) {
       return [];
     }
 
-    try {
-      const parsed = JSON.parse(stored.value) as string[];
-      return Array.isArray(parsed) ? parsed : [];
-    } catch {
-      return [];
+    const ids = this.parseEntry('index', stored);
+    return Array.isArray(ids) ? ids : [];
+  }
+
+  private async setCredentialIndex(index: string[]): Promise<void> {
+    await this.writeValue(this.indexKey(), encodeRecord(index));
+  }
+
+  private async readLookup(): Promise<CredentialLookup | undefined> {
+    const stored = await this.readValue(this.lookupKey());
+    const lookup = stored ? this.parseEntry('lookup', stored) : undefined;
+    return isCredentialLookup(lookup) ? lookup : undefined;
+  }
+
+  /**
+   * Returns the secondary indexes for `query()`. Storage written before they existed gets them
+   * built from the records once, under the write lock.
+   */
+  private async getLookup(index: string[]): Promise<CredentialLookup> {
+    const lookup = await this.readLookup();
+    if (lookup || index.length === 0) {
+      return lookup ?? createLookup();
     }
+
+    return this.exclusive(async () => this.updateLookup(await this.getCredentialIndex(), () => undefined));
   }
 
-  private async setCredentialIndex(preferences: PreferencesAPI, index: string[]): Promise<void> {
-    await preferences.set({
-      key: this.indexKey(),
-      value: JSON.stringify(index),
-    });
+  /**
+   * Applies `mutate` to the stored lookup (built from the records when missing) and writes it back if it changed.
+   * Must run under the write lock.
+   */
+  private async updateLookup(index: string[], mutate: (lookup: CredentialLookup) => void): Promise<CredentialLookup> {
+    const stored = await this.readLookup();
+    const before = stored ? JSON.stringify(stored) : undefined;
+    const lookup = stored ?? createLookup();
+    if (!stored) {
+      for (const credential of await this.getMany(index)) {
+        indexCredential(lookup, credential);
+      }
+    }
+
+    mutate(lookup);
+    if (JSON.stringify(lookup) !== before) {
+      await this.writeValue(this.lookupKey(), encodeRecord(lookup));
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Reads a raw value, decrypting it when it is an encrypted envelope.
+   */
+  private async readValue(key: string, cipher = this.cipher): Promise<string | null> {
+    return this.decodeValue(key, await this.backend.get(key), cipher);
+  }
+
+  /**
+   * Reads several raw values in one backend call when supported, otherwise in parallel.
+   */
+  private async readValues(keys: string[]): Promise<(string | null)[]> {
+    const values = this.backend.getMany
+      ? await this.backend.getMany(keys)
+      : await Promise.all(keys.map((key) => this.backend.get(key)));
+
+    return Promise.all(values.map((value, position) => this.decodeValue(keys[position], value)));
+  }
+
+  private async decodeValue(key: string, value: string | null, cipher = this.cipher): Promise<string | null> {
+    if (!value) {
+      return null;
+    }
+
+    if (cipher) {
+      return cipher.decrypt(key, value);
+    }
+
+    if (isEncryptedValue(value)) {
+      throw new Error(`Stored entry "${key}" is encrypted; configure the adapter with the encryption key`);
+    }
+
+    return value;
+  }
+
+  private async writeValue(key: string, value: string): Promise<void> {
+    await this.backend.set(key, this.cipher ? await this.cipher.encrypt(key, value) : value);
+  }
+
+  /**
+   * Decrypts every stored entry with `reader` (the current cipher by default), then writes it back with `next`.
+   * All entries are read before the first write, so a bad key fails without modifying storage.
+   */
+  private async rewriteAll(next: StorageCipher, reader = this.cipher): Promise<void> {
+    const index = await this.getCredentialIndex(reader);
+    const keys = [
+      this.indexKey(),
+      this.lookupKey(),
+      this.sessionKey(),
+      ...index.map((credentialId) => this.credentialKey(credentialId)),
+    ];
+    const entries: [string, string][] = [];
+
+    for (const key of keys) {
+      const value = await this.readValue(key, reader);
+      if (value) {
+        entries.push([key, value]);
+      }
+    }
+
+    this.cipher = next;
+    for (const [key, value] of entries) {
+      await this.writeValue(key, value);
+    }
   }
 }
@@ -0,0 +1,2 @@
+export { VirtualAuthenticator } from './virtual-authenticator.js';
+export type { VirtualAuthenticatorOptions, VirtualCredential } from './virtual-authenticator.js';
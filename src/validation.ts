@@ -0,0 +1,312 @@
+/**
+ * Validation of `createPasskey` / `authenticate` options.
+ *
+ * Runs in JavaScript before every ceremony, on web and before the options cross the native bridge, so malformed
+ * options fail the same way everywhere: a `PasskeyError` with code `INVALID_INPUT` that lists every offending field
+ * instead of an error from deep inside the browser or the platform credential manager.
+ */
+
+import type { PasskeyAuthenticationOptions, PasskeyCreateOptions } from './definitions.js';
+import { createPasskeyError } from './errors.js';
+
+export interface PasskeyValidationIssue {
+  /** Path of the offending field, e.g. `publicKey.user.id` or `publicKey.pubKeyCredParams[0].alg`. */
+  path: string;
+  message: string;
+}
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+={0,2}$/;
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_USER_ID_BYTES = 64;
+
+const ATTESTATION_VALUES = ['none', 'indirect', 'direct', 'enterprise'];
+const ATTACHMENT_VALUES = ['platform', 'cross-platform'];
+const RESIDENT_KEY_VALUES = ['discouraged', 'preferred', 'required'];
+const USER_VERIFICATION_VALUES = ['required', 'preferred', 'discouraged'];
+const MEDIATION_VALUES = ['conditional', 'optional', 'required', 'silent'];
+const HINT_VALUES = ['security-key', 'client-device', 'hybrid'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidDomain(value: string): boolean {
+  return value.length <= MAX_DOMAIN_LENGTH && value.split('.').every((label) => DOMAIN_LABEL_PATTERN.test(label));
+}
+
+class IssueCollector {
+  readonly issues: PasskeyValidationIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  base64Url(path: string, value: unknown, maxBytes?: number): void {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.add(path, 'must be a non-empty base64url string');
+      return;
+    }
+
+    const unpadded = value.replace(/=+$/, '');
+    if (!BASE64URL_PATTERN.test(value) || unpadded.length % 4 === 1) {
+      this.add(path, 'is not valid base64url');
+    } else if (maxBytes !== undefined && Math.floor((unpadded.length * 3) / 4) > maxBytes) {
+      this.add(path, `must be at most ${maxBytes} bytes`);
+    }
+  }
+
+  string(path: string, value: unknown): void {
+    if (typeof value !== 'string') {
+      this.add(path, 'must be a string');
+    }
+  }
+
+  oneOf(path: string, value: unknown, allowed: string[]): void {
+    if (value !== undefined && !allowed.includes(value as string)) {
+      this.add(path, `must be one of ${allowed.map((entry) => `'${entry}'`).join(', ')}`);
+    }
+  }
+
+  timeout(path: string, value: unknown): void {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      this.add(path, 'must be a non-negative number of milliseconds');
+    }
+  }
+
+  rpId(path: string, value: unknown): void {
+    if (value !== undefined && (typeof value !== 'string' || !isValidDomain(value))) {
+      this.add(path, 'must be a valid domain, without scheme, port or path');
+    }
+  }
+
+  hints(path: string, value: unknown): void {
+    if (value !== undefined && (!Array.isArray(value) || value.some((hint) => !HINT_VALUES.includes(hint)))) {
+      this.add(path, `must be an array of ${HINT_VALUES.map((hint) => `'${hint}'`).join(', ')}`);
+    }
+  }
+
+  /**
+   * Binary extension input: base64url, or a BufferSource as SimpleWebAuthn options may carry.
+   */
+  binary(path: string, value: unknown): void {
+    if (!(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value)) {
+      this.base64Url(path, value);
+    }
+  }
+
+  prfValues(path: string, value: unknown): void {
+    if (!isObject(value)) {
+      this.add(path, 'must be an object');
+      return;
+    }
+
+    this.binary(`${path}.first`, value.first);
+    if (value.second !== undefined) {
+      this.binary(`${path}.second`, value.second);
+    }
+  }
+
+  extensions(path: string, value: unknown): void {
+    if (value === undefined) {
+      return;
+    }
+    if (!isObject(value)) {
+      this.add(path, 'must be an object');
+      return;
+    }
+
+    const { prf, largeBlob } = value;
+    if (isObject(prf)) {
+      if (prf.eval !== undefined) {
+        this.prfValues(`${path}.prf.eval`, prf.eval);
+      }
+      if (isObject(prf.evalByCredential)) {
+        for (const [credentialId, values] of Object.entries(prf.evalByCredential)) {
+          this.prfValues(`${path}.prf.evalByCredential.${credentialId}`, values);
+        }
+      } else if (prf.evalByCredential !== undefined) {
+        this.add(`${path}.prf.evalByCredential`, 'must be an object');
+      }
+    } else if (prf !== undefined) {
+      this.add(`${path}.prf`, 'must be an object');
+    }
+
+    if (isObject(largeBlob)) {
+      if (largeBlob.write !== undefined) {
+        this.binary(`${path}.largeBlob.write`, largeBlob.write);
+      }
+    } else if (largeBlob !== undefined) {
+      this.add(`${path}.largeBlob`, 'must be an object');
+    }
+  }
+
+  descriptors(path: string, value: unknown): void {
+    if (value === undefined) {
+      return;
+    }
+    if (!Array.isArray(value)) {
+      this.add(path, 'must be an array');
+      return;
+    }
+
+    value.forEach((descriptor, index) => {
+      const descriptorPath = `${path}[${index}]`;
+      if (!isObject(descriptor)) {
+        this.add(descriptorPath, 'must be an object');
+        return;
+      }
+
+      this.base64Url(`${descriptorPath}.id`, descriptor.id);
+      if (descriptor.type !== undefined && descriptor.type !== 'public-key') {
+        this.add(`${descriptorPath}.type`, "must be 'public-key'");
+      }
+      if (
+        descriptor.transports !== undefined &&
+        (!Array.isArray(descriptor.transports) || descriptor.transports.some((entry) => typeof entry !== 'string'))
+      ) {
+        this.add(`${descriptorPath}.transports`, 'must be an array of strings');
+      }
+    });
+  }
+
+  /**
+   * Checks the `publicKey` member and returns it when it is an object.
+   */
+  publicKey(options: unknown): Record<string, unknown> | undefined {
+    if (!isObject(options)) {
+      this.add('options', 'must be an object');
+      return undefined;
+    }
+    if (!isObject(options.publicKey)) {
+      this.add('publicKey', 'must be an object');
+      return undefined;
+    }
+
+    return options.publicKey;
+  }
+}
+
+function toError(issues: PasskeyValidationIssue[]) {
+  const details = issues.map((issue) => `${issue.path} ${issue.message}`).join('; ');
+  return createPasskeyError('INVALID_INPUT', `Invalid passkey options: ${details}`, { issues });
+}
+
+/**
+ * Lists the problems of `createPasskey` options; empty when they are valid.
+ */
+export function validateCreateOptions(options: unknown): PasskeyValidationIssue[] {
+  const collector = new IssueCollector();
+  const publicKey = collector.publicKey(options);
+  if (!publicKey) {
+    return collector.issues;
+  }
+
+  collector.base64Url('publicKey.challenge', publicKey.challenge);
+
+  const { rp, user, pubKeyCredParams, authenticatorSelection } = publicKey;
+  if (isObject(rp)) {
+    collector.string('publicKey.rp.name', rp.name);
+    collector.rpId('publicKey.rp.id', rp.id);
+  } else {
+    collector.add('publicKey.rp', 'must be an object');
+  }
+
+  if (isObject(user)) {
+    collector.base64Url('publicKey.user.id', user.id, MAX_USER_ID_BYTES);
+    collector.string('publicKey.user.name', user.name);
+    collector.string('publicKey.user.displayName', user.displayName);
+  } else {
+    collector.add('publicKey.user', 'must be an object');
+  }
+
+  if (!Array.isArray(pubKeyCredParams) || pubKeyCredParams.length === 0) {
+    collector.add('publicKey.pubKeyCredParams', 'must be a non-empty array');
+  } else {
+    pubKeyCredParams.forEach((param, index) => {
+      const path = `publicKey.pubKeyCredParams[${index}]`;
+      if (!isObject(param)) {
+        collector.add(path, 'must be an object');
+        return;
+      }
+      if (param.type !== 'public-key') {
+        collector.add(`${path}.type`, "must be 'public-key'");
+      }
+      if (!Number.isInteger(param.alg)) {
+        collector.add(`${path}.alg`, 'must be an integer COSE algorithm identifier');
+      }
+    });
+  }
+
+  if (authenticatorSelection !== undefined) {
+    if (isObject(authenticatorSelection)) {
+      const path = 'publicKey.authenticatorSelection';
+      collector.oneOf(
+        `${path}.authenticatorAttachment`,
+        authenticatorSelection.authenticatorAttachment,
+        ATTACHMENT_VALUES,
+      );
+      collector.oneOf(`${path}.residentKey`, authenticatorSelection.residentKey, RESIDENT_KEY_VALUES);
+      collector.oneOf(`${path}.userVerification`, authenticatorSelection.userVerification, USER_VERIFICATION_VALUES);
+      if (
+        authenticatorSelection.requireResidentKey !== undefined &&
+        typeof authenticatorSelection.requireResidentKey !== 'boolean'
+      ) {
+        collector.add(`${path}.requireResidentKey`, 'must be a boolean');
+      }
+    } else {
+      collector.add('publicKey.authenticatorSelection', 'must be an object');
+    }
+  }
+
+  collector.timeout('publicKey.timeout', publicKey.timeout);
+  collector.oneOf('publicKey.attestation', publicKey.attestation, ATTESTATION_VALUES);
+  collector.hints('publicKey.hints', publicKey.hints);
+  collector.descriptors('publicKey.excludeCredentials', publicKey.excludeCredentials);
+  collector.extensions('publicKey.extensions', publicKey.extensions);
+
+  return collector.issues;
+}
+
+/**
+ * Lists the problems of `authenticate` options; empty when they are valid.
+ */
+export function validateAuthenticationOptions(options: unknown): PasskeyValidationIssue[] {
+  const collector = new IssueCollector();
+  const publicKey = collector.publicKey(options);
+  if (!publicKey) {
+    return collector.issues;
+  }
+
+  collector.base64Url('publicKey.challenge', publicKey.challenge);
+  collector.rpId('publicKey.rpId', publicKey.rpId);
+  collector.descriptors('publicKey.allowCredentials', publicKey.allowCredentials);
+  collector.oneOf('publicKey.authenticatorAttachment', publicKey.authenticatorAttachment, ATTACHMENT_VALUES);
+  collector.oneOf('publicKey.userVerification', publicKey.userVerification, USER_VERIFICATION_VALUES);
+  collector.hints('publicKey.hints', publicKey.hints);
+  collector.timeout('publicKey.timeout', publicKey.timeout);
+  collector.extensions('publicKey.extensions', publicKey.extensions);
+  collector.oneOf('mediation', (options as PasskeyAuthenticationOptions).mediation, MEDIATION_VALUES);
+
+  return collector.issues;
+}
+
+/**
+ * @throws PasskeyError with code `INVALID_INPUT` and the problems as `issues`
+ */
+export function assertValidCreateOptions(options: unknown): asserts options is PasskeyCreateOptions {
+  const issues = validateCreateOptions(options);
+  if (issues.length > 0) {
+    throw toError(issues);
+  }
+}
+
+/**
+ * @throws PasskeyError with code `INVALID_INPUT` and the problems as `issues`
+ */
+export function assertValidAuthenticationOptions(options: unknown): asserts options is PasskeyAuthenticationOptions {
+  const issues = validateAuthenticationOptions(options);
+  if (issues.length > 0) {
+    throw toError(issues);
+  }
+}
@@ -0,0 +1,495 @@
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/browser';
+
+import { parseAttestationObject } from './attestation.js';
+import { getCredentialBackupState, parseAuthenticatorData } from './authenticator-data.js';
+import type { CredentialPublicKey, ParsedAuthenticatorData } from './authenticator-data.js';
+import { COSE_ALGORITHM, coseKeyToSpki, getCoseKeyAlgorithm, parseCoseKey } from './cose.js';
+import { getSubtle, sha256, toBufferSource } from './crypto.js';
+import type { PasskeyAuthResult, PasskeyCreateResult } from './definitions.js';
+import { fromBase64Url } from './encoding.js';
+
+/**
+ * Expected values shared by registration and authentication verification.
+ */
+export interface VerifyCeremonyOptions {
+  /** Base64url challenge issued for the ceremony, or a predicate for challenges tracked elsewhere. */
+  expectedChallenge: string | ((challenge: string) => boolean | Promise<boolean>);
+  /** Allowed origin(s), e.g. `https://example.com` or `android:apk-key-hash:...`. */
+  expectedOrigin: string | string[];
+  /** Allowed RP ID(s); the authenticatorData rpIdHash must match one of them. */
+  expectedRPID: string | string[];
+  /** Require the UP flag. Defaults to true. */
+  requireUserPresence?: boolean;
+  /** Require the UV flag. Defaults to true. */
+  requireUserVerification?: boolean;
+  /** WebCrypto implementation; defaults to `globalThis.crypto.subtle`. */
+  subtle?: SubtleCrypto;
+}
+
+/**
+ * Public key material of a registered credential.
+ *
+ * `publicKey` accepts the formats produced by this plugin: the raw EC point / Ed25519 key stored by
+ * `toStoredCredential()`, DER SPKI (`response.publicKey`), or a CBOR COSE_Key, as bytes or base64url.
+ * A `StoredCredential` can be passed as is.
+ */
+export interface VerificationCredential {
+  /** When set, the response credential ID must match it. */
+  credentialId?: string;
+  publicKey: Uint8Array | string;
+  /** COSE algorithm; inferred from the key when omitted (PS256/384/512 must be given explicitly). */
+  algorithm?: number;
+  /** Last stored signature counter, used to detect cloned authenticators. */
+  signCount?: number;
+}
+
+export interface VerifyAuthenticationOptions extends VerifyCeremonyOptions {
+  response: PasskeyAuthResult | AuthenticationResponseJSON;
+  credential: VerificationCredential;
+}
+
+export interface AuthenticationVerification {
+  /** True when the assertion signature is valid. */
+  verified: boolean;
+  credentialId: string;
+  /** Counter reported by the authenticator; store it for the next verification. */
+  newSignCount: number;
+  userVerified: boolean;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  origin: string;
+  rpId: string;
+}
+
+export interface VerifyRegistrationOptions extends VerifyCeremonyOptions {
+  response: PasskeyCreateResult | RegistrationResponseJSON;
+}
+
+export interface RegistrationVerification {
+  /** False only when a self attestation signature does not match the credential key. */
+  verified: boolean;
+  credentialId: string;
+  credentialPublicKey: CredentialPublicKey;
+  signCount: number;
+  aaguid?: string;
+  fmt: string;
+  /**
+   * 'none' for `none` attestation, 'self' for a verified `packed` self attestation,
+   * 'unverified' for certificate-based statements, which require a trust store and are not checked.
+   */
+  attestationType: 'none' | 'self' | 'unverified';
+  userVerified: boolean;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  origin: string;
+  rpId: string;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+interface VerificationKey {
+  format: 'raw' | 'spki';
+  bytes: Uint8Array;
+  algorithm: number;
+  namedCurve?: string;
+}
+
+interface AlgorithmParams {
+  importParams: EcKeyImportParams | RsaHashedImportParams | Algorithm;
+  verifyParams: EcdsaParams | RsaPssParams | Algorithm;
+  ecdsaSize?: number;
+}
+
+const EC_CURVES_BY_RAW_LENGTH: Record<number, { namedCurve: string; algorithm: number }> = {
+  65: { namedCurve: 'P-256', algorithm: COSE_ALGORITHM.ES256 },
+  97: { namedCurve: 'P-384', algorithm: COSE_ALGORITHM.ES384 },
+  133: { namedCurve: 'P-521', algorithm: COSE_ALGORITHM.ES512 },
+};
+
+// DER-encoded OID bodies used to recognize SPKI key types.
+const OID_P256 = [0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07];
+const OID_P384 = [0x2b, 0x81, 0x04, 0x00, 0x22];
+const OID_P521 = [0x2b, 0x81, 0x04, 0x00, 0x23];
+const OID_ED25519 = [0x06, 0x03, 0x2b, 0x65, 0x70];
+const OID_RSA_ENCRYPTION = [0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01];
+
+const HASH_BY_ALGORITHM: Record<number, string> = {
+  [COSE_ALGORITHM.ES256]: 'SHA-256',
+  [COSE_ALGORITHM.ES384]: 'SHA-384',
+  [COSE_ALGORITHM.ES512]: 'SHA-512',
+  [COSE_ALGORITHM.PS256]: 'SHA-256',
+  [COSE_ALGORITHM.PS384]: 'SHA-384',
+  [COSE_ALGORITHM.PS512]: 'SHA-512',
+  [COSE_ALGORITHM.RS256]: 'SHA-256',
+  [COSE_ALGORITHM.RS384]: 'SHA-384',
+  [COSE_ALGORITHM.RS512]: 'SHA-512',
+};
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function includesSequence(haystack: Uint8Array, needle: number[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start += 1) {
+    if (needle.every((byte, index) => haystack[start + index] === byte)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+function parseClientData(clientDataJSON: Uint8Array): ClientData {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    throw new Error('Invalid clientDataJSON: not valid JSON');
+  }
+
+  const { type, challenge, origin }: Partial<ClientData> = typeof parsed === 'object' && parsed !== null ? parsed : {};
+  if (typeof type !== 'string' || typeof challenge !== 'string' || typeof origin !== 'string') {
+    throw new Error('Invalid clientDataJSON: missing type, challenge or origin');
+  }
+
+  return { type, challenge, origin };
+}
+
+async function assertClientData(
+  clientData: ClientData,
+  expectedType: string,
+  options: VerifyCeremonyOptions,
+): Promise<void> {
+  if (clientData.type !== expectedType) {
+    throw new Error(`Unexpected clientData type "${clientData.type}", expected "${expectedType}"`);
+  }
+
+  const { expectedChallenge } = options;
+  const challengeMatches =
+    typeof expectedChallenge === 'function'
+      ? await expectedChallenge(clientData.challenge)
+      : clientData.challenge === expectedChallenge;
+  if (!challengeMatches) {
+    throw new Error(`Unexpected challenge "${clientData.challenge}"`);
+  }
+
+  const origins = Array.isArray(options.expectedOrigin) ? options.expectedOrigin : [options.expectedOrigin];
+  if (!origins.includes(clientData.origin)) {
+    throw new Error(`Unexpected origin "${clientData.origin}", expected one of: ${origins.join(', ')}`);
+  }
+}
+
+/**
+ * Checks the rpIdHash and UP/UV flags; returns the RP ID that matched.
+ */
+async function assertAuthenticatorData(
+  subtle: SubtleCrypto,
+  authenticatorData: ParsedAuthenticatorData,
+  options: VerifyCeremonyOptions,
+): Promise<string> {
+  const rpIds = Array.isArray(options.expectedRPID) ? options.expectedRPID : [options.expectedRPID];
+  let matchedRpId: string | undefined;
+  for (const rpId of rpIds) {
+    if (bytesEqual(await sha256(new TextEncoder().encode(rpId), subtle), authenticatorData.rpIdHash)) {
+      matchedRpId = rpId;
+      break;
+    }
+  }
+
+  if (matchedRpId === undefined) {
+    throw new Error(`Unexpected rpIdHash, expected the hash of one of: ${rpIds.join(', ')}`);
+  }
+
+  if ((options.requireUserPresence ?? true) && !authenticatorData.flags.userPresent) {
+    throw new Error('User presence (UP) flag is not set');
+  }
+
+  if ((options.requireUserVerification ?? true) && !authenticatorData.flags.userVerified) {
+    throw new Error('User verification (UV) flag is not set');
+  }
+
+  return matchedRpId;
+}
+
+function resolveVerificationKey(credential: VerificationCredential): VerificationKey {
+  const bytes = typeof credential.publicKey === 'string' ? fromBase64Url(credential.publicKey) : credential.publicKey;
+
+  // Raw Ed25519 keys are checked first since their first byte is arbitrary
+  if (bytes.length === 32) {
+    return { format: 'raw', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.EdDSA };
+  }
+
+  // CBOR map header: a COSE_Key straight from attested credential data
+  if (bytes[0] >= 0xa0 && bytes[0] <= 0xbf) {
+    const key = parseCoseKey(bytes);
+    return { format: 'spki', bytes: coseKeyToSpki(key), algorithm: credential.algorithm ?? getCoseKeyAlgorithm(key) };
+  }
+
+  const rawCurve = bytes[0] === 0x04 ? EC_CURVES_BY_RAW_LENGTH[bytes.length] : undefined;
+  if (rawCurve) {
+    return {
+      format: 'raw',
+      bytes,
+      algorithm: credential.algorithm ?? rawCurve.algorithm,
+      namedCurve: rawCurve.namedCurve,
+    };
+  }
+
+  if (bytes[0] !== 0x30) {
+    throw new Error('Unsupported public key format: expected a raw key, SPKI or COSE_Key');
+  }
+
+  // Only the AlgorithmIdentifier at the start of the SPKI is searched
+  const header = bytes.subarray(0, 32);
+  if (includesSequence(header, OID_P256)) {
+    return { format: 'spki', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.ES256, namedCurve: 'P-256' };
+  }
+  if (includesSequence(header, OID_P384)) {
+    return { format: 'spki', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.ES384, namedCurve: 'P-384' };
+  }
+  if (includesSequence(header, OID_P521)) {
+    return { format: 'spki', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.ES512, namedCurve: 'P-521' };
+  }
+  if (includesSequence(header, OID_ED25519)) {
+    return { format: 'spki', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.EdDSA };
+  }
+  if (includesSequence(header, OID_RSA_ENCRYPTION)) {
+    return { format: 'spki', bytes, algorithm: credential.algorithm ?? COSE_ALGORITHM.RS256 };
+  }
+
+  throw new Error('Unsupported SPKI public key: unknown algorithm');
+}
+
+function getAlgorithmParams(key: VerificationKey): AlgorithmParams {
+  const hash = HASH_BY_ALGORITHM[key.algorithm];
+
+  switch (key.algorithm) {
+    case COSE_ALGORITHM.ES256:
+    case COSE_ALGORITHM.ES384:
+    case COSE_ALGORITHM.ES512: {
+      const namedCurve =
+        key.namedCurve ??
+        (key.algorithm === COSE_ALGORITHM.ES384 ? 'P-384' : key.algorithm === COSE_ALGORITHM.ES512 ? 'P-521' : 'P-256');
+      return {
+        importParams: { name: 'ECDSA', namedCurve },
+        verifyParams: { name: 'ECDSA', hash },
+        ecdsaSize: namedCurve === 'P-521' ? 66 : namedCurve === 'P-384' ? 48 : 32,
+      };
+    }
+    case COSE_ALGORITHM.EdDSA:
+      return { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' } };
+    case COSE_ALGORITHM.RS256:
+    case COSE_ALGORITHM.RS384:
+    case COSE_ALGORITHM.RS512:
+      return { importParams: { name: 'RSASSA-PKCS1-v1_5', hash }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } };
+    case COSE_ALGORITHM.PS256:
+    case COSE_ALGORITHM.PS384:
+    case COSE_ALGORITHM.PS512:
+      return {
+        importParams: { name: 'RSA-PSS', hash },
+        // RFC 8230: the salt length equals the hash output length
+        verifyParams: { name: 'RSA-PSS', saltLength: Number(hash.slice(4)) / 8 },
+      };
+    default:
+      throw new Error(`Unsupported COSE algorithm ${key.algorithm}`);
+  }
+}
+
+function readDerLength(bytes: Uint8Array, offset: number): { length: number; offset: number } {
+  const first = bytes[offset];
+  if (first < 0x80) {
+    return { length: first, offset: offset + 1 };
+  }
+
+  let length = 0;
+  const count = first & 0x7f;
+  for (let i = 1; i <= count; i += 1) {
+    length = (length << 8) | bytes[offset + i];
+  }
+
+  return { length, offset: offset + 1 + count };
+}
+
+/**
+ * Converts a DER `ECDSA-Sig-Value` (as produced by authenticators) to the fixed-size `r || s` form WebCrypto expects.
+ */
+function derToRawEcdsaSignature(signature: Uint8Array, size: number): Uint8Array {
+  if (signature[0] !== 0x30) {
+    throw new Error('Invalid ECDSA signature: expected a DER sequence');
+  }
+
+  let { offset } = readDerLength(signature, 1);
+  const raw = new Uint8Array(size * 2);
+
+  for (const part of [0, 1]) {
+    if (signature[offset] !== 0x02) {
+      throw new Error('Invalid ECDSA signature: expected a DER integer');
+    }
+
+    const integer = readDerLength(signature, offset + 1);
+    let value = signature.subarray(integer.offset, integer.offset + integer.length);
+    while (value.length > size && value[0] === 0) {
+      value = value.subarray(1);
+    }
+    if (value.length > size) {
+      throw new Error('Invalid ECDSA signature: integer exceeds curve size');
+    }
+
+    raw.set(value, part * size + size - value.length);
+    offset = integer.offset + integer.length;
+  }
+
+  return raw;
+}
+
+async function verifySignature(
+  subtle: SubtleCrypto,
+  key: VerificationKey,
+  signature: Uint8Array,
+  data: Uint8Array,
+): Promise<boolean> {
+  const { importParams, verifyParams, ecdsaSize } = getAlgorithmParams(key);
+  const cryptoKey = await subtle.importKey(key.format, toBufferSource(key.bytes), importParams, false, ['verify']);
+
+  let normalizedSignature = signature;
+  if (ecdsaSize !== undefined) {
+    try {
+      normalizedSignature = derToRawEcdsaSignature(signature, ecdsaSize);
+    } catch {
+      return false;
+    }
+  }
+
+  return subtle.verify(verifyParams, cryptoKey, toBufferSource(normalizedSignature), toBufferSource(data));
+}
+
+/**
+ * Verifies an authentication assertion locally: clientDataJSON type/challenge/origin, rpIdHash,
+ * UP/UV flags, signature counter and the ES256/RS256/PS256/EdDSA signature (via WebCrypto).
+ *
+ * Mismatched expectations throw; an invalid signature resolves with `verified: false`.
+ * Works in the WebView and in Node 20+, where `globalThis.crypto.subtle` is available.
+ */
+export async function verifyAuthentication(options: VerifyAuthenticationOptions): Promise<AuthenticationVerification> {
+  const subtle = getSubtle(options.subtle);
+  const { response, credential } = options;
+
+  if (credential.credentialId !== undefined && credential.credentialId !== response.id) {
+    throw new Error(`Unexpected credential ID "${response.id}"`);
+  }
+
+  const clientDataJSON = fromBase64Url(response.response.clientDataJSON);
+  const clientData = parseClientData(clientDataJSON);
+  await assertClientData(clientData, 'webauthn.get', options);
+
+  const authenticatorDataBytes = fromBase64Url(response.response.authenticatorData);
+  const authenticatorData = parseAuthenticatorData(authenticatorDataBytes);
+  const rpId = await assertAuthenticatorData(subtle, authenticatorData, options);
+
+  const storedSignCount = credential.signCount;
+  if (
+    storedSignCount !== undefined &&
+    (authenticatorData.signCount > 0 || storedSignCount > 0) &&
+    authenticatorData.signCount <= storedSignCount
+  ) {
+    throw new Error(
+      `Signature counter ${authenticatorData.signCount} is not greater than stored ${storedSignCount}; the authenticator may be cloned`,
+    );
+  }
+
+  const signedData = concatBytes(authenticatorDataBytes, await sha256(clientDataJSON, subtle));
+  const verified = await verifySignature(
+    subtle,
+    resolveVerificationKey(credential),
+    fromBase64Url(response.response.signature),
+    signedData,
+  );
+
+  return {
+    verified,
+    credentialId: response.id,
+    newSignCount: authenticatorData.signCount,
+    userVerified: authenticatorData.flags.userVerified,
+    ...getCredentialBackupState(authenticatorData.flags),
+    origin: clientData.origin,
+    rpId,
+  };
+}
+
+/**
+ * Verifies a registration response locally: clientDataJSON, rpIdHash, UP/UV flags, attested credential data
+ * and, for `packed` self attestation, the attestation signature. Certificate-based attestation statements are
+ * reported as `attestationType: 'unverified'` because checking them requires a trust store.
+ */
+export async function verifyRegistration(options: VerifyRegistrationOptions): Promise<RegistrationVerification> {
+  const subtle = getSubtle(options.subtle);
+  const { response } = options;
+
+  const clientDataJSON = fromBase64Url(response.response.clientDataJSON);
+  const clientData = parseClientData(clientDataJSON);
+  await assertClientData(clientData, 'webauthn.create', options);
+
+  const attestation = parseAttestationObject(response.response.attestationObject);
+  const authenticatorData = parseAuthenticatorData(attestation.authData);
+  const rpId = await assertAuthenticatorData(subtle, authenticatorData, options);
+
+  const { credentialId, credentialPublicKey } = authenticatorData;
+  if (!credentialId || !credentialPublicKey) {
+    throw new Error('Registration authenticatorData has no attested credential data');
+  }
+  if (credentialId !== response.id) {
+    throw new Error(`Credential ID "${response.id}" does not match attested credential data`);
+  }
+
+  let verified = true;
+  let attestationType: RegistrationVerification['attestationType'] = 'unverified';
+
+  if (attestation.fmt === 'none') {
+    attestationType = 'none';
+  } else if (attestation.fmt === 'packed' && !attestation.attStmt.has('x5c')) {
+    const alg = attestation.attStmt.get('alg');
+    const sig = attestation.attStmt.get('sig');
+    if (typeof alg !== 'number' || !(sig instanceof Uint8Array)) {
+      throw new Error('Invalid packed attestation statement: missing alg or sig');
+    }
+    if (alg !== credentialPublicKey.algorithm) {
+      throw new Error(
+        `Packed self attestation alg ${alg} does not match credential key alg ${credentialPublicKey.algorithm}`,
+      );
+    }
+
+    const signedData = concatBytes(attestation.authData, await sha256(clientDataJSON, subtle));
+    verified = await verifySignature(
+      subtle,
+      resolveVerificationKey({ publicKey: credentialPublicKey.spki, algorithm: alg }),
+      sig,
+      signedData,
+    );
+    attestationType = 'self';
+  }
+
+  return {
+    verified,
+    credentialId,
+    credentialPublicKey,
+    signCount: authenticatorData.signCount,
+    aaguid: authenticatorData.aaguid,
+    fmt: attestation.fmt,
+    attestationType,
+    userVerified: authenticatorData.flags.userVerified,
+    ...getCredentialBackupState(authenticatorData.flags),
+    origin: clientData.origin,
+    rpId,
+  };
+}
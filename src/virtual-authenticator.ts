@@ -0,0 +1,501 @@
+import { encodeCbor } from './cbor.js';
+import type { CborMap } from './cbor.js';
+import { COSE_ALGORITHM, COSE_CURVE, COSE_KEY_TYPE } from './cose.js';
+import { getSubtle, randomBytes, sha256, toBufferSource } from './crypto.js';
+import type {
+  PasskeyAuthenticationOptions,
+  PasskeyAllAcceptedCredentialsOptions,
+  PasskeyAuthResult,
+  PasskeyCapabilities,
+  PasskeyCreateOptions,
+  PasskeyCreateResult,
+  PasskeyCurrentUserDetailsOptions,
+  PasskeyExtensionInputs,
+  PasskeyExtensionOutputs,
+  PasskeyPlugin,
+  PasskeyPrfValues,
+  PasskeyUnknownCredentialOptions,
+} from './definitions.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+import { createPasskeyError } from './errors.js';
+import { assertValidAuthenticationOptions, assertValidCreateOptions } from './validation.js';
+
+/**
+ * Behavior of a `VirtualAuthenticator`. Every field can be changed later with `configure()`.
+ */
+export interface VirtualAuthenticatorOptions {
+  /** Default RP ID when a request does not specify one. */
+  rpId?: string;
+  /** Origin written to clientDataJSON. Defaults to `https://<rpId>`. */
+  origin?: string;
+  /** Attestation statement format for new credentials. Defaults to 'none'; 'packed' produces self attestation. */
+  attestation?: 'none' | 'packed';
+  /** AAGUID reported in attested credential data (UUID string). Defaults to all zeros. */
+  aaguid?: string;
+  /** UP flag. Defaults to true. */
+  userPresent?: boolean;
+  /** UV flag. Defaults to true. */
+  userVerified?: boolean;
+  /** BE flag (synced passkey). Defaults to false. */
+  backupEligible?: boolean;
+  /** BS flag. Defaults to false. */
+  backupState?: boolean;
+  /** Increment the signature counter on each assertion; synced passkeys typically keep it at 0. Defaults to true. */
+  signCounter?: boolean;
+  /** Authenticator attachment reported in results. Defaults to 'platform'. */
+  authenticatorAttachment?: 'platform' | 'cross-platform';
+  /** Transports reported in registration results. Defaults to ['internal', 'hybrid']. */
+  transports?: string[];
+  /** WebCrypto implementation; defaults to `globalThis.crypto.subtle`. */
+  subtle?: SubtleCrypto;
+}
+
+/**
+ * Snapshot of a credential held by a `VirtualAuthenticator` (private key material is not exposed).
+ */
+export interface VirtualCredential {
+  credentialId: string;
+  rpId: string;
+  /** Base64url-encoded user handle (`user.id`). */
+  userHandle: string;
+  userName: string;
+  userDisplayName: string;
+  /** COSE algorithm, -7 (ES256) or -8 (EdDSA). */
+  algorithm: number;
+  signCount: number;
+  /** Whether the credential is discoverable (resident) and can be used without allowCredentials. */
+  discoverable: boolean;
+}
+
+interface StoredVirtualCredential extends VirtualCredential {
+  privateKey: CryptoKey;
+  /** Per-credential secret backing the PRF extension. */
+  prfSecret: Uint8Array;
+}
+
+const SUPPORTED_ALGORITHMS: number[] = [COSE_ALGORITHM.ES256, COSE_ALGORITHM.EdDSA];
+
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_BE = 0x08;
+const FLAG_BS = 0x10;
+const FLAG_AT = 0x40;
+
+const PRF_SALT_PREFIX = new TextEncoder().encode('WebAuthn PRF\0');
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+
+  return result;
+}
+
+// A runtime without WebCrypto cannot run the authenticator at all, like a platform without passkey support
+function withUnsupportedError<T>(get: () => T): T {
+  try {
+    return get();
+  } catch (error) {
+    throw createPasskeyError('UNSUPPORTED_ERROR', error instanceof Error ? error.message : String(error), {
+      cause: error,
+    });
+  }
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function parseAaguid(aaguid?: string): Uint8Array {
+  const hex = (aaguid ?? '').replace(/-/g, '');
+  if (!hex) {
+    return new Uint8Array(16);
+  }
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+    throw createPasskeyError('INVALID_INPUT', `Invalid AAGUID "${aaguid}"`);
+  }
+
+  return new Uint8Array((hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16)));
+}
+
+function derInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start += 1;
+  }
+
+  const trimmed = bytes.subarray(start);
+  const body = trimmed[0] & 0x80 ? concatBytes(new Uint8Array([0]), trimmed) : trimmed;
+  return concatBytes(new Uint8Array([0x02, body.length]), body);
+}
+
+/**
+ * Converts WebCrypto's `r || s` ECDSA output to the DER `ECDSA-Sig-Value` authenticators emit.
+ */
+function rawToDerEcdsaSignature(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  const body = concatBytes(derInteger(raw.subarray(0, half)), derInteger(raw.subarray(half)));
+  return concatBytes(new Uint8Array([0x30, body.length]), body);
+}
+
+/**
+ * Software WebAuthn authenticator implementing `PasskeyPlugin`.
+ *
+ * Generates real ES256/EdDSA key pairs, returns `none`/`packed` attestationObjects and signed assertions,
+ * keeps resident credentials with signature counters, and supports credProps and PRF. Intended for
+ * register → store → authenticate flows in unit tests and for web builds without a platform authenticator.
+ */
+export class VirtualAuthenticator implements PasskeyPlugin {
+  private options: VirtualAuthenticatorOptions;
+  private readonly credentials = new Map<string, StoredVirtualCredential>();
+
+  constructor(options: VirtualAuthenticatorOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Updates authenticator behavior, e.g. to toggle the UV or BE/BS flags between ceremonies.
+   */
+  configure(options: Partial<VirtualAuthenticatorOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getCredentials(): VirtualCredential[] {
+    return Array.from(this.credentials.values(), (credential) => this.toSnapshot(credential));
+  }
+
+  removeCredential(credentialId: string): boolean {
+    return this.credentials.delete(credentialId);
+  }
+
+  clearCredentials(): void {
+    this.credentials.clear();
+  }
+
+  async createPasskey(options: PasskeyCreateOptions): Promise<PasskeyCreateResult> {
+    this.assertNotAborted(options?.signal);
+    assertValidCreateOptions(options);
+    const { publicKey } = options;
+
+    const rpId = this.resolveRpId(publicKey.rp?.id);
+    const excluded = publicKey.excludeCredentials?.find((descriptor) => {
+      const existing = this.credentials.get(descriptor.id);
+      return existing?.rpId === rpId;
+    });
+    if (excluded) {
+      throw createPasskeyError('DOM_ERROR', 'InvalidStateError: a credential in excludeCredentials already exists');
+    }
+
+    const algorithm = publicKey.pubKeyCredParams
+      ?.map((param) => param.alg)
+      .find((alg) => SUPPORTED_ALGORITHMS.includes(alg));
+    if (algorithm === undefined) {
+      throw createPasskeyError('UNSUPPORTED_ERROR', 'None of the requested pubKeyCredParams algorithms is supported');
+    }
+
+    const subtle = this.getSubtle();
+    const keyPair = (await subtle.generateKey(
+      (algorithm === COSE_ALGORITHM.EdDSA
+        ? { name: 'Ed25519' }
+        : { name: 'ECDSA', namedCurve: 'P-256' }) as EcKeyGenParams,
+      true,
+      ['sign', 'verify'],
+    )) as CryptoKeyPair;
+    const rawPublicKey = new Uint8Array(await subtle.exportKey('raw', keyPair.publicKey));
+    const spki = new Uint8Array(await subtle.exportKey('spki', keyPair.publicKey));
+
+    const credentialIdBytes = this.randomBytes(16);
+    const credential: StoredVirtualCredential = {
+      credentialId: toBase64Url(credentialIdBytes),
+      rpId,
+      userHandle: publicKey.user.id,
+      userName: publicKey.user.name,
+      userDisplayName: publicKey.user.displayName,
+      algorithm,
+      signCount: 0,
+      discoverable: publicKey.authenticatorSelection?.residentKey !== 'discouraged',
+      privateKey: keyPair.privateKey,
+      prfSecret: this.randomBytes(32),
+    };
+
+    const authenticatorData = concatBytes(
+      await this.sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([this.flags() | FLAG_AT]),
+      uint32(credential.signCount),
+      parseAaguid(this.options.aaguid),
+      new Uint8Array([credentialIdBytes.length >> 8, credentialIdBytes.length & 0xff]),
+      credentialIdBytes,
+      encodeCbor(this.toCoseKey(algorithm, rawPublicKey)),
+    );
+    const clientDataJSON = this.clientDataJSON('webauthn.create', publicKey.challenge, rpId);
+
+    const attStmt: CborMap = new Map();
+    if (this.options.attestation === 'packed') {
+      attStmt.set('alg', algorithm);
+      attStmt.set(
+        'sig',
+        await this.sign(credential, concatBytes(authenticatorData, await this.sha256(clientDataJSON))),
+      );
+    }
+    const attestationObject = encodeCbor(
+      new Map<string, string | CborMap | Uint8Array>([
+        ['fmt', this.options.attestation ?? 'none'],
+        ['attStmt', attStmt],
+        ['authData', authenticatorData],
+      ]),
+    );
+
+    this.credentials.set(credential.credentialId, credential);
+
+    return {
+      id: credential.credentialId,
+      rawId: credential.credentialId,
+      type: 'public-key',
+      authenticatorAttachment: this.options.authenticatorAttachment ?? 'platform',
+      clientExtensionResults: await this.extensionResults(publicKey.extensions, credential, true),
+      response: {
+        attestationObject: toBase64Url(attestationObject),
+        clientDataJSON: toBase64Url(clientDataJSON),
+        authenticatorData: toBase64Url(authenticatorData),
+        transports: this.options.transports ?? ['internal', 'hybrid'],
+        publicKey: toBase64Url(spki),
+        publicKeyAlgorithm: algorithm,
+      },
+    };
+  }
+
+  async authenticate(options: PasskeyAuthenticationOptions): Promise<PasskeyAuthResult> {
+    this.assertNotAborted(options?.signal);
+    assertValidAuthenticationOptions(options);
+    const { publicKey } = options;
+
+    const rpId = this.resolveRpId(publicKey.rpId);
+    const allowed = options.mediation === 'conditional' ? [] : (publicKey.allowCredentials ?? []);
+    const credential = Array.from(this.credentials.values()).find((candidate) => {
+      if (candidate.rpId !== rpId) {
+        return false;
+      }
+
+      return allowed.length > 0
+        ? allowed.some((descriptor) => descriptor.id === candidate.credentialId)
+        : candidate.discoverable;
+    });
+    if (!credential) {
+      throw createPasskeyError('NO_CREDENTIAL', `No credential available for RP ID "${rpId}"`);
+    }
+
+    if (this.options.signCounter ?? true) {
+      credential.signCount += 1;
+    }
+
+    const authenticatorData = concatBytes(
+      await this.sha256(new TextEncoder().encode(rpId)),
+      new Uint8Array([this.flags()]),
+      uint32(credential.signCount),
+    );
+    const clientDataJSON = this.clientDataJSON('webauthn.get', publicKey.challenge, rpId);
+    const signature = await this.sign(credential, concatBytes(authenticatorData, await this.sha256(clientDataJSON)));
+
+    return {
+      id: credential.credentialId,
+      rawId: credential.credentialId,
+      type: 'public-key',
+      authenticatorAttachment: this.options.authenticatorAttachment ?? 'platform',
+      clientExtensionResults: await this.extensionResults(publicKey.extensions, credential, false),
+      response: {
+        clientDataJSON: toBase64Url(clientDataJSON),
+        authenticatorData: toBase64Url(authenticatorData),
+        signature: toBase64Url(signature),
+        userHandle: credential.discoverable ? credential.userHandle : undefined,
+      },
+    };
+  }
+
+  /**
+   * Ceremonies complete synchronously with respect to the caller, so there is never anything to cancel.
+   */
+  async cancelOperation(): Promise<void> {
+    return;
+  }
+
+  async getCapabilities(): Promise<PasskeyCapabilities> {
+    return {
+      platformAuthenticator: (this.options.authenticatorAttachment ?? 'platform') === 'platform',
+      conditionalMediation: true,
+      hybridTransport: false,
+      relatedOrigins: false,
+      extensions: { prf: true, largeBlob: false },
+      signals: { unknownCredential: true, allAcceptedCredentials: true, currentUserDetails: true },
+    };
+  }
+
+  /**
+   * Removes the credential, as a passkey provider honoring the signal would.
+   */
+  async signalUnknownCredential(options: PasskeyUnknownCredentialOptions): Promise<void> {
+    const credential = this.credentials.get(options.credentialId);
+    if (credential?.rpId === options.rpId) {
+      this.credentials.delete(credential.credentialId);
+    }
+  }
+
+  /**
+   * Removes the user's credentials for the RP that are not in `allAcceptedCredentialIds`.
+   */
+  async signalAllAcceptedCredentials(options: PasskeyAllAcceptedCredentialsOptions): Promise<void> {
+    for (const credential of Array.from(this.credentials.values())) {
+      if (
+        credential.rpId === options.rpId &&
+        credential.userHandle === options.userId &&
+        !options.allAcceptedCredentialIds.includes(credential.credentialId)
+      ) {
+        this.credentials.delete(credential.credentialId);
+      }
+    }
+  }
+
+  /**
+   * Updates the stored user name and display name of the user's credentials for the RP.
+   */
+  async signalCurrentUserDetails(options: PasskeyCurrentUserDetailsOptions): Promise<void> {
+    for (const credential of this.credentials.values()) {
+      if (credential.rpId === options.rpId && credential.userHandle === options.userId) {
+        credential.userName = options.name;
+        credential.userDisplayName = options.displayName;
+      }
+    }
+  }
+
+  private toSnapshot(credential: StoredVirtualCredential): VirtualCredential {
+    const { credentialId, rpId, userHandle, userName, userDisplayName, algorithm, signCount, discoverable } =
+      credential;
+    return { credentialId, rpId, userHandle, userName, userDisplayName, algorithm, signCount, discoverable };
+  }
+
+  private assertNotAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw createPasskeyError('INTERRUPTED', 'Passkey operation was aborted');
+    }
+  }
+
+  private resolveRpId(requested?: string): string {
+    const rpId = requested ?? this.options.rpId;
+    if (!rpId) {
+      throw createPasskeyError(
+        'INVALID_INPUT',
+        'Missing RP ID: set it in the request or VirtualAuthenticatorOptions.rpId',
+      );
+    }
+
+    return rpId;
+  }
+
+  private flags(): number {
+    return (
+      ((this.options.userPresent ?? true) ? FLAG_UP : 0) |
+      ((this.options.userVerified ?? true) ? FLAG_UV : 0) |
+      (this.options.backupEligible ? FLAG_BE : 0) |
+      (this.options.backupState ? FLAG_BS : 0)
+    );
+  }
+
+  private clientDataJSON(type: string, challenge: string, rpId: string): Uint8Array {
+    return new TextEncoder().encode(
+      JSON.stringify({ type, challenge, origin: this.options.origin ?? `https://${rpId}`, crossOrigin: false }),
+    );
+  }
+
+  private toCoseKey(algorithm: number, rawPublicKey: Uint8Array): CborMap {
+    if (algorithm === COSE_ALGORITHM.EdDSA) {
+      return new Map<number, number | Uint8Array>([
+        [1, COSE_KEY_TYPE.OKP],
+        [3, algorithm],
+        [-1, COSE_CURVE.Ed25519],
+        [-2, rawPublicKey],
+      ]);
+    }
+
+    // Uncompressed SEC1 point: 0x04 || x || y
+    return new Map<number, number | Uint8Array>([
+      [1, COSE_KEY_TYPE.EC2],
+      [3, algorithm],
+      [-1, COSE_CURVE.P256],
+      [-2, rawPublicKey.slice(1, 33)],
+      [-3, rawPublicKey.slice(33, 65)],
+    ]);
+  }
+
+  private async sign(credential: StoredVirtualCredential, data: Uint8Array): Promise<Uint8Array> {
+    const subtle = this.getSubtle();
+    if (credential.algorithm === COSE_ALGORITHM.EdDSA) {
+      return new Uint8Array(await subtle.sign({ name: 'Ed25519' }, credential.privateKey, toBufferSource(data)));
+    }
+
+    const raw = new Uint8Array(
+      await subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, credential.privateKey, toBufferSource(data)),
+    );
+    return rawToDerEcdsaSignature(raw);
+  }
+
+  private async extensionResults(
+    inputs: PasskeyExtensionInputs | undefined,
+    credential: StoredVirtualCredential,
+    registration: boolean,
+  ): Promise<PasskeyExtensionOutputs> {
+    const results: PasskeyExtensionOutputs = {};
+    if (registration && inputs?.credProps) {
+      results.credProps = { rk: credential.discoverable };
+    }
+
+    if (inputs?.prf) {
+      const salts = (!registration && inputs.prf.evalByCredential?.[credential.credentialId]) || inputs.prf.eval;
+      const prfResults = salts ? await this.evaluatePrf(credential, salts) : undefined;
+      results.prf = {
+        ...(registration ? { enabled: true } : {}),
+        ...(prfResults ? { results: prfResults } : {}),
+      };
+    }
+
+    return results;
+  }
+
+  /**
+   * PRF as defined by WebAuthn L3: HMAC-SHA-256 over SHA-256("WebAuthn PRF" || 0x00 || salt).
+   */
+  private async evaluatePrf(credential: StoredVirtualCredential, salts: PasskeyPrfValues): Promise<PasskeyPrfValues> {
+    const subtle = this.getSubtle();
+    const key = await subtle.importKey(
+      'raw',
+      toBufferSource(credential.prfSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const evaluate = async (salt: string) => {
+      const hashedSalt = await this.sha256(concatBytes(PRF_SALT_PREFIX, fromBase64Url(salt)));
+      return toBase64Url(new Uint8Array(await subtle.sign('HMAC', key, toBufferSource(hashedSalt))));
+    };
+
+    return {
+      first: await evaluate(salts.first),
+      ...(salts.second !== undefined ? { second: await evaluate(salts.second) } : {}),
+    };
+  }
+
+  private sha256(data: Uint8Array): Promise<Uint8Array> {
+    return sha256(data, this.getSubtle());
+  }
+
+  private randomBytes(length: number): Uint8Array {
+    return withUnsupportedError(() => randomBytes(length));
+  }
+
+  private getSubtle(): SubtleCrypto {
+    return withUnsupportedError(() => getSubtle(this.options.subtle));
+  }
+}
@@ -7,80 +7,88 @@ import type {
   PublicKeyCreationOptions,
   PasskeyAuthResult,
   PasskeyAuthenticationOptions,
+  PasskeyCapabilities,
+  PasskeyUnknownCredentialOptions,
+  PasskeyAllAcceptedCredentialsOptions,
+  PasskeyCurrentUserDetailsOptions,
   PublicKeyAuthenticationOptions,
 } from './definitions.js';
+import { PasskeyError, createPasskeyError, mapPluginError } from './errors.js';
+import { decodeExtensionInputs, encodeExtensionOutputs } from './extensions.js';
+import { assertValidAuthenticationOptions, assertValidCreateOptions } from './validation.js';
+
+type BrowserJSONSupport = Pick<
+  typeof PublicKeyCredential,
+  'parseCreationOptionsFromJSON' | 'parseRequestOptionsFromJSON'
+>;
+
+// `PublicKeyCredential.toJSON()` output, which lib.dom types as `any`
+interface RegistrationJSON {
+  id: string;
+  rawId: string;
+  authenticatorAttachment?: string | null;
+  clientExtensionResults?: Record<string, unknown>;
+  response: {
+    attestationObject: string;
+    clientDataJSON: string;
+    authenticatorData?: string;
+    publicKey?: string;
+    publicKeyAlgorithm?: number;
+    transports?: string[];
+  };
+}
+
+interface AuthenticationJSON {
+  id: string;
+  rawId: string;
+  authenticatorAttachment?: string | null;
+  clientExtensionResults?: Record<string, unknown>;
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle?: string | null };
+}
 
 /**
  * Web implementation of the PasskeyPlugin using WebAuthn API
  * Provides passkey creation and authentication for web browsers
- * Handles base64url encoding/decoding and error standardization
+ * Handles base64url encoding/decoding; failures reject with `PasskeyError`
  */
 export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
-  // Match Android error codes for consistency
-  private readonly ErrorCodes = {
-    UNKNOWN: 'UNKNOWN_ERROR',
-    CANCELLED: 'CANCELLED',
-    DOM: 'DOM_ERROR',
-    UNSUPPORTED: 'UNSUPPORTED_ERROR',
-    TIMEOUT: 'TIMEOUT',
-    NO_CREDENTIAL: 'NO_CREDENTIAL',
-  };
+  // Controller of the in-flight ceremony, aborted on timeout, caller abort, cancelOperation() or a new ceremony
+  private pendingCeremony?: AbortController;
 
   /**
    * Creates a new passkey credential for user authentication
    * @param options - Contains publicKey parameters following WebAuthn spec
    * @returns Promise resolving to credential creation result with attestation
-   * @throws Error with code if creation fails or is cancelled by user
+   * @throws PasskeyError if creation fails or is cancelled by user
    */
   async createPasskey(options: PasskeyCreateOptions): Promise<PasskeyCreateResult> {
     try {
       if (!('credentials' in navigator) || typeof navigator.credentials.create !== 'function') {
-        const error = new Error('PasskeyPlugin not supported in this browser');
-        (error as any).code = this.ErrorCodes.UNSUPPORTED;
-        throw error;
-      }
-
-      // Basic input validation
-      if (!options?.publicKey) {
-        const error = new Error('Missing publicKey parameter');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
+        throw createPasskeyError('UNSUPPORTED_ERROR', 'PasskeyPlugin not supported in this browser');
       }
 
+      assertValidCreateOptions(options);
       const crossPlatformOptions = options.publicKey as PublicKeyCreationOptions;
+      const browserJSON = this.getBrowserJSONSupport();
+      const webPasskeyOptions = browserJSON
+        ? browserJSON.parseCreationOptionsFromJSON(this.toCreationOptionsJSON(crossPlatformOptions))
+        : this.toPublicKeyCredentialCreationOptions(crossPlatformOptions);
 
-      if (!crossPlatformOptions.challenge || !crossPlatformOptions.user?.id) {
-        const error = new Error('Missing required parameters: challenge or user.id');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
-      }
-      const webPasskeyOptions = this.toPublicKeyCredentialCreationOptions(crossPlatformOptions);
-
-      // Add timeout handling
-      let credential: PublicKeyCredential;
-      const timeout = crossPlatformOptions.timeout || 60000;
-
-      const credentialPromise = navigator.credentials.create({
-        publicKey: webPasskeyOptions,
-      }) as Promise<PublicKeyCredential>;
-
-      if (timeout > 0) {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => {
-            const error = new Error(`Operation timed out after ${timeout}ms`);
-            (error as any).code = this.ErrorCodes.TIMEOUT;
-            reject(error);
-          }, timeout);
-        });
-        credential = await Promise.race([credentialPromise, timeoutPromise]);
-      } else {
-        credential = await credentialPromise;
-      }
+      const credential = (await this.runCeremony(
+        (signal) =>
+          navigator.credentials.create({
+            publicKey: webPasskeyOptions,
+            signal,
+          }),
+        crossPlatformOptions.timeout || 60000,
+        options.signal,
+      )) as PublicKeyCredential | null;
 
       if (!credential) {
-        const error = new Error('Credential creation failed');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
+        throw createPasskeyError('UNKNOWN_ERROR', 'Credential creation failed');
+      }
+      if (browserJSON) {
+        return this.fromRegistrationJSON(credential.toJSON());
       }
       const attestationResponse = credential.response as AuthenticatorAttestationResponse;
       if (credential.response instanceof AuthenticatorAttestationResponse) {
@@ -106,7 +114,7 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
           rawId: this.toBase64url(new Uint8Array(credential.rawId)),
           type: 'public-key',
           authenticatorAttachment: attachment,
-          clientExtensionResults: credential.getClientExtensionResults?.() ?? {},
+          clientExtensionResults: encodeExtensionOutputs(credential.getClientExtensionResults?.()),
           response: {
             attestationObject: this.toBase64url(new Uint8Array(attestationResponse.attestationObject)),
             clientDataJSON: this.toBase64url(new Uint8Array(attestationResponse.clientDataJSON)),
@@ -117,30 +125,12 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
           },
         };
       } else {
-        const error = new Error('Unsupported response type');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
+        throw createPasskeyError('UNKNOWN_ERROR', 'Unsupported response type');
       }
-    } catch (error: any) {
-      // Map DOMException to Android error codes
-      if (!error.code && error.name) {
-        switch (error.name) {
-          case 'NotAllowedError':
-          case 'AbortError':
-            error.code = this.ErrorCodes.CANCELLED;
-            break;
-          case 'SecurityError':
-            error.code = this.ErrorCodes.DOM;
-            break;
-          case 'NotSupportedError':
-            error.code = this.ErrorCodes.UNSUPPORTED;
-            break;
-          default:
-            error.code = error.code || this.ErrorCodes.UNKNOWN;
-        }
-      }
-      console.error('Passkey registration failed:', error.message, 'Code:', error.code);
-      throw error;
+    } catch (error) {
+      const passkeyError = mapPluginError(error, { ceremony: 'create', platform: 'web' });
+      console.error('Passkey registration failed:', passkeyError.message, 'Code:', passkeyError.code);
+      throw passkeyError;
     }
   }
 
@@ -148,57 +138,45 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
    * Authenticates user with an existing passkey
    * @param options - Contains publicKey parameters for authentication challenge
    * @returns Promise resolving to authentication assertion with signature
-   * @throws Error with code if authentication fails or no credential found
+   * @throws PasskeyError if authentication fails or no credential found
    */
   async authenticate(options: PasskeyAuthenticationOptions): Promise<PasskeyAuthResult> {
     try {
       if (!('credentials' in navigator) || typeof navigator.credentials.get !== 'function') {
-        const error = new Error('PasskeyPlugin not supported in this browser');
-        (error as any).code = this.ErrorCodes.UNSUPPORTED;
-        throw error;
-      }
-
-      // Basic input validation
-      if (!options?.publicKey) {
-        const error = new Error('Missing publicKey parameter');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
+        throw createPasskeyError('UNSUPPORTED_ERROR', 'PasskeyPlugin not supported in this browser');
       }
 
+      assertValidAuthenticationOptions(options);
       const crossPlatformOptions = options.publicKey as PublicKeyAuthenticationOptions;
-
-      if (!crossPlatformOptions.challenge) {
-        const error = new Error('Missing required challenge parameter');
-        (error as any).code = this.ErrorCodes.UNKNOWN;
-        throw error;
+      const isConditional = options.mediation === 'conditional';
+      if (isConditional) {
+        await this.assertConditionalMediationReady();
       }
-      const nativeOptions = this.toPublicKeyCredentialRequestOptions(
-        crossPlatformOptions,
-      ) as PublicKeyCredentialRequestOptions;
-      // Add timeout handling
-      let publicKeyCredential: PublicKeyCredential;
-      const timeout = crossPlatformOptions.timeout || 60000;
-
-      const credentialPromise = navigator.credentials.get({
-        publicKey: nativeOptions,
-      }) as Promise<PublicKeyCredential>;
-
-      if (timeout > 0) {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => {
-            const error = new Error(`Operation timed out after ${timeout}ms`);
-            (error as any).code = this.ErrorCodes.TIMEOUT;
-            reject(error);
-          }, timeout);
-        });
-        publicKeyCredential = await Promise.race([credentialPromise, timeoutPromise]);
-      } else {
-        publicKeyCredential = await credentialPromise;
+
+      const browserJSON = this.getBrowserJSONSupport();
+      const nativeOptions = browserJSON
+        ? browserJSON.parseRequestOptionsFromJSON(this.toRequestOptionsJSON(crossPlatformOptions))
+        : this.toPublicKeyCredentialRequestOptions(crossPlatformOptions);
+      if (isConditional) {
+        // Autofill lists every discoverable credential; an allow list would hide them
+        nativeOptions.allowCredentials = [];
       }
+      // Conditional requests stay pending until the user picks a passkey, so they are not raced against the timeout
+      const publicKeyCredential = (await this.runCeremony(
+        (signal) =>
+          navigator.credentials.get({
+            publicKey: nativeOptions,
+            mediation: options.mediation,
+            signal,
+          }),
+        isConditional ? 0 : crossPlatformOptions.timeout || 60000,
+        options.signal,
+      )) as PublicKeyCredential | null;
       if (!publicKeyCredential) {
-        const error = new Error('No credential found');
-        (error as any).code = this.ErrorCodes.NO_CREDENTIAL;
-        throw error;
+        throw createPasskeyError('NO_CREDENTIAL', 'No credential found');
+      }
+      if (browserJSON) {
+        return this.fromAuthenticationJSON(publicKeyCredential.toJSON());
       }
       const assertionResponse = publicKeyCredential.response as AuthenticatorAssertionResponse;
       return {
@@ -208,7 +186,7 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
         authenticatorAttachment: this.toAuthenticatorAttachment(
           (publicKeyCredential as any).authenticatorAttachment as string | undefined,
         ),
-        clientExtensionResults: publicKeyCredential.getClientExtensionResults?.() ?? {},
+        clientExtensionResults: encodeExtensionOutputs(publicKeyCredential.getClientExtensionResults?.()),
         response: {
           clientDataJSON: this.toBase64url(new Uint8Array(assertionResponse.clientDataJSON)),
           authenticatorData: this.toBase64url(new Uint8Array(assertionResponse.authenticatorData)),
@@ -218,32 +196,16 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
             : undefined,
         },
       };
-    } catch (error: any) {
-      // Map DOMException to Android error codes
-      if (!error.code && error.name) {
-        switch (error.name) {
-          case 'NotAllowedError':
-          case 'AbortError':
-            error.code = this.ErrorCodes.CANCELLED;
-            break;
-          case 'SecurityError':
-            error.code = this.ErrorCodes.DOM;
-            break;
-          case 'NotSupportedError':
-            error.code = this.ErrorCodes.UNSUPPORTED;
-            break;
-          default:
-            error.code = error.code || this.ErrorCodes.UNKNOWN;
-        }
-      }
-      console.error('Passkey authentication failed:', error.message, 'Code:', error.code);
-      throw error;
+    } catch (error) {
+      const passkeyError = mapPluginError(error, { ceremony: 'get', platform: 'web' });
+      console.error('Passkey authentication failed:', passkeyError.message, 'Code:', passkeyError.code);
+      throw passkeyError;
     }
   }
 
   /**
    * Converts plugin format to WebAuthn API format for credential creation
-   * Transforms base64url encoded strings to Uint8Arrays as required by WebAuthn
+   * Transforms base64url encoded strings (including PRF salts and largeBlob writes) to ArrayBuffers as required by WebAuthn
    * @param safe - Creation options with base64url encoded binary fields
    * @returns Native WebAuthn creation options with Uint8Array fields
    */
@@ -260,7 +222,9 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
       authenticatorSelection: safe.authenticatorSelection,
       timeout: safe.timeout,
       attestation: safe.attestation,
-      extensions: safe.extensions,
+      // Not in the DOM typings yet; browsers without hint support ignore it
+      ...(safe.hints ? ({ hints: safe.hints } as Record<string, unknown>) : {}),
+      extensions: decodeExtensionInputs(safe.extensions),
       excludeCredentials: safe.excludeCredentials?.map((cred) => ({
         id: this.base64urlToArrayBuffer(cred.id),
         type: 'public-key' as const,
@@ -306,7 +270,7 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
 
   /**
    * Converts plugin format to WebAuthn API format for authentication
-   * Transforms base64url encoded strings to Uint8Arrays
+   * Transforms base64url encoded strings (including PRF salts and largeBlob writes) to ArrayBuffers
    * @param crossPlatform - Authentication options with base64url encoded fields
    * @returns Native WebAuthn request options with Uint8Array fields
    */
@@ -323,10 +287,302 @@ export class WebPasskeyPlugin extends WebPlugin implements PasskeyPlugin {
       rpId: crossPlatform.rpId,
       timeout: crossPlatform.timeout,
       userVerification: crossPlatform.userVerification,
+      ...(crossPlatform.hints ? ({ hints: crossPlatform.hints } as Record<string, unknown>) : {}),
+      extensions: decodeExtensionInputs(crossPlatform.extensions),
+    };
+  }
+
+  /**
+   * Plugin creation options as WebAuthn Level 3 JSON for `PublicKeyCredential.parseCreationOptionsFromJSON()`
+   * The plugin already uses the JSON field names and base64url encoding, so only the shape changes
+   */
+  private toCreationOptionsJSON(safe: PublicKeyCreationOptions): PublicKeyCredentialCreationOptionsJSON {
+    return {
+      challenge: safe.challenge,
+      rp: safe.rp,
+      user: { id: safe.user.id, name: safe.user.name, displayName: safe.user.displayName },
+      pubKeyCredParams: safe.pubKeyCredParams,
+      authenticatorSelection: safe.authenticatorSelection,
+      timeout: safe.timeout,
+      attestation: safe.attestation,
+      hints: safe.hints,
+      extensions: safe.extensions,
+      excludeCredentials: safe.excludeCredentials?.map((cred) => ({
+        id: cred.id,
+        type: 'public-key',
+        transports: cred.transports,
+      })),
+    };
+  }
+
+  /**
+   * Plugin request options as WebAuthn Level 3 JSON for `PublicKeyCredential.parseRequestOptionsFromJSON()`
+   */
+  private toRequestOptionsJSON(crossPlatform: PublicKeyAuthenticationOptions): PublicKeyCredentialRequestOptionsJSON {
+    return {
+      challenge: crossPlatform.challenge,
+      allowCredentials: crossPlatform.allowCredentials?.map((cred) => ({
+        id: cred.id,
+        type: 'public-key',
+        transports: cred.transports,
+      })),
+      rpId: crossPlatform.rpId,
+      timeout: crossPlatform.timeout,
+      userVerification: crossPlatform.userVerification,
+      hints: crossPlatform.hints,
       extensions: crossPlatform.extensions,
     };
   }
 
+  private fromRegistrationJSON(json: RegistrationJSON): PasskeyCreateResult {
+    return {
+      id: json.id,
+      rawId: json.rawId,
+      type: 'public-key',
+      authenticatorAttachment: this.toAuthenticatorAttachment(json.authenticatorAttachment),
+      clientExtensionResults: encodeExtensionOutputs(json.clientExtensionResults),
+      response: {
+        attestationObject: json.response.attestationObject,
+        clientDataJSON: json.response.clientDataJSON,
+        authenticatorData: json.response.authenticatorData,
+        publicKey: json.response.publicKey,
+        publicKeyAlgorithm: json.response.publicKeyAlgorithm,
+        transports: json.response.transports,
+      },
+    };
+  }
+
+  private fromAuthenticationJSON(json: AuthenticationJSON): PasskeyAuthResult {
+    return {
+      id: json.id,
+      rawId: json.rawId,
+      type: 'public-key',
+      authenticatorAttachment: this.toAuthenticatorAttachment(json.authenticatorAttachment),
+      clientExtensionResults: encodeExtensionOutputs(json.clientExtensionResults),
+      response: {
+        clientDataJSON: json.response.clientDataJSON,
+        authenticatorData: json.response.authenticatorData,
+        signature: json.response.signature,
+        userHandle: json.response.userHandle ?? undefined,
+      },
+    };
+  }
+
+  /**
+   * The browser's `PublicKeyCredential` when it parses WebAuthn Level 3 JSON options and serializes credentials with
+   * `toJSON()`; ceremonies then leave the binary conversions to the browser
+   */
+  private getBrowserJSONSupport(): BrowserJSONSupport | undefined {
+    const credential = (globalThis as any).PublicKeyCredential;
+    if (
+      typeof credential?.parseCreationOptionsFromJSON !== 'function' ||
+      typeof credential.parseRequestOptionsFromJSON !== 'function' ||
+      typeof credential.prototype?.toJSON !== 'function'
+    ) {
+      return undefined;
+    }
+
+    return credential;
+  }
+
+  /**
+   * Verifies the browser can run a conditional (autofill) request and the page has an input to attach it to
+   * @throws PasskeyError with UNSUPPORTED_ERROR or INVALID_INPUT code
+   */
+  private async assertConditionalMediationReady(): Promise<void> {
+    const isAvailable = await (globalThis as any).PublicKeyCredential?.isConditionalMediationAvailable?.();
+    if (!isAvailable) {
+      throw createPasskeyError(
+        'UNSUPPORTED_ERROR',
+        'Browser does not support WebAuthn autofill (conditional mediation)',
+      );
+    }
+
+    if (typeof document !== 'undefined' && document.querySelectorAll("input[autocomplete$='webauthn']").length < 1) {
+      throw createPasskeyError(
+        'INVALID_INPUT',
+        'No <input> with "webauthn" as the only or last value in its `autocomplete` attribute was detected',
+      );
+    }
+  }
+
+  /**
+   * Cancels the in-flight createPasskey/authenticate call, which rejects with INTERRUPTED
+   */
+  async cancelOperation(): Promise<void> {
+    this.pendingCeremony?.abort(createPasskeyError('INTERRUPTED', 'Passkey operation was cancelled'));
+  }
+
+  /**
+   * Reports passkey support in this browser
+   * Prefers `PublicKeyCredential.getClientCapabilities()` and falls back to the individual feature checks
+   * (`isUserVerifyingPlatformAuthenticatorAvailable`, `isConditionalMediationAvailable`, signal method presence)
+   * @returns Promise resolving to capabilities; all false when WebAuthn is unavailable
+   */
+  async getCapabilities(): Promise<PasskeyCapabilities> {
+    const credential = (globalThis as any).PublicKeyCredential;
+    if (!credential) {
+      return {
+        platformAuthenticator: false,
+        conditionalMediation: false,
+        hybridTransport: false,
+        relatedOrigins: false,
+        extensions: { prf: false, largeBlob: false },
+        signals: { unknownCredential: false, allAcceptedCredentials: false, currentUserDetails: false },
+      };
+    }
+
+    const clientCapabilities: Record<string, boolean> =
+      (await this.safeCapabilityCheck(() => credential.getClientCapabilities?.())) ?? {};
+    const platformAuthenticator =
+      clientCapabilities.userVerifyingPlatformAuthenticator ??
+      (await this.safeCapabilityCheck(() => credential.isUserVerifyingPlatformAuthenticatorAvailable?.()));
+    const conditionalMediation =
+      clientCapabilities.conditionalGet ??
+      (await this.safeCapabilityCheck(() => credential.isConditionalMediationAvailable?.()));
+
+    return {
+      platformAuthenticator: platformAuthenticator === true,
+      conditionalMediation: conditionalMediation === true,
+      hybridTransport: clientCapabilities.hybridTransport === true,
+      relatedOrigins: clientCapabilities.relatedOrigins === true,
+      extensions: {
+        prf: clientCapabilities['extension:prf'] === true,
+        largeBlob: clientCapabilities['extension:largeBlob'] === true,
+      },
+      signals: {
+        unknownCredential:
+          clientCapabilities.signalUnknownCredential ?? typeof credential.signalUnknownCredential === 'function',
+        allAcceptedCredentials:
+          clientCapabilities.signalAllAcceptedCredentials ??
+          typeof credential.signalAllAcceptedCredentials === 'function',
+        currentUserDetails:
+          clientCapabilities.signalCurrentUserDetails ?? typeof credential.signalCurrentUserDetails === 'function',
+      },
+    };
+  }
+
+  /**
+   * Signals via `PublicKeyCredential.signalUnknownCredential()` that the server no longer knows a credential
+   * Resolves as a no-op when the browser does not implement the Signal API
+   */
+  async signalUnknownCredential(options: PasskeyUnknownCredentialOptions): Promise<void> {
+    await this.sendSignal('signalUnknownCredential', {
+      rpId: options.rpId,
+      credentialId: options.credentialId,
+    });
+  }
+
+  /**
+   * Signals via `PublicKeyCredential.signalAllAcceptedCredentials()` which credentials the server accepts for a user
+   * Resolves as a no-op when the browser does not implement the Signal API
+   */
+  async signalAllAcceptedCredentials(options: PasskeyAllAcceptedCredentialsOptions): Promise<void> {
+    await this.sendSignal('signalAllAcceptedCredentials', {
+      rpId: options.rpId,
+      userId: options.userId,
+      allAcceptedCredentialIds: options.allAcceptedCredentialIds,
+    });
+  }
+
+  /**
+   * Signals via `PublicKeyCredential.signalCurrentUserDetails()` the user's current name and display name
+   * Resolves as a no-op when the browser does not implement the Signal API
+   */
+  async signalCurrentUserDetails(options: PasskeyCurrentUserDetailsOptions): Promise<void> {
+    await this.sendSignal('signalCurrentUserDetails', {
+      rpId: options.rpId,
+      userId: options.userId,
+      name: options.name,
+      displayName: options.displayName,
+    });
+  }
+
+  /**
+   * Calls a `PublicKeyCredential.signal*` method if the browser has it
+   * The browser decodes the base64url identifiers itself; a TypeError means one was malformed
+   */
+  private async sendSignal(method: string, options: Record<string, unknown>): Promise<void> {
+    const credential = (globalThis as any).PublicKeyCredential;
+    if (typeof credential?.[method] !== 'function') {
+      return;
+    }
+
+    try {
+      await credential[method](options);
+    } catch (error) {
+      const passkeyError = mapPluginError(error, { platform: 'web' });
+      console.error('Passkey signal failed:', passkeyError.message, 'Code:', passkeyError.code);
+      throw passkeyError;
+    }
+  }
+
+  /**
+   * Runs a browser feature check, treating a missing method or a rejection as "unknown"
+   */
+  private async safeCapabilityCheck<T>(check: () => Promise<T> | undefined): Promise<T | undefined> {
+    try {
+      return await check();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Runs a navigator.credentials call under an AbortController that is aborted on timeout,
+   * when the caller's signal fires, or when another ceremony starts
+   * @param request - Starts the WebAuthn call with the controller's signal
+   * @param timeout - Milliseconds before the call is aborted with TIMEOUT; 0 disables it
+   * @param externalSignal - Caller-provided signal; aborting it rejects with INTERRUPTED
+   */
+  private async runCeremony<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    timeout: number,
+    externalSignal?: AbortSignal,
+  ): Promise<T> {
+    if (externalSignal?.aborted) {
+      throw createPasskeyError('INTERRUPTED', 'Passkey operation was aborted');
+    }
+
+    // A newer ceremony supersedes this one (e.g. leaving passkey autofill for a modal sign-in)
+    this.pendingCeremony?.abort(createPasskeyError('INTERRUPTED', 'Superseded by a new passkey ceremony'));
+    const controller = new AbortController();
+    this.pendingCeremony = controller;
+
+    const onExternalAbort = () => controller.abort(createPasskeyError('INTERRUPTED', 'Passkey operation was aborted'));
+    externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+
+    // Browsers reject with NotAllowedError both when the user dismisses the dialog and when `publicKey.timeout`
+    // elapses on their side; once the deadline has passed it can only be the timeout
+    const deadline = timeout > 0 ? Date.now() + timeout : undefined;
+    const timer =
+      timeout > 0
+        ? setTimeout(
+            () => controller.abort(createPasskeyError('TIMEOUT', `Operation timed out after ${timeout}ms`)),
+            timeout,
+          )
+        : undefined;
+
+    try {
+      return await request(controller.signal);
+    } catch (error) {
+      // Browsers differ in whether they reject with the abort reason; surface our coded reason consistently
+      if (controller.signal.aborted && controller.signal.reason instanceof PasskeyError) {
+        throw controller.signal.reason;
+      }
+      if (deadline !== undefined && Date.now() >= deadline && (error as Error)?.name === 'NotAllowedError') {
+        throw createPasskeyError('TIMEOUT', `Operation timed out after ${timeout}ms`, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+      if (this.pendingCeremony === controller) {
+        this.pendingCeremony = undefined;
+      }
+    }
+  }
+
   private toOptionalBase64url(value?: ArrayBuffer | null): string | undefined {
     if (!value) {
       return undefined;
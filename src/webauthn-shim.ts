@@ -0,0 +1,297 @@
+/**
+ * Opt-in `navigator.credentials` shim for the native WebView.
+ *
+ * Third-party login SDKs call `navigator.credentials.create()` / `get()` themselves, which bypasses the plugin and
+ * fails in WebViews without WebAuthn support such as Android's. The shim replaces both methods: BufferSource options
+ * are encoded to base64url, the ceremony runs through `PasskeyPlugin`, and the result is rebuilt as a
+ * `PublicKeyCredential`-like object. Calls without `publicKey` (passwords, federated credentials) go to the original
+ * methods.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialDescriptorJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/browser';
+
+import { withoutUndefined } from './adapter-options.js';
+import { asWebAuthnJSON } from './adapter.js';
+import type { UnsupportedOptionsHandling } from './adapter.js';
+import { parseAttestationObject } from './attestation.js';
+import type {
+  PasskeyExtensionInputs,
+  PasskeyExtensionOutputs,
+  PasskeyMediation,
+  PasskeyPlugin,
+} from './definitions.js';
+import { fromBase64Url, toBase64Url } from './encoding.js';
+import { createPasskeyError } from './errors.js';
+import { decodeExtensionOutputs, encodeExtensionInputs, encodeExtensionOutputs } from './extensions.js';
+import type { ExtensionInputsLike } from './extensions.js';
+
+export interface WebAuthnShimOptions {
+  /** Handling of option fields the plugin cannot use. Defaults to `'warn'`. */
+  unsupportedOptions?: UnsupportedOptionsHandling;
+}
+
+type CredentialsMethod = 'create' | 'get';
+
+interface InstalledShim {
+  container: CredentialsContainer;
+  /** Own descriptors replaced by the shim; undefined when the method was inherited from the prototype. */
+  replaced: Record<CredentialsMethod, PropertyDescriptor | undefined>;
+  /** Set when the shim had to define `navigator.credentials` itself. */
+  definedContainer: boolean;
+  /** Own `navigator.credentials` descriptor shadowed by the defined container; undefined when there was none. */
+  replacedContainer: PropertyDescriptor | undefined;
+}
+
+type CredentialsOptions = CredentialCreationOptions | CredentialRequestOptions;
+
+let installed: InstalledShim | undefined;
+
+function encodeBuffer(value: BufferSource): string {
+  const bytes = ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value);
+  return toBase64Url(bytes);
+}
+
+function decodeBuffer(value: string): ArrayBuffer {
+  const bytes = fromBase64Url(value);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function encodeDescriptors(
+  descriptors: PublicKeyCredentialDescriptor[] | undefined,
+): PublicKeyCredentialDescriptorJSON[] | undefined {
+  return descriptors?.map((descriptor) =>
+    withoutUndefined({
+      id: encodeBuffer(descriptor.id),
+      type: descriptor.type,
+      transports: descriptor.transports as PublicKeyCredentialDescriptorJSON['transports'],
+    }),
+  );
+}
+
+function encodeExtensions(
+  extensions: AuthenticationExtensionsClientInputs | undefined,
+): PasskeyExtensionInputs | undefined {
+  return encodeExtensionInputs(extensions as ExtensionInputsLike | undefined);
+}
+
+// `hints` is newer than the DOM typings, and unknown members are kept so the converters can report them
+function creationOptionsToJSON(publicKey: PublicKeyCredentialCreationOptions): PublicKeyCredentialCreationOptionsJSON {
+  return withoutUndefined({
+    ...(publicKey as object),
+    challenge: encodeBuffer(publicKey.challenge),
+    user: { ...publicKey.user, id: encodeBuffer(publicKey.user.id) },
+    excludeCredentials: encodeDescriptors(publicKey.excludeCredentials),
+    extensions: encodeExtensions(publicKey.extensions),
+  }) as PublicKeyCredentialCreationOptionsJSON;
+}
+
+function requestOptionsToJSON(publicKey: PublicKeyCredentialRequestOptions): PublicKeyCredentialRequestOptionsJSON {
+  return withoutUndefined({
+    ...(publicKey as object),
+    challenge: encodeBuffer(publicKey.challenge),
+    allowCredentials: encodeDescriptors(publicKey.allowCredentials),
+    extensions: encodeExtensions(publicKey.extensions),
+  }) as PublicKeyCredentialRequestOptionsJSON;
+}
+
+/**
+ * Lets `instanceof` checks pass when the WebView defines the WebAuthn interfaces; own members shadow their getters.
+ */
+function withPrototype<T extends object>(value: T, interfaceName: string): T {
+  const constructor: unknown = Reflect.get(globalThis, interfaceName);
+  if (typeof constructor === 'function' && constructor.prototype) {
+    Object.setPrototypeOf(value, constructor.prototype);
+  }
+
+  return value;
+}
+
+// The adapter fills `clientExtensionResults` with the plugin's JSON-safe outputs; encoding them again only retypes them
+function getExtensionOutputs(json: RegistrationResponseJSON | AuthenticationResponseJSON): PasskeyExtensionOutputs {
+  return encodeExtensionOutputs(json.clientExtensionResults);
+}
+
+function toRegistrationCredential(json: RegistrationResponseJSON): PublicKeyCredential {
+  const { response } = json;
+  const clientExtensionResults = getExtensionOutputs(json);
+  const attestationResponse = withPrototype(
+    {
+      clientDataJSON: decodeBuffer(response.clientDataJSON),
+      attestationObject: decodeBuffer(response.attestationObject),
+      getTransports: () => [...(response.transports ?? [])],
+      getPublicKey: () => (response.publicKey ? decodeBuffer(response.publicKey) : null),
+      getPublicKeyAlgorithm: () => response.publicKeyAlgorithm,
+      getAuthenticatorData: () => {
+        if (response.authenticatorData) {
+          return decodeBuffer(response.authenticatorData);
+        }
+
+        const { authData } = parseAttestationObject(response.attestationObject);
+        return authData.buffer.slice(authData.byteOffset, authData.byteOffset + authData.byteLength);
+      },
+    },
+    'AuthenticatorAttestationResponse',
+  );
+
+  return withPrototype(
+    {
+      id: json.id,
+      rawId: decodeBuffer(json.rawId),
+      type: 'public-key',
+      authenticatorAttachment: json.authenticatorAttachment ?? null,
+      response: attestationResponse,
+      getClientExtensionResults: () => decodeExtensionOutputs(clientExtensionResults),
+      toJSON: () => json,
+    },
+    'PublicKeyCredential',
+  ) as unknown as PublicKeyCredential;
+}
+
+function toAuthenticationCredential(json: AuthenticationResponseJSON): PublicKeyCredential {
+  const { response } = json;
+  const clientExtensionResults = getExtensionOutputs(json);
+  const assertionResponse = withPrototype(
+    {
+      clientDataJSON: decodeBuffer(response.clientDataJSON),
+      authenticatorData: decodeBuffer(response.authenticatorData),
+      signature: decodeBuffer(response.signature),
+      userHandle: response.userHandle ? decodeBuffer(response.userHandle) : null,
+    },
+    'AuthenticatorAssertionResponse',
+  );
+
+  return withPrototype(
+    {
+      id: json.id,
+      rawId: decodeBuffer(json.rawId),
+      type: 'public-key',
+      authenticatorAttachment: json.authenticatorAttachment ?? null,
+      response: assertionResponse,
+      getClientExtensionResults: () => decodeExtensionOutputs(clientExtensionResults),
+      toJSON: () => json,
+    },
+    'PublicKeyCredential',
+  ) as unknown as PublicKeyCredential;
+}
+
+function getOriginal(shim: InstalledShim, method: CredentialsMethod) {
+  const original = shim.replaced[method]?.value ?? Object.getPrototypeOf(shim.container)?.[method];
+  if (typeof original !== 'function') {
+    return undefined;
+  }
+
+  return original.bind(shim.container) as (options?: CredentialsOptions) => Promise<Credential | null>;
+}
+
+async function passThrough(shim: InstalledShim, method: CredentialsMethod, options?: CredentialsOptions) {
+  const original = getOriginal(shim, method);
+  if (!original) {
+    throw createPasskeyError('UNSUPPORTED_ERROR', `navigator.credentials.${method} is not available`);
+  }
+
+  return original(options);
+}
+
+function restore(target: object, property: PropertyKey, descriptor: PropertyDescriptor | undefined): void {
+  if (descriptor) {
+    Object.defineProperty(target, property, descriptor);
+  } else {
+    Reflect.deleteProperty(target, property);
+  }
+}
+
+/**
+ * Removes the shim installed by `installWebAuthnShim()` and restores the original `navigator.credentials` methods.
+ * Does nothing when no shim is installed.
+ */
+export function uninstallWebAuthnShim(): void {
+  const shim = installed;
+  if (!shim) {
+    return;
+  }
+
+  installed = undefined;
+  if (shim.definedContainer) {
+    restore(navigator, 'credentials', shim.replacedContainer);
+    return;
+  }
+
+  restore(shim.container, 'create', shim.replaced.create);
+  restore(shim.container, 'get', shim.replaced.get);
+}
+
+/**
+ * Replaces `navigator.credentials.create()` / `get()` with calls to `plugin`, so WebAuthn calls made by code inside
+ * the WebView use the native passkey APIs. Only installs on native platforms; on web the browser already implements
+ * WebAuthn and the shim would route the web plugin back into itself. Installing again replaces the previous shim.
+ * @returns A function that uninstalls the shim.
+ */
+export function installWebAuthnShim(plugin: PasskeyPlugin, options: WebAuthnShimOptions = {}): () => void {
+  if (!Capacitor.isNativePlatform() || typeof navigator === 'undefined') {
+    return () => undefined;
+  }
+
+  uninstallWebAuthnShim();
+
+  const adapter = asWebAuthnJSON(plugin, { unsupportedOptions: options.unsupportedOptions });
+  const definedContainer = !navigator.credentials;
+  const replacedContainer = definedContainer ? Object.getOwnPropertyDescriptor(navigator, 'credentials') : undefined;
+  if (definedContainer) {
+    Object.defineProperty(navigator, 'credentials', { value: {}, configurable: true });
+  }
+
+  const container = navigator.credentials;
+  const shim: InstalledShim = {
+    container,
+    replaced: {
+      create: Object.getOwnPropertyDescriptor(container, 'create'),
+      get: Object.getOwnPropertyDescriptor(container, 'get'),
+    },
+    definedContainer,
+    replacedContainer,
+  };
+
+  const create = async (createOptions?: CredentialCreationOptions): Promise<Credential | null> => {
+    if (!createOptions?.publicKey) {
+      return passThrough(shim, 'create', createOptions);
+    }
+
+    const json = await adapter.create({
+      publicKey: creationOptionsToJSON(createOptions.publicKey),
+      signal: createOptions.signal,
+    });
+    return toRegistrationCredential(json);
+  };
+
+  const get = async (requestOptions?: CredentialRequestOptions): Promise<Credential | null> => {
+    if (!requestOptions?.publicKey) {
+      return passThrough(shim, 'get', requestOptions);
+    }
+
+    const json = await adapter.get({
+      publicKey: requestOptionsToJSON(requestOptions.publicKey),
+      mediation: requestOptions.mediation as PasskeyMediation | undefined,
+      signal: requestOptions.signal,
+    });
+    return toAuthenticationCredential(json);
+  };
+
+  Object.defineProperty(container, 'create', { value: create, configurable: true, writable: true });
+  Object.defineProperty(container, 'get', { value: get, configurable: true, writable: true });
+  installed = shim;
+
+  return () => {
+    if (installed === shim) {
+      uninstallWebAuthnShim();
+    }
+  };
+}
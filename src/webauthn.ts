@@ -0,0 +1,35 @@
+export { decodeCbor, decodeCborFirst, encodeCbor, isCborMap, CborTagged } from './cbor.js';
+export type { CborDecodeResult, CborMap, CborValue } from './cbor.js';
+export {
+  COSE_ALGORITHM,
+  COSE_CURVE,
+  COSE_KEY_TYPE,
+  coseKeyToRawPublicKey,
+  coseKeyToSpki,
+  getCoseKeyAlgorithm,
+  parseCoseKey,
+} from './cose.js';
+export type { CoseAlgorithm, CoseKey } from './cose.js';
+export { parseAttestationObject } from './attestation.js';
+export type { AttestationObject } from './attestation.js';
+export {
+  getCredentialBackupState,
+  getRegistrationPublicKey,
+  parseAuthenticatorData,
+  parseAuthenticatorDataFlags,
+} from './authenticator-data.js';
+export type {
+  AuthenticatorDataFlags,
+  AuthenticatorDataSource,
+  CredentialPublicKey,
+  ParsedAuthenticatorData,
+} from './authenticator-data.js';
+export { verifyAuthentication, verifyRegistration } from './verify.js';
+export type {
+  AuthenticationVerification,
+  RegistrationVerification,
+  VerificationCredential,
+  VerifyAuthenticationOptions,
+  VerifyCeremonyOptions,
+  VerifyRegistrationOptions,
+} from './verify.js';
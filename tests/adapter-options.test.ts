@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  toCreationOptionsJSON,
+  toPasskeyAuthenticationOptions,
+  toPasskeyCreateOptions,
+  toRequestOptionsJSON,
+} from '../src/adapter-options';
+
+// Deterministic PRNG (mulberry32) so a failing case reproduces
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const pick = <T>(values: readonly T[]): T => values[Math.floor(next() * values.length)];
+  const subset = <T>(values: readonly T[]): T[] => values.filter(() => next() < 0.5);
+  const bytes = (length: number) => new Uint8Array(Array.from({ length }, () => Math.floor(next() * 256)));
+  const id = () => Buffer.from(bytes(1 + Math.floor(next() * 32))).toString('base64url');
+
+  // Each optional member is present half of the time
+  const optional = <T>(key: string, value: () => T): Record<string, T> => (next() < 0.5 ? { [key]: value() } : {});
+
+  return { pick, subset, bytes, id, optional };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const TRANSPORTS = ['usb', 'nfc', 'ble', 'internal', 'hybrid', 'smart-card'] as const;
+const HINTS = ['security-key', 'client-device', 'hybrid'] as const;
+
+function descriptors(random: Random) {
+  return Array.from({ length: 1 + Math.floor(random.bytes(1)[0] / 64) }, () => ({
+    id: random.id(),
+    type: 'public-key' as const,
+    ...random.optional('transports', () => random.subset(TRANSPORTS)),
+  }));
+}
+
+function extensions(random: Random) {
+  return {
+    ...random.optional('credProps', () => true),
+    ...random.optional('prf', () => ({
+      eval: { first: random.bytes(32).buffer, ...random.optional('second', () => random.bytes(32).buffer) },
+    })),
+  };
+}
+
+function creationOptionsJSON(random: Random): any {
+  return {
+    challenge: random.id(),
+    rp: { name: 'Example', ...random.optional('id', () => random.pick(['example.com', 'login.example.com'])) },
+    user: { id: random.id(), name: 'alice', displayName: random.pick(['Alice', '']) },
+    pubKeyCredParams: random.subset([-7, -8, -257]).map((alg) => ({ type: 'public-key', alg })),
+    ...random.optional('timeout', () => random.pick([0, 30000, 60000])),
+    ...random.optional('attestation', () => random.pick(['none', 'direct'])),
+    ...random.optional('hints', () => random.subset(HINTS)),
+    ...random.optional('excludeCredentials', () => descriptors(random)),
+    ...random.optional('authenticatorSelection', () => ({
+      ...random.optional('authenticatorAttachment', () => random.pick(['platform', 'cross-platform'])),
+      ...random.optional('residentKey', () => random.pick(['required', 'preferred', 'discouraged'])),
+      ...random.optional('requireResidentKey', () => random.pick([true, false])),
+      ...random.optional('userVerification', () => random.pick(['required', 'preferred'])),
+    })),
+    ...random.optional('extensions', () => extensions(random)),
+  };
+}
+
+function requestOptionsJSON(random: Random): any {
+  return {
+    challenge: random.id(),
+    ...random.optional('rpId', () => 'example.com'),
+    ...random.optional('timeout', () => random.pick([0, 60000])),
+    ...random.optional('userVerification', () => random.pick(['required', 'preferred', 'discouraged'])),
+    ...random.optional('hints', () => random.subset(HINTS)),
+    ...random.optional('allowCredentials', () => descriptors(random)),
+    ...random.optional('extensions', () => extensions(random)),
+  };
+}
+
+describe('simplewebauthn option conversion', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('maps every supported field explicitly', () => {
+    const salt = new Uint8Array([1, 2, 3]).buffer;
+    const { publicKey } = toPasskeyCreateOptions({
+      challenge: 'YQ',
+      rp: { id: 'example.com', name: 'Example' },
+      user: { id: 'dQ', name: 'alice', displayName: 'Alice' },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      hints: ['client-device'],
+      excludeCredentials: [{ id: 'Yw', type: 'public-key', transports: ['hybrid'] }],
+      extensions: { prf: { eval: { first: salt } } } as any,
+    });
+
+    expect(publicKey).toEqual({
+      challenge: 'YQ',
+      rp: { id: 'example.com', name: 'Example' },
+      user: { id: 'dQ', name: 'alice', displayName: 'Alice' },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      hints: ['client-device'],
+      excludeCredentials: [{ id: 'Yw', type: 'public-key', transports: ['hybrid'] }],
+      extensions: { prf: { eval: { first: 'AQID' } } },
+    });
+  });
+
+  it('round-trips generated options in both directions', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    for (let seed = 1; seed <= 200; seed += 1) {
+      const random = createRandom(seed);
+      const creation = creationOptionsJSON(random);
+      const request = requestOptionsJSON(random);
+
+      const createOptions = toPasskeyCreateOptions(creation, { unsupported: 'reject' });
+      expect(toCreationOptionsJSON(createOptions, { unsupported: 'reject' }), `seed ${seed}`).toEqual(creation);
+      expect(toPasskeyCreateOptions(toCreationOptionsJSON(createOptions)), `seed ${seed}`).toEqual(createOptions);
+
+      const authOptions = toPasskeyAuthenticationOptions(request, { unsupported: 'reject' });
+      expect(toRequestOptionsJSON(authOptions, { unsupported: 'reject' }), `seed ${seed}`).toEqual(request);
+      expect(toPasskeyAuthenticationOptions(toRequestOptionsJSON(authOptions)), `seed ${seed}`).toEqual(authOptions);
+    }
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('drops unsupported fields and reports them as configured', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const optionsJSON: any = {
+      challenge: 'YQ',
+      rp: { name: 'Example' },
+      user: { id: 'dQ', name: 'alice', displayName: 'Alice' },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      attestationFormats: ['packed'],
+      excludeCredentials: [
+        { id: 'Yw', type: 'future-type' },
+        { id: 'ZA', type: 'public-key' },
+      ],
+      mediation: 'conditional',
+    };
+
+    const { publicKey } = toPasskeyCreateOptions(optionsJSON);
+    expect(publicKey).not.toHaveProperty('attestationFormats');
+    expect(publicKey).not.toHaveProperty('mediation');
+    expect(publicKey.excludeCredentials).toEqual([{ id: 'ZA', type: 'public-key' }]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('attestationFormats');
+
+    toPasskeyCreateOptions(optionsJSON, { unsupported: 'ignore' });
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    expect(() => toPasskeyCreateOptions(optionsJSON, { unsupported: 'reject' })).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_INPUT',
+        issues: [
+          { path: 'mediation', message: 'is not a known option' },
+          { path: 'attestationFormats', message: 'is not supported by the platform credential APIs' },
+          { path: 'excludeCredentials[0].type', message: "'future-type' is not a supported credential type" },
+        ],
+      }),
+    );
+
+    expect(() =>
+      toRequestOptionsJSON(
+        { publicKey: { challenge: 'YQ', authenticatorAttachment: 'platform' } },
+        { unsupported: 'reject' },
+      ),
+    ).toThrow(/publicKey\.authenticatorAttachment has no WebAuthn JSON counterpart/);
+  });
+});
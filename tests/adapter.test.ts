@@ -1,7 +1,8 @@
 import { describe, expect, it, vi } from 'vitest';
 
-import { asSimpleWebAuthn } from '../src/adapter';
+import { asGitHubWebAuthnJSON, asSimpleWebAuthn, asWebAuthnJSON } from '../src/adapter';
 import type { PasskeyPlugin } from '../src/definitions';
+import { CapacitorStorageAdapter, MemoryStorageBackend } from '../src/storage';
 
 describe('asSimpleWebAuthn', () => {
   it('wraps optionsJSON into plugin publicKey for registration', async () => {
@@ -62,4 +63,143 @@ describe('asSimpleWebAuthn', () => {
     expect(result.clientExtensionResults).toEqual({});
     expect(result.response.userHandle).toBeUndefined();
   });
+
+  it('requests conditional mediation when useBrowserAutofill is set', async () => {
+    const authenticate = vi.fn(async () => ({
+      id: 'cred-id',
+      rawId: 'cred-id',
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: 'client-data',
+        authenticatorData: 'auth-data',
+        signature: 'sig',
+      },
+    }));
+    const plugin: PasskeyPlugin = { createPasskey: vi.fn(), authenticate } as unknown as PasskeyPlugin;
+
+    const optionsJSON = { challenge: 'challenge', rpId: 'example.com' } as any;
+    await asSimpleWebAuthn(plugin).startAuthentication({ optionsJSON, useBrowserAutofill: true });
+
+    expect(authenticate).toHaveBeenCalledWith({ publicKey: optionsJSON, mediation: 'conditional' });
+  });
+
+  it('builds allowCredentials from the primary or context-rule credentials', async () => {
+    const authenticate = vi.fn(async () => ({
+      id: 'cred-id',
+      rawId: 'cred-id',
+      type: 'public-key' as const,
+      response: { clientDataJSON: 'client-data', authenticatorData: 'auth-data', signature: 'sig' },
+    }));
+    const plugin = { createPasskey: vi.fn(), authenticate } as unknown as PasskeyPlugin;
+    const storage = new CapacitorStorageAdapter('adapter', { backend: new MemoryStorageBackend() });
+    const credential = { publicKey: new Uint8Array([1]), contractId: 'C1', createdAt: 1 };
+    await storage.save({ ...credential, credentialId: 'primary', isPrimary: true, transports: ['internal'] });
+    await storage.save({ ...credential, credentialId: 'rule-a', contextRuleId: 3 });
+    await storage.save({ ...credential, credentialId: 'rule-b', contextRuleId: 3, transports: ['hybrid'] });
+
+    const adapter = asSimpleWebAuthn(plugin, {
+      allowCredentials: { storage, scope: () => ({ contractId: 'C1' }) },
+    });
+    const optionsJSON = { challenge: 'challenge', rpId: 'example.com' };
+
+    await adapter.startAuthentication({ optionsJSON });
+    expect(authenticate).toHaveBeenLastCalledWith({
+      publicKey: {
+        ...optionsJSON,
+        allowCredentials: [{ id: 'primary', type: 'public-key', transports: ['internal'] }],
+      },
+    });
+
+    await adapter.startAuthentication({ optionsJSON, allowCredentialsScope: { contractId: 'C1', contextRuleId: 3 } });
+    expect(authenticate).toHaveBeenLastCalledWith({
+      publicKey: {
+        ...optionsJSON,
+        allowCredentials: [
+          { id: 'rule-a', type: 'public-key' },
+          { id: 'rule-b', type: 'public-key', transports: ['hybrid'] },
+        ],
+      },
+    });
+
+    const explicit = { ...optionsJSON, allowCredentials: [{ id: 'other', type: 'public-key' as const }] };
+    await adapter.startAuthentication({ optionsJSON: explicit });
+    expect(authenticate).toHaveBeenLastCalledWith({ publicKey: explicit });
+
+    await adapter.startAuthentication({ optionsJSON, useBrowserAutofill: true });
+    expect(authenticate).toHaveBeenLastCalledWith({ publicKey: optionsJSON, mediation: 'conditional' });
+  });
+});
+
+describe('WebAuthn JSON adapters', () => {
+  const creationOptionsJSON = {
+    challenge: 'YQ',
+    rp: { id: 'example.com', name: 'Example' },
+    user: { id: 'dQ', name: 'alice', displayName: 'Alice' },
+    pubKeyCredParams: [{ type: 'public-key' as const, alg: -7 }],
+  };
+
+  function createPlugin() {
+    const createPasskey = vi.fn(async () => ({
+      id: 'cred-id',
+      rawId: 'cred-id',
+      type: 'public-key' as const,
+      response: { attestationObject: 'attestation', clientDataJSON: 'client-data' },
+    }));
+    const authenticate = vi.fn(async () => ({
+      id: 'cred-id',
+      rawId: 'cred-id',
+      type: 'public-key' as const,
+      response: { clientDataJSON: 'client-data', authenticatorData: 'auth-data', signature: 'sig' },
+    }));
+
+    return { createPasskey, authenticate, plugin: { createPasskey, authenticate } as unknown as PasskeyPlugin };
+  }
+
+  it('runs ceremonies through the plugin', async () => {
+    const { createPasskey, authenticate, plugin } = createPlugin();
+    const adapter = asWebAuthnJSON(plugin);
+
+    const registration = await adapter.create({ publicKey: creationOptionsJSON });
+    expect(createPasskey).toHaveBeenCalledWith({ publicKey: creationOptionsJSON });
+    expect(registration).toMatchObject({ id: 'cred-id', type: 'public-key', clientExtensionResults: {} });
+
+    await adapter.get({ publicKey: { challenge: 'Yg', rpId: 'example.com' }, mediation: 'conditional' });
+    expect(authenticate).toHaveBeenCalledWith({
+      publicKey: { challenge: 'Yg', rpId: 'example.com' },
+      mediation: 'conditional',
+    });
+
+    await expect(adapter.create({ publicKey: { ...creationOptionsJSON, challenge: '' } })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      ceremony: 'create',
+    });
+    expect(createPasskey).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns @github/webauthn-json shapes', async () => {
+    const { plugin } = createPlugin();
+    const adapter = asGitHubWebAuthnJSON(plugin);
+
+    await expect(adapter.create({ publicKey: creationOptionsJSON })).resolves.toEqual({
+      type: 'public-key',
+      id: 'cred-id',
+      rawId: 'cred-id',
+      authenticatorAttachment: null,
+      response: { clientDataJSON: 'client-data', attestationObject: 'attestation', transports: [] },
+      clientExtensionResults: {},
+    });
+    await expect(adapter.get({ publicKey: { challenge: 'Yg' } })).resolves.toEqual({
+      type: 'public-key',
+      id: 'cred-id',
+      rawId: 'cred-id',
+      authenticatorAttachment: null,
+      response: { clientDataJSON: 'client-data', authenticatorData: 'auth-data', signature: 'sig', userHandle: null },
+      clientExtensionResults: {},
+    });
+    await expect(adapter.get({ mediation: 'conditional' })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      ceremony: 'get',
+      issues: [{ path: 'publicKey', message: 'must be an object' }],
+    });
+  });
 });
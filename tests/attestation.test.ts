@@ -0,0 +1,118 @@
+import { webcrypto } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+
+import { parseAttestationObject } from '../src/attestation';
+import { getRegistrationPublicKey } from '../src/authenticator-data';
+import { decodeCbor } from '../src/cbor';
+import { COSE_ALGORITHM, parseCoseKey } from '../src/cose';
+
+import { buildAttestationObject, buildAuthData, cborBytes, cborInt, cborMap, cborText } from './fixtures';
+
+const subtle = webcrypto.subtle;
+
+function fromJwk(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64url'));
+}
+
+async function exportSpki(key: webcrypto.CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await subtle.exportKey('spki', key));
+}
+
+describe('decodeCbor', () => {
+  it('decodes maps with integer and text keys, negative ints and byte strings', () => {
+    const decoded = decodeCbor(
+      new Uint8Array(
+        cborMap([
+          [cborInt(1), cborInt(-257)],
+          [cborText('k'), cborBytes(new Uint8Array([1, 2]))],
+        ]),
+      ),
+    ) as Map<unknown, unknown>;
+
+    expect(decoded.get(1)).toBe(-257);
+    expect(Array.from(decoded.get('k') as Uint8Array)).toEqual([1, 2]);
+  });
+
+  it('rejects truncated input and trailing bytes', () => {
+    expect(() => decodeCbor(new Uint8Array([0x58, 0x20, 0x00]))).toThrow(/Invalid CBOR/);
+    expect(() => decodeCbor(new Uint8Array([0x01, 0x02]))).toThrow(/trailing bytes/);
+  });
+});
+
+describe('getRegistrationPublicKey', () => {
+  it('extracts ES256 keys with extra COSE params and trailing extensions', async () => {
+    const { publicKey } = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const jwk = await subtle.exportKey('jwk', publicKey);
+    const coseKey = cborMap([
+      [cborInt(1), cborInt(2)],
+      [cborInt(3), cborInt(-7)],
+      [cborInt(-1), cborInt(1)],
+      [cborInt(-2), cborBytes(fromJwk(jwk.x as string))],
+      [cborInt(-3), cborBytes(fromJwk(jwk.y as string))],
+      [cborInt(2), cborBytes(new Uint8Array([9, 9]))],
+    ]);
+    const extensions = cborMap([[cborText('credProtect'), cborInt(2)]]);
+    const attestationObject = buildAttestationObject(buildAuthData(coseKey, extensions));
+
+    const result = getRegistrationPublicKey({ attestationObject, clientDataJSON: '' });
+
+    expect(result?.algorithm).toBe(COSE_ALGORITHM.ES256);
+    expect(result?.cose).toEqual(new Uint8Array(coseKey));
+    expect(result?.spki).toEqual(await exportSpki(publicKey));
+  });
+
+  it('extracts EdDSA keys', async () => {
+    const { publicKey } = (await subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as {
+      publicKey: webcrypto.CryptoKey;
+    };
+    const jwk = await subtle.exportKey('jwk', publicKey);
+    const coseKey = cborMap([
+      [cborInt(1), cborInt(1)],
+      [cborInt(3), cborInt(-8)],
+      [cborInt(-1), cborInt(6)],
+      [cborInt(-2), cborBytes(fromJwk(jwk.x as string))],
+    ]);
+    const authenticatorData = Buffer.from(buildAuthData(coseKey)).toString('base64url');
+
+    const result = getRegistrationPublicKey({ attestationObject: '', clientDataJSON: '', authenticatorData });
+
+    expect(result?.algorithm).toBe(COSE_ALGORITHM.EdDSA);
+    expect(result?.spki).toEqual(await exportSpki(publicKey));
+  });
+
+  it('extracts RS256 keys', async () => {
+    const { publicKey } = await subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify'],
+    );
+    const jwk = await subtle.exportKey('jwk', publicKey);
+    const coseKey = cborMap([
+      [cborInt(1), cborInt(3)],
+      [cborInt(3), cborInt(-257)],
+      [cborInt(-1), cborBytes(fromJwk(jwk.n as string))],
+      [cborInt(-2), cborBytes(fromJwk(jwk.e as string))],
+    ]);
+
+    const result = getRegistrationPublicKey({
+      attestationObject: buildAttestationObject(buildAuthData(coseKey)),
+      clientDataJSON: '',
+    });
+
+    expect(result?.algorithm).toBe(COSE_ALGORITHM.RS256);
+    expect(result?.spki).toEqual(await exportSpki(publicKey));
+  });
+
+  it('exposes attestation format and rejects unsupported curves', () => {
+    const parsed = parseAttestationObject(buildAttestationObject(buildAuthData(cborMap([]))));
+    expect(parsed.fmt).toBe('none');
+
+    const badKey = new Uint8Array(
+      cborMap([
+        [cborInt(1), cborInt(2)],
+        [cborInt(-1), cborInt(8)],
+      ]),
+    );
+    expect(() => parseCoseKey(badKey)).toThrow(/unsupported EC2 curve/);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { getCredentialBackupState, parseAuthenticatorData } from '../src/authenticator-data';
+
+import { buildAttestationObject, buildAuthData, cborBytes, cborInt, cborMap, cborText } from './fixtures';
+
+const ES256_COSE_KEY = cborMap([
+  [cborInt(1), cborInt(2)],
+  [cborInt(3), cborInt(-7)],
+  [cborInt(-1), cborInt(1)],
+  [cborInt(-2), cborBytes(new Uint8Array(32).fill(2))],
+  [cborInt(-3), cborBytes(new Uint8Array(32).fill(3))],
+]);
+
+function toBase64Url(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+describe('parseAuthenticatorData', () => {
+  it('parses assertion authenticatorData flags and signCount', () => {
+    const bytes = new Uint8Array([...new Uint8Array(32).fill(9), 0x1d, 0x00, 0x00, 0x01, 0x02]);
+
+    const parsed = parseAuthenticatorData({
+      clientDataJSON: '',
+      authenticatorData: toBase64Url(bytes),
+      signature: '',
+    });
+
+    expect(parsed.rpIdHash).toEqual(new Uint8Array(32).fill(9));
+    expect(parsed.signCount).toBe(258);
+    expect(parsed.flags).toMatchObject({
+      userPresent: true,
+      userVerified: true,
+      backupEligible: true,
+      backupState: true,
+      attestedCredentialData: false,
+      extensionData: false,
+    });
+    expect(parsed.credentialId).toBeUndefined();
+    expect(getCredentialBackupState(parsed.flags)).toEqual({ deviceType: 'multiDevice', backedUp: true });
+  });
+
+  it('falls back to attestationObject.authData and decodes attested data and extensions', () => {
+    const extensions = cborMap([[cborText('credProtect'), cborInt(2)]]);
+    const attestationObject = buildAttestationObject(buildAuthData(ES256_COSE_KEY, extensions));
+
+    const parsed = parseAuthenticatorData({ attestationObject, clientDataJSON: '' });
+
+    expect(parsed.aaguid).toBe('00000000-0000-0000-0000-000000000000');
+    expect(parsed.credentialId).toBe(toBase64Url(new Uint8Array(20).fill(7)));
+    expect(parsed.credentialPublicKey?.algorithm).toBe(-7);
+    expect(parsed.extensions).toEqual({ credProtect: 2 });
+    expect(getCredentialBackupState(parsed.flags)).toEqual({ deviceType: 'singleDevice', backedUp: false });
+  });
+
+  it('rejects truncated and trailing data', () => {
+    expect(() => parseAuthenticatorData(new Uint8Array(36))).toThrow(/at least 37 bytes/);
+
+    const withTrailing = new Uint8Array([...buildAuthData(ES256_COSE_KEY), 0xff]);
+    expect(() => parseAuthenticatorData(withTrailing)).toThrow(/trailing bytes/);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { mapPluginError, PasskeyError } from '../src/errors';
+import { createPasskeyError, mapPluginError, PasskeyError } from '../src/errors';
 
 describe('mapPluginError', () => {
   it('maps CANCELLED to NotAllowedError', () => {
@@ -22,4 +22,53 @@ describe('mapPluginError', () => {
     expect(error.name).toBe('UnknownError');
     expect(error.pluginErrorCode).toBe('UNKNOWN_ERROR');
   });
+
+  it('maps DOMExceptions and keeps the cause and context', () => {
+    const cause = new DOMException('The operation either timed out or was not allowed.', 'NotAllowedError');
+    const error = mapPluginError(cause, { ceremony: 'get', platform: 'web' });
+    expect(error).toMatchObject({
+      name: 'NotAllowedError',
+      code: 'CANCELLED',
+      reason: 'user-cancelled',
+      ceremony: 'get',
+      platform: 'web',
+    });
+    expect(error.cause).toBe(cause);
+
+    expect(mapPluginError(new DOMException('rp', 'SecurityError'))).toMatchObject({
+      pluginErrorCode: 'RPID_VALIDATION_ERROR',
+      reason: 'rp-mismatch',
+    });
+    expect(mapPluginError(new DOMException('aborted', 'AbortError')).pluginErrorCode).toBe('INTERRUPTED');
+  });
+
+  it('tells timeouts, cancels and excluded credentials apart', () => {
+    expect(mapPluginError({ code: 'TIMEOUT', message: 'slow' }).reason).toBe('timed-out');
+    expect(mapPluginError({ code: 'CANCELLED', message: 'no' }).reason).toBe('user-cancelled');
+    expect(mapPluginError({ code: 'NO_CREDENTIAL', message: 'none' }).reason).toBe('no-matching-credential');
+
+    const excluded = new DOMException('exists', 'InvalidStateError');
+    expect(mapPluginError(excluded, { ceremony: 'create' })).toMatchObject({
+      name: 'InvalidStateError',
+      code: 'DOM_ERROR',
+      reason: 'excluded-credential-exists',
+    });
+    expect(mapPluginError(excluded, { ceremony: 'get' }).reason).toBeUndefined();
+  });
+
+  it('adds missing context to an existing PasskeyError', () => {
+    const original = createPasskeyError('DOM_ERROR', 'InvalidStateError: credential exists');
+    expect(original.name).toBe('InvalidStateError');
+
+    const error = mapPluginError(original, { ceremony: 'create', platform: 'ios' });
+    expect(error).toMatchObject({ reason: 'excluded-credential-exists', ceremony: 'create', platform: 'ios' });
+    expect(mapPluginError(error)).toBe(error);
+  });
+
+  it('keeps app-defined codes of a PasskeyError', () => {
+    const error = mapPluginError(new PasskeyError('AppError', 'Session locked', 'APP_LOCKED'), { ceremony: 'get' });
+
+    expect(error).toMatchObject({ code: 'APP_LOCKED', name: 'AppError', ceremony: 'get' });
+    expect(error.reason).toBeUndefined();
+  });
 });
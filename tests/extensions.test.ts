@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { asSimpleWebAuthn } from '../src/adapter';
+import type { PasskeyPlugin } from '../src/definitions';
+import { decodeExtensionInputs, encodeExtensionInputs, encodeExtensionOutputs } from '../src/extensions';
+import { WebPasskeyPlugin } from '../src/web';
+
+const salt = new Uint8Array([1, 2, 3, 250]);
+const saltBase64Url = Buffer.from(salt).toString('base64url');
+
+describe('extension conversions', () => {
+  it('decodes PRF salts and largeBlob writes to ArrayBuffers for WebAuthn', () => {
+    const plugin = new WebPasskeyPlugin();
+    const options = plugin.toPublicKeyCredentialRequestOptions({
+      challenge: 'Y2hhbGxlbmdl',
+      extensions: {
+        largeBlob: { write: saltBase64Url },
+        prf: { eval: { first: saltBase64Url }, evalByCredential: { 'cred-1': { first: saltBase64Url, second: '' } } },
+      },
+    });
+    const extensions = options.extensions as any;
+
+    expect(new Uint8Array(extensions.largeBlob.write)).toEqual(salt);
+    expect(new Uint8Array(extensions.prf.eval.first)).toEqual(salt);
+    expect(extensions.prf.eval.second).toBeUndefined();
+    expect(new Uint8Array(extensions.prf.evalByCredential['cred-1'].first)).toEqual(salt);
+  });
+
+  it('round-trips BufferSource inputs through the JSON-safe form', () => {
+    const encoded = encodeExtensionInputs({ credProps: true, prf: { eval: { first: salt.subarray(1) } } });
+
+    expect(encoded).toEqual({
+      credProps: true,
+      prf: { eval: { first: Buffer.from([2, 3, 250]).toString('base64url') } },
+    });
+    expect(new Uint8Array((decodeExtensionInputs(encoded) as any).prf.eval.first)).toEqual(salt.subarray(1));
+  });
+
+  it('encodes binary extension outputs and keeps encoded ones', () => {
+    const outputs = encodeExtensionOutputs({
+      credProps: { rk: true },
+      prf: { enabled: true, results: { first: salt.buffer, second: saltBase64Url } },
+      largeBlob: { blob: salt },
+    });
+
+    expect(outputs).toEqual({
+      credProps: { rk: true },
+      prf: { enabled: true, results: { first: saltBase64Url, second: saltBase64Url } },
+      largeBlob: { blob: saltBase64Url },
+    });
+    expect(encodeExtensionOutputs(undefined)).toEqual({});
+  });
+
+  it('normalizes extensions in asSimpleWebAuthn', async () => {
+    const authenticate = vi.fn(async () => ({
+      id: 'cred-id',
+      rawId: 'cred-id',
+      type: 'public-key' as const,
+      clientExtensionResults: { prf: { results: { first: saltBase64Url } } },
+      response: { clientDataJSON: 'client-data', authenticatorData: 'auth-data', signature: 'sig' },
+    }));
+    const plugin = { createPasskey: vi.fn(), authenticate } as unknown as PasskeyPlugin;
+
+    const result = await asSimpleWebAuthn(plugin).startAuthentication({
+      optionsJSON: { challenge: 'challenge', extensions: { prf: { eval: { first: salt } } } as any },
+    });
+
+    expect(authenticate).toHaveBeenCalledWith({
+      publicKey: { challenge: 'challenge', extensions: { prf: { eval: { first: saltBase64Url } } } },
+    });
+    expect(result.clientExtensionResults).toEqual({ prf: { results: { first: saltBase64Url } } });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Hand-rolled CBOR encoders for building WebAuthn fixtures in tests.
+ */
+
+export function cborHead(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  return [(major << 5) | 25, length >> 8, length & 0xff];
+}
+
+export function cborInt(value: number): number[] {
+  return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+}
+
+export function cborBytes(bytes: Uint8Array): number[] {
+  return [...cborHead(2, bytes.length), ...bytes];
+}
+
+export function cborText(text: string): number[] {
+  const bytes = new TextEncoder().encode(text);
+  return [...cborHead(3, bytes.length), ...bytes];
+}
+
+export function cborMap(entries: [number[], number[]][]): number[] {
+  return [...cborHead(5, entries.length), ...entries.flatMap(([key, value]) => [...key, ...value])];
+}
+
+export function buildAuthData(coseKey: number[], extensions?: number[], baseFlags = 0x45): Uint8Array {
+  const credentialId = new Uint8Array(20).fill(7);
+  const flags = baseFlags | (extensions ? 0x80 : 0);
+  return new Uint8Array([
+    ...new Uint8Array(32).fill(1),
+    flags,
+    0,
+    0,
+    0,
+    5,
+    ...new Uint8Array(16),
+    0,
+    credentialId.length,
+    ...credentialId,
+    ...coseKey,
+    ...(extensions ?? []),
+  ]);
+}
+
+export function buildAttestationObject(authData: Uint8Array): string {
+  const bytes = cborMap([
+    [cborText('fmt'), cborText('none')],
+    [cborText('attStmt'), cborMap([])],
+    [cborText('authData'), cborBytes(authData)],
+  ]);
+  return Buffer.from(bytes).toString('base64url');
+}
+
+interface FakeDatabase {
+  version: number;
+  stores: Map<string, Map<string, unknown>>;
+  connections: Set<{ closed: boolean; onversionchange: (() => void) | null }>;
+}
+
+/**
+ * Minimal in-memory `indexedDB` for `IndexedDBStorageBackend`: versioned opens with upgrades and versionchange,
+ * object stores created only during upgrades, and transactions that complete asynchronously.
+ */
+export function createFakeIndexedDB(): IDBFactory {
+  const databases = new Map<string, FakeDatabase>();
+
+  const connect = (database: FakeDatabase) => {
+    const connection = {
+      closed: false,
+      onversionchange: null as (() => void) | null,
+      get version() {
+        return database.version;
+      },
+      objectStoreNames: { contains: (name: string) => database.stores.has(name) },
+      createObjectStore: (name: string) => database.stores.set(name, new Map()),
+      close: () => {
+        connection.closed = true;
+        database.connections.delete(connection);
+      },
+      transaction: (name: string) => {
+        const store = database.stores.get(name);
+        if (connection.closed || !store) {
+          throw new DOMException(`No object store ${name}`, connection.closed ? 'InvalidStateError' : 'NotFoundError');
+        }
+
+        const transaction = {
+          oncomplete: null as (() => void) | null,
+          objectStore: () => ({
+            get: (key: string) => ({ result: store.get(key) }),
+            put: (value: unknown, key: string) => ({ result: store.set(key, value) && key }),
+            delete: (key: string) => ({ result: store.delete(key) && undefined }),
+            getAllKeys: () => ({ result: [...store.keys()] }),
+          }),
+        };
+        setTimeout(() => transaction.oncomplete?.());
+        return transaction;
+      },
+    };
+    database.connections.add(connection);
+    return connection;
+  };
+
+  return {
+    open: (name: string, version?: number) => {
+      const request: Record<string, any> = {};
+      setTimeout(() => {
+        const database = databases.get(name) ?? { version: 0, stores: new Map(), connections: new Set() };
+        databases.set(name, database);
+        const target = version ?? Math.max(database.version, 1);
+        if (target < database.version) {
+          request.error = new DOMException('Requested version is lower than the current one', 'VersionError');
+          request.onerror?.();
+          return;
+        }
+
+        if (target > database.version) {
+          database.connections.forEach((connection) => connection.onversionchange?.());
+          if (database.connections.size > 0) {
+            request.error = new DOMException('Upgrade blocked by an open connection', 'AbortError');
+            request.onerror?.();
+            return;
+          }
+
+          database.version = target;
+          request.result = connect(database);
+          request.onupgradeneeded?.();
+        } else {
+          request.result = connect(database);
+        }
+        request.onsuccess?.();
+      });
+      return request;
+    },
+  } as unknown as IDBFactory;
+}
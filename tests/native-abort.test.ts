@@ -0,0 +1,43 @@
+import { Capacitor } from '@capacitor/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { PasskeyPlugin } from '../src/definitions';
+import { withNativeAbortSignal } from '../src/native-abort';
+
+describe('withNativeAbortSignal', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('strips the signal and forwards aborts to cancelOperation on native platforms', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    let rejectPending: (reason: unknown) => void = () => undefined;
+    const authenticate = vi.fn(
+      () =>
+        new Promise((_, reject) => {
+          rejectPending = reject;
+        }),
+    );
+    const cancelOperation = vi.fn(async () => rejectPending({ code: 'INTERRUPTED', message: 'cancelled' }));
+    const plugin = withNativeAbortSignal({ authenticate, cancelOperation } as unknown as PasskeyPlugin);
+    const controller = new AbortController();
+
+    const pending = plugin.authenticate({ publicKey: { challenge: 'abc' }, signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError', code: 'INTERRUPTED', ceremony: 'get' });
+    expect(authenticate).toHaveBeenCalledWith({ publicKey: { challenge: 'abc' } });
+    expect(cancelOperation).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes options through untouched on web', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    const createPasskey = vi.fn(async () => ({}));
+    const plugin = withNativeAbortSignal({ createPasskey } as unknown as PasskeyPlugin);
+    const signal = new AbortController().signal;
+
+    await plugin.createPasskey({ publicKey: {} as any, signal });
+
+    expect(createPasskey).toHaveBeenCalledWith({ publicKey: {}, signal });
+  });
+});
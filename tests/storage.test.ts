@@ -1,23 +1,32 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { CapacitorStorageAdapter, type StoredCredential } from '../src/storage';
+import {
+  CapacitorStorageAdapter,
+  importStoredCredentials,
+  IndexedDBStorageBackend,
+  KeyValueBridgeBackend,
+  MemoryStorageBackend,
+  passphraseKeyProvider,
+  prfKeyProvider,
+  saveRegistration,
+  SessionManager,
+  signalUnknownCredentialOnDelete,
+  staticKeyProvider,
+  STORAGE_SCHEMA_VERSION,
+  toStoredCredential,
+  type CapacitorStorageAdapterOptions,
+  type StoredCredential,
+} from '../src/storage';
+
+import { buildAttestationObject, buildAuthData, cborBytes, cborInt, cborMap, createFakeIndexedDB } from './fixtures';
 
 const memory = new Map<string, string>();
 
-vi.mock('@capacitor/preferences', () => ({
-  Preferences: {
-    async get({ key }: { key: string }) {
-      const value = memory.get(key);
-      return { value: value ?? null };
-    },
-    async set({ key, value }: { key: string; value: string }) {
-      memory.set(key, value);
-    },
-    async remove({ key }: { key: string }) {
-      memory.delete(key);
-    },
-  },
-}));
+const backend = new MemoryStorageBackend(memory);
+
+function createAdapter(prefix: string, options: CapacitorStorageAdapterOptions = {}): CapacitorStorageAdapter {
+  return new CapacitorStorageAdapter(prefix, { backend, ...options });
+}
 
 function makeCredential(overrides: Partial<StoredCredential> = {}): StoredCredential {
   return {
@@ -35,7 +44,7 @@ describe('CapacitorStorageAdapter', () => {
   });
 
   it('saves and retrieves a credential with Uint8Array round-trip', async () => {
-    const adapter = new CapacitorStorageAdapter('test-passkey');
+    const adapter = createAdapter('test-passkey');
     const credential = makeCredential();
 
     await adapter.save(credential);
@@ -47,7 +56,7 @@ describe('CapacitorStorageAdapter', () => {
   });
 
   it('filters credentials by contract', async () => {
-    const adapter = new CapacitorStorageAdapter('test-passkey');
+    const adapter = createAdapter('test-passkey');
     await adapter.save(makeCredential({ credentialId: 'cred-1', contractId: 'C1' }));
     await adapter.save(makeCredential({ credentialId: 'cred-2', contractId: 'C2' }));
     await adapter.save(makeCredential({ credentialId: 'cred-3', contractId: 'C1' }));
@@ -57,7 +66,7 @@ describe('CapacitorStorageAdapter', () => {
   });
 
   it('updates only mutable credential fields', async () => {
-    const adapter = new CapacitorStorageAdapter('test-passkey');
+    const adapter = createAdapter('test-passkey');
     await adapter.save(makeCredential({ nickname: 'before', lastUsedAt: 1 }));
 
     await adapter.update('cred-1', { nickname: 'after', lastUsedAt: 2 });
@@ -70,20 +79,21 @@ describe('CapacitorStorageAdapter', () => {
   });
 
   it('handles session save/get/clear', async () => {
-    const adapter = new CapacitorStorageAdapter('test-passkey');
+    const adapter = createAdapter('test-passkey');
+    const expiresAt = Date.now() + 60_000;
 
     await adapter.saveSession({
       contractId: 'C1',
       credentialId: 'cred-1',
       connectedAt: 100,
-      expiresAt: 200,
+      expiresAt,
     });
 
     expect(await adapter.getSession()).toEqual({
       contractId: 'C1',
       credentialId: 'cred-1',
       connectedAt: 100,
-      expiresAt: 200,
+      expiresAt,
     });
 
     await adapter.clearSession();
@@ -91,7 +101,7 @@ describe('CapacitorStorageAdapter', () => {
   });
 
   it('clears credential and session data', async () => {
-    const adapter = new CapacitorStorageAdapter('test-passkey');
+    const adapter = createAdapter('test-passkey');
 
     await adapter.save(makeCredential({ credentialId: 'cred-1' }));
     await adapter.save(makeCredential({ credentialId: 'cred-2' }));
@@ -103,3 +113,793 @@ describe('CapacitorStorageAdapter', () => {
     expect(await adapter.getSession()).toBeNull();
   });
 });
+
+describe('CapacitorStorageAdapter integrity', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('keeps every id in the index across concurrent writes', async () => {
+    const first = createAdapter('test-passkey');
+    const second = createAdapter('test-passkey');
+    const ids = Array.from({ length: 8 }, (_, i) => `cred-${i}`);
+
+    await Promise.all(ids.map((credentialId, i) => (i % 2 ? first : second).save(makeCredential({ credentialId }))));
+    await Promise.all([
+      first.delete('cred-0'),
+      second.update('cred-1', { nickname: 'Laptop' }),
+      first.delete('cred-2'),
+    ]);
+
+    expect((await first.getAll()).map((credential) => credential.credentialId)).toEqual(
+      ids.slice(1).filter((id) => id !== 'cred-2'),
+    );
+    expect((await second.get('cred-1'))?.nickname).toBe('Laptop');
+    expect((await first.integrityCheck()).ok).toBe(true);
+  });
+
+  it('reports and repairs orphaned, dangling, duplicate and corrupt entries', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential({ credentialId: 'cred-1' }));
+    await adapter.save(makeCredential({ credentialId: 'cred-bad' }));
+    memory.set(
+      'test-passkey:credential:cred-orphan',
+      JSON.stringify({ ...makeCredential({ credentialId: 'cred-orphan' }), publicKey: 'AQID' }),
+    );
+    memory.set('test-passkey:credential:cred-bad', '{not json');
+    memory.set('test-passkey:credentials-index', JSON.stringify(['cred-1', 'cred-1', 'cred-gone', 'cred-bad']));
+
+    const report = await adapter.integrityCheck();
+    expect(report).toMatchObject({
+      ok: false,
+      indexCorrupt: false,
+      duplicateIds: ['cred-1'],
+      danglingIds: ['cred-gone'],
+      orphanedIds: ['cred-orphan'],
+      corrupt: [{ credentialId: 'cred-bad' }],
+      keysListed: true,
+    });
+
+    await adapter.repair();
+    expect(JSON.parse(memory.get('test-passkey:credentials-index') as string).data).toEqual([
+      'cred-1',
+      'cred-bad',
+      'cred-orphan',
+    ]);
+
+    await adapter.repair({ removeCorrupt: true });
+    expect(memory.has('test-passkey:credential:cred-bad')).toBe(false);
+    expect(await adapter.integrityCheck()).toMatchObject({ ok: true });
+  });
+
+  it('rebuilds an unreadable index from the backend keys', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential());
+    memory.set('test-passkey:credentials-index', '{');
+
+    expect(await adapter.getAll()).toEqual([]);
+    expect(await adapter.repair()).toMatchObject({ indexCorrupt: true, orphanedIds: ['cred-1'] });
+    expect((await adapter.getAll()).map((credential) => credential.credentialId)).toEqual(['cred-1']);
+  });
+});
+
+describe('CapacitorStorageAdapter sessions', () => {
+  beforeEach(() => {
+    memory.clear();
+    vi.useFakeTimers({ now: 1_000 });
+    return () => vi.useRealTimers();
+  });
+
+  it('treats expired sessions as absent and emits sessionExpired', async () => {
+    const adapter = createAdapter('test-passkey');
+    const expired = vi.fn();
+    const changed = vi.fn();
+    await adapter.sessions.addListener('sessionExpired', expired);
+    await adapter.sessions.addListener('sessionChanged', changed);
+
+    await adapter.saveSession({ contractId: 'C1', credentialId: 'cred-1', connectedAt: 1_000, expiresAt: 5_000 });
+    expect(changed).toHaveBeenLastCalledWith(expect.objectContaining({ contractId: 'C1', reason: 'saved' }));
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'C1' });
+
+    await vi.advanceTimersByTimeAsync(4_000);
+
+    expect(expired).toHaveBeenCalledWith({ contractId: 'C1', session: expect.objectContaining({ expiresAt: 5_000 }) });
+    expect(changed).toHaveBeenLastCalledWith({ contractId: 'C1', session: null, active: true, reason: 'expired' });
+    expect(await adapter.getSession()).toBeNull();
+    expect(memory.has('test-passkey:session')).toBe(false);
+  });
+
+  it('extends sessions on successful authentication with sliding expiry', async () => {
+    const adapter = createAdapter('test-passkey', { session: { slidingExpiryMs: 10_000 } });
+    const plugin = adapter.sessions.withSessionRefresh({
+      authenticate: vi.fn(async () => ({ id: 'cred-1' }) as any),
+    });
+    await adapter.saveSession({ contractId: 'C1', credentialId: 'cred-1', connectedAt: 1_000, expiresAt: 5_000 });
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    await plugin.authenticate({ publicKey: { challenge: 'YQ' } } as any);
+
+    expect(await adapter.getSession()).toMatchObject({ expiresAt: 14_000 });
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'C1' });
+  });
+
+  it('returns the assertion when the session refresh fails', async () => {
+    const logger = { warn: vi.fn() };
+    const sessions = new SessionManager(
+      {
+        load: async () => ({
+          activeContractId: 'C1',
+          sessions: { C1: { contractId: 'C1', credentialId: 'cred-1', connectedAt: 1_000, expiresAt: 60_000 } },
+        }),
+        store: async () => {
+          throw new Error('storage unavailable');
+        },
+        exclusive: (task) => task(),
+      },
+      { slidingExpiryMs: 10_000, logger },
+    );
+    const plugin = sessions.withSessionRefresh({
+      authenticate: vi.fn(async () => ({ id: 'cred-1' }) as any),
+    });
+
+    await expect(plugin.authenticate({ publicKey: { challenge: 'YQ' } } as any)).resolves.toEqual({ id: 'cred-1' });
+    expect(logger.warn).toHaveBeenCalledWith('Passkey session refresh failed:', expect.any(Error));
+  });
+
+  it('keeps one session per contract and switches the active one', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.saveSession({ contractId: 'C1', credentialId: 'cred-1', connectedAt: 1 });
+    await adapter.sessions.save({ contractId: 'C2', credentialId: 'cred-2', connectedAt: 2 }, { activate: false });
+
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'C1' });
+    expect(await adapter.sessions.switchTo('C2')).toMatchObject({ credentialId: 'cred-2' });
+    expect(await adapter.sessions.switchTo('C3')).toBeNull();
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'C2' });
+
+    await adapter.clearSession();
+    expect(await adapter.getSession()).toBeNull();
+    expect(await adapter.sessions.get('C1')).toMatchObject({ credentialId: 'cred-1' });
+
+    await adapter.clear();
+    expect(await adapter.sessions.getAll()).toEqual([]);
+  });
+});
+
+describe('CapacitorStorageAdapter query', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  async function seed(adapter: CapacitorStorageAdapter): Promise<void> {
+    await adapter.save(makeCredential({ credentialId: 'a', contractId: 'C1', nickname: 'Phone', lastUsedAt: 30 }));
+    await adapter.save(makeCredential({ credentialId: 'b', contractId: 'C1', deploymentStatus: 'pending' }));
+    await adapter.save(makeCredential({ credentialId: 'c', contractId: 'C2', nickname: 'Laptop', lastUsedAt: 10 }));
+    await adapter.save(makeCredential({ credentialId: 'd', contractId: 'C2', isPrimary: true, lastUsedAt: 20 }));
+    await adapter.save(makeCredential({ credentialId: 'e', contractId: 'C3', deploymentStatus: 'failed' }));
+  }
+
+  function ids(page: { credentials: StoredCredential[] }): string[] {
+    return page.credentials.map((credential) => credential.credentialId);
+  }
+
+  it('filters, sorts and paginates credentials', async () => {
+    const adapter = createAdapter('test-passkey');
+    await seed(adapter);
+
+    expect(ids(await adapter.query({ contractId: ['C1', 'C3'] }))).toEqual(['a', 'b', 'e']);
+    expect(ids(await adapter.query({ deploymentStatus: null }))).toEqual(['a', 'c', 'd']);
+    expect(ids(await adapter.query({ deploymentStatus: ['pending', 'failed'], contractId: 'C1' }))).toEqual(['b']);
+    expect(ids(await adapter.query({ nickname: /top$/ }))).toEqual(['c']);
+    expect(ids(await adapter.query({ isPrimary: false, contractId: 'C2' }))).toEqual(['c']);
+    expect(ids(await adapter.query({ lastUsedAt: { from: 15 } }))).toEqual(['a', 'd']);
+
+    const page = await adapter.query({ sort: { field: 'lastUsedAt', direction: 'desc' }, offset: 1, limit: 3 });
+    expect(page.total).toBe(5);
+    expect(ids(page)).toEqual(['d', 'c', 'b']);
+  });
+
+  it('reads only the indexed candidates in one batch', async () => {
+    const adapter = createAdapter('test-passkey');
+    await seed(adapter);
+    await adapter.update('b', { contractId: 'C2', deploymentStatus: undefined });
+    await adapter.delete('d');
+    const get = vi.spyOn(backend, 'get');
+    const getMany = vi.spyOn(backend, 'getMany');
+
+    expect(ids(await adapter.query({ contractId: 'C2' }))).toEqual(['b', 'c']);
+    expect(getMany).toHaveBeenCalledTimes(1);
+    expect(getMany).toHaveBeenCalledWith(['test-passkey:credential:b', 'test-passkey:credential:c']);
+    expect(get).not.toHaveBeenCalledWith(expect.stringContaining(':credential:'));
+    expect(await adapter.getMany(['e', 'missing', 'a'])).toMatchObject([{ credentialId: 'e' }, { credentialId: 'a' }]);
+
+    get.mockRestore();
+    getMany.mockRestore();
+  });
+
+  it('builds missing or stale secondary indexes from the records', async () => {
+    const adapter = createAdapter('test-passkey');
+    await seed(adapter);
+    memory.delete('test-passkey:credentials-lookup');
+
+    expect(ids(await adapter.query({ contractId: 'C2' }))).toEqual(['c', 'd']);
+    expect(memory.has('test-passkey:credentials-lookup')).toBe(true);
+
+    memory.set(
+      'test-passkey:credential:a',
+      JSON.stringify({ ...makeCredential({ credentialId: 'a', contractId: 'C9' }), publicKey: 'AQID' }),
+    );
+    expect(await adapter.integrityCheck()).toMatchObject({ ok: false, lookupStale: true });
+    await adapter.repair();
+    expect(ids(await adapter.query({ contractId: 'C9' }))).toEqual(['a']);
+    expect(await adapter.integrityCheck()).toMatchObject({ ok: true });
+  });
+});
+
+describe('CapacitorStorageAdapter primary and context rules', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('keeps at most one primary credential per contract', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential({ credentialId: 'a', contractId: 'C1', isPrimary: true }));
+    await adapter.save(makeCredential({ credentialId: 'b', contractId: 'C1' }));
+    await adapter.save(makeCredential({ credentialId: 'c', contractId: 'C2', isPrimary: true }));
+
+    await adapter.setPrimary('C1', 'b');
+    expect((await adapter.getPrimary('C1'))?.credentialId).toBe('b');
+    expect((await adapter.get('a'))?.isPrimary).toBe(false);
+    expect((await adapter.getPrimary('C2'))?.credentialId).toBe('c');
+
+    await adapter.update('a', { isPrimary: true });
+    expect((await adapter.query({ contractId: 'C1', isPrimary: true })).credentials).toMatchObject([
+      { credentialId: 'a' },
+    ]);
+
+    await expect(adapter.setPrimary('C2', 'a')).rejects.toThrow(/for contract "C2"/);
+    expect(await adapter.getPrimary('C3')).toBeNull();
+  });
+
+  it('resolves credentials by context rule', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential({ credentialId: 'a', contractId: 'C1', contextRuleId: 0 }));
+    await adapter.save(makeCredential({ credentialId: 'b', contractId: 'C1', contextRuleId: 2 }));
+    await adapter.save(makeCredential({ credentialId: 'c', contractId: 'C2', contextRuleId: 2 }));
+    await adapter.save(makeCredential({ credentialId: 'd', contractId: 'C1' }));
+
+    expect((await adapter.getByContextRule('C1', 2)).map((credential) => credential.credentialId)).toEqual(['b']);
+    expect((await adapter.getByContextRule('C1', 0)).map((credential) => credential.credentialId)).toEqual(['a']);
+    expect(await adapter.getByContextRule('C1', 7)).toEqual([]);
+  });
+});
+
+describe('CapacitorStorageAdapter usage tracking', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  function assertion(id: string, signCount: number) {
+    const authenticatorData = new Uint8Array(37);
+    authenticatorData[32] = 0x05;
+    new DataView(authenticatorData.buffer).setUint32(33, signCount);
+    return {
+      id,
+      rawId: id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: 'e30',
+        authenticatorData: Buffer.from(authenticatorData).toString('base64url'),
+        signature: 'c2ln',
+      },
+    };
+  }
+
+  it('records lastUsedAt and signCount after each assertion', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential({ signCount: 3 }));
+    const authenticate = vi.fn(async () => assertion('cred-1', 4));
+    const plugin = adapter.usage.withUsageTracking({ authenticate });
+
+    await expect(plugin.authenticate({ publicKey: { challenge: 'YQ' } })).resolves.toMatchObject({ id: 'cred-1' });
+
+    const stored = await adapter.get('cred-1');
+    expect(stored?.signCount).toBe(4);
+    expect(stored?.lastUsedAt).toBeGreaterThan(0);
+  });
+
+  it('reports counter regressions and unknown credentials', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential({ signCount: 10, lastUsedAt: 1 }));
+    const regression = vi.fn();
+    const unknown = vi.fn();
+    await adapter.usage.addListener('signCountRegression', regression);
+    await adapter.usage.addListener('unknownCredential', unknown);
+
+    expect(await adapter.usage.handleAuthentication(assertion('cred-1', 10))).toMatchObject({
+      signCountRegressed: true,
+      previousSignCount: 10,
+    });
+    expect(regression).toHaveBeenCalledWith({
+      credentialId: 'cred-1',
+      contractId: 'C123',
+      storedSignCount: 10,
+      signCount: 10,
+    });
+    expect(await adapter.get('cred-1')).toMatchObject({ signCount: 10, lastUsedAt: expect.any(Number) });
+
+    await adapter.update('cred-1', { signCount: 0 });
+    expect(await adapter.usage.handleAuthentication(assertion('cred-1', 0))).toMatchObject({
+      signCountRegressed: false,
+    });
+
+    await adapter.usage.handleAuthentication(assertion('cred-gone', 1));
+    expect(unknown).toHaveBeenCalledWith({ credentialId: 'cred-gone' });
+    expect(regression).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CapacitorStorageAdapter deployment', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('tracks validated deployment transitions with attempts, timestamps and error codes', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential());
+
+    await adapter.transitionDeployment('cred-1', 'pending', { at: 1 });
+    await adapter.transitionDeployment('cred-1', 'submitting', { at: 2 });
+    expect(
+      await adapter.transitionDeployment('cred-1', 'failed', {
+        at: 3,
+        error: { code: 'SIMULATION_FAILED', message: 'HostError' },
+      }),
+    ).toMatchObject({
+      deploymentStatus: 'failed',
+      deploymentAttempts: 1,
+      deploymentLastAttemptAt: 2,
+      deploymentUpdatedAt: 3,
+      deploymentErrorCode: 'SIMULATION_FAILED',
+      deploymentError: 'HostError',
+    });
+
+    await adapter.transitionDeployment('cred-1', 'submitting', { at: 4 });
+    const deployed = await adapter.transitionDeployment('cred-1', 'deployed', { at: 5 });
+    expect(deployed).toMatchObject({ deploymentAttempts: 2, deployedAt: 5 });
+    expect(deployed.deploymentErrorCode).toBeUndefined();
+    expect(await adapter.get('cred-1')).toEqual(deployed);
+
+    await expect(adapter.transitionDeployment('cred-1', 'pending')).rejects.toThrow(/deployed -> pending/);
+    await expect(adapter.transitionDeployment('missing', 'pending')).rejects.toThrow(/No stored credential/);
+  });
+
+  it('lists credentials that need a deployment retry', async () => {
+    const adapter = createAdapter('test-passkey');
+    for (const credentialId of ['pending', 'failed', 'exhausted', 'interrupted', 'recent', 'deployed', 'untracked']) {
+      await adapter.save(makeCredential({ credentialId }));
+    }
+    await adapter.transitionDeployment('pending', 'pending');
+    for (const [credentialId, attempts] of [
+      ['failed', 1],
+      ['exhausted', 3],
+    ] as const) {
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        await adapter.transitionDeployment(credentialId, 'submitting');
+        await adapter.transitionDeployment(credentialId, 'failed', { error: { code: 'NETWORK_ERROR' } });
+      }
+    }
+    await adapter.transitionDeployment('interrupted', 'submitting', { at: 1_000 });
+    await adapter.transitionDeployment('recent', 'submitting', { at: 9_000 });
+    await adapter.transitionDeployment('deployed', 'deployed');
+
+    const retry = await adapter.getDeploymentsToRetry({ maxAttempts: 3, submittingTimeoutMs: 5_000, now: 10_000 });
+    expect(retry.map((credential) => credential.credentialId)).toEqual(['pending', 'failed', 'interrupted']);
+  });
+});
+
+describe('CapacitorStorageAdapter backup', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('round-trips credentials and sessions and detects tampering', async () => {
+    const source = createAdapter('source');
+    await source.save(makeCredential({ credentialId: 'a', nickname: 'Phone', contextRuleId: 2, isPrimary: true }));
+    await source.save(makeCredential({ credentialId: 'b', contractId: 'C2' }));
+    await source.saveSession({ contractId: 'C2', credentialId: 'b', connectedAt: 5 });
+    await source.sessions.save({ contractId: 'C123', credentialId: 'a', connectedAt: 6 }, { activate: false });
+
+    const backup = await source.exportAll();
+    const target = createAdapter('target');
+    expect(await target.importAll(backup)).toEqual({ imported: ['a', 'b'], skipped: [], session: true });
+    expect(await target.getAll()).toEqual(await source.getAll());
+    expect(await target.getSession()).toMatchObject({ contractId: 'C2' });
+    expect(await target.sessions.getAll()).toHaveLength(2);
+
+    const tampered = JSON.parse(backup);
+    tampered.payload.credentials[0].contractId = 'CEVIL';
+    await expect(target.importAll(JSON.stringify(tampered))).rejects.toThrow(/checksum mismatch/);
+    await expect(target.importAll('{"format":"other"}')).rejects.toThrow(/Not a capacitor-passkey backup/);
+  });
+
+  it('encrypts backups with a passphrase', async () => {
+    const source = createAdapter('source');
+    await source.save(makeCredential({ nickname: 'Secret laptop' }));
+
+    const backup = await source.exportAll({ passphrase: 'correct horse', iterations: 1000, includeSession: false });
+    expect(backup).not.toContain('Secret laptop');
+    expect(JSON.parse(backup)).toMatchObject({ version: 1, kdf: { name: 'PBKDF2', iterations: 1000 } });
+
+    const target = createAdapter('target');
+    await expect(target.importAll(backup)).rejects.toThrow(/passphrase is required/);
+    await expect(target.importAll(backup, { passphrase: 'wrong' })).rejects.toThrow(/wrong passphrase/);
+    await target.importAll(backup, { passphrase: 'correct horse' });
+    expect((await target.get('cred-1'))?.nickname).toBe('Secret laptop');
+  });
+
+  it('merges existing credentials with skip, overwrite and newest strategies', async () => {
+    const source = createAdapter('source');
+    await source.save(makeCredential({ credentialId: 'old', nickname: 'backup', lastUsedAt: 10 }));
+    await source.save(makeCredential({ credentialId: 'new', nickname: 'backup', lastUsedAt: 30 }));
+    const backup = await source.exportAll();
+
+    const target = createAdapter('target');
+    const reset = async () => {
+      await target.save(makeCredential({ credentialId: 'old', nickname: 'local', lastUsedAt: 20 }));
+      await target.save(makeCredential({ credentialId: 'new', nickname: 'local', lastUsedAt: 20 }));
+    };
+    const nicknames = async () => (await target.getAll()).map((credential) => credential.nickname);
+
+    await reset();
+    expect(await target.importAll(backup)).toMatchObject({ imported: [], skipped: ['old', 'new'] });
+    expect(await nicknames()).toEqual(['local', 'local']);
+
+    expect(await target.importAll(backup, { strategy: 'newest' })).toMatchObject({ imported: ['new'] });
+    expect(await nicknames()).toEqual(['local', 'backup']);
+
+    await reset();
+    await target.importAll(backup, { strategy: 'overwrite' });
+    expect(await nicknames()).toEqual(['backup', 'backup']);
+  });
+});
+
+describe('CapacitorStorageAdapter schema', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('reads unversioned entries and rewrites them with migrateSchema', async () => {
+    memory.set('test-passkey:credential:cred-1', JSON.stringify({ ...makeCredential(), publicKey: 'AQIDBA==' }));
+    memory.set('test-passkey:credentials-index', JSON.stringify(['cred-1']));
+    memory.set('test-passkey:session', JSON.stringify({ contractId: 'C123', credentialId: 'cred-1', connectedAt: 1 }));
+    const adapter = createAdapter('test-passkey');
+
+    expect((await adapter.get('cred-1'))?.publicKey).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'C123' });
+
+    expect(await adapter.migrateSchema()).toBe(3);
+    expect(await adapter.migrateSchema()).toBe(0);
+    for (const value of memory.values()) {
+      expect(JSON.parse(value)).toMatchObject({ schemaVersion: STORAGE_SCHEMA_VERSION });
+    }
+    expect(JSON.parse(memory.get('test-passkey:session') ?? '')).toMatchObject({
+      data: { activeContractId: 'C123', sessions: { C123: { credentialId: 'cred-1' } } },
+    });
+    expect(await adapter.getAll()).toHaveLength(1);
+  });
+
+  it('refuses entries written by a newer schema', async () => {
+    const adapter = createAdapter('test-passkey');
+    await adapter.save(makeCredential());
+    memory.set(
+      'test-passkey:credential:cred-1',
+      JSON.stringify({ schemaVersion: 99, data: { ...makeCredential(), publicKey: 'AQID' } }),
+    );
+
+    await expect(adapter.get('cred-1')).rejects.toThrow(/schema version 99/);
+    await expect(adapter.repair({ removeCorrupt: true })).rejects.toThrow(/schema version 99/);
+    expect(memory.has('test-passkey:credential:cred-1')).toBe(true);
+  });
+});
+
+describe('importStoredCredentials', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('imports credentials and the session from another adapter', async () => {
+    const target = createAdapter('test-passkey');
+    await target.save(makeCredential({ credentialId: 'cred-existing', nickname: 'Kept' }));
+    const source = {
+      getAll: async () =>
+        [
+          { ...makeCredential({ credentialId: 'cred-json' }), publicKey: { 0: 4, 1: 5, 2: 6 } },
+          { ...makeCredential({ credentialId: 'cred-base64' }), publicKey: 'BwgJ' },
+          { ...makeCredential({ credentialId: 'cred-existing', nickname: 'Imported' }) },
+          { ...makeCredential({ credentialId: 'cred-broken' }), publicKey: null },
+        ] as unknown as StoredCredential[],
+      getSession: async () => ({ contractId: 'C123', credentialId: 'cred-json', connectedAt: 5 }),
+    };
+
+    const result = await importStoredCredentials(target, source);
+
+    expect(result).toEqual({
+      imported: ['cred-json', 'cred-base64'],
+      skipped: ['cred-existing', 'cred-broken'],
+      session: true,
+    });
+    expect((await target.get('cred-json'))?.publicKey).toEqual(new Uint8Array([4, 5, 6]));
+    expect((await target.get('cred-base64'))?.publicKey).toEqual(new Uint8Array([7, 8, 9]));
+    expect((await target.get('cred-existing'))?.nickname).toBe('Kept');
+    expect(await target.getSession()).toMatchObject({ credentialId: 'cred-json' });
+  });
+});
+
+describe('storage backends', () => {
+  it('runs the adapter on a key-value bridge', async () => {
+    const rows: Record<string, string> = {};
+    const adapter = new CapacitorStorageAdapter('bridge', {
+      backend: new KeyValueBridgeBackend({
+        get: (key) => rows[key],
+        set: async (key, value) => {
+          rows[key] = value;
+        },
+        remove: (key) => {
+          delete rows[key];
+        },
+      }),
+    });
+
+    await adapter.save(makeCredential());
+    await adapter.saveSession({ contractId: 'C123', credentialId: 'cred-1', connectedAt: 1 });
+
+    expect(Object.keys(rows).sort()).toEqual([
+      'bridge:credential:cred-1',
+      'bridge:credentials-index',
+      'bridge:credentials-lookup',
+      'bridge:session',
+    ]);
+    expect(await adapter.getByContract('C123')).toHaveLength(1);
+
+    await adapter.clear();
+    expect(rows).toEqual({});
+    expect(await adapter.get('cred-1')).toBeNull();
+  });
+
+  it('adds the object store of every backend sharing an IndexedDB database', async () => {
+    vi.stubGlobal('indexedDB', createFakeIndexedDB());
+    try {
+      const credentials = new IndexedDBStorageBackend('passkeys', 'credentials');
+      const sessions = new IndexedDBStorageBackend('passkeys', 'sessions');
+
+      await credentials.set('a', '1');
+      await sessions.set('b', '2');
+      // The upgrade for `sessions` closed this backend's connection; it reconnects
+      await credentials.set('c', '3');
+
+      expect(await credentials.keys()).toEqual(['a', 'c']);
+      expect(await sessions.keys()).toEqual(['b']);
+      expect(await new IndexedDBStorageBackend('passkeys', 'sessions').get('b')).toBe('2');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('signalUnknownCredentialOnDelete', () => {
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('signals deleted credentials and ignores signal failures', async () => {
+    const signalUnknownCredential = vi.fn(async () => {
+      throw new Error('provider unavailable');
+    });
+    const logger = { warn: vi.fn() };
+    const adapter = createAdapter('test-passkey', {
+      onCredentialDeleted: signalUnknownCredentialOnDelete({ signalUnknownCredential }, 'example.com', logger),
+    });
+    await adapter.save(makeCredential());
+
+    await adapter.delete('cred-1');
+    await adapter.delete('cred-missing');
+
+    expect(await adapter.get('cred-1')).toBeNull();
+    expect(signalUnknownCredential).toHaveBeenCalledTimes(1);
+    expect(signalUnknownCredential).toHaveBeenCalledWith({ rpId: 'example.com', credentialId: 'cred-1' });
+    expect(logger.warn).toHaveBeenCalledWith('Passkey unknown-credential signal failed:', expect.any(Error));
+  });
+});
+
+describe('CapacitorStorageAdapter encryption', () => {
+  const keyA = staticKeyProvider(new Uint8Array(32).fill(1));
+  const keyB = staticKeyProvider(new Uint8Array(32).fill(2));
+
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('encrypts credentials, the index and the session and reads them transparently', async () => {
+    const adapter = createAdapter('enc', { encryption: { keyProvider: keyA } });
+    await adapter.save(makeCredential({ contractId: 'CSECRET' }));
+    await adapter.saveSession({ contractId: 'CSECRET', credentialId: 'cred-1', connectedAt: 1 });
+
+    expect(Array.from(memory.keys()).sort()).toEqual([
+      'enc:credential:cred-1',
+      'enc:credentials-index',
+      'enc:credentials-lookup',
+      'enc:session',
+    ]);
+    for (const value of memory.values()) {
+      expect(JSON.parse(value)).toMatchObject({ enc: 'AES-GCM', v: 1 });
+      expect(value).not.toContain('CSECRET');
+    }
+
+    expect((await adapter.getAll()).map((credential) => credential.contractId)).toEqual(['CSECRET']);
+    expect(await adapter.getSession()).toMatchObject({ contractId: 'CSECRET' });
+    await expect(createAdapter('enc').getAll()).rejects.toThrow(/encrypted/);
+    await expect(createAdapter('enc', { encryption: { keyProvider: keyB } }).get('cred-1')).rejects.toThrow(/decrypt/);
+  });
+
+  it('rejects ciphertext moved to another entry', async () => {
+    const adapter = createAdapter('enc', { encryption: { keyProvider: keyA } });
+    await adapter.save(makeCredential({ credentialId: 'cred-1' }));
+    await adapter.save(makeCredential({ credentialId: 'cred-2' }));
+
+    memory.set('enc:credential:cred-2', memory.get('enc:credential:cred-1') as string);
+
+    await expect(adapter.get('cred-2')).rejects.toThrow(/decrypt/);
+  });
+
+  it('migrates plaintext entries written before encryption was enabled', async () => {
+    await createAdapter('enc').save(makeCredential());
+    const adapter = createAdapter('enc', { encryption: { keyProvider: keyA } });
+
+    await expect(adapter.get('cred-1')).rejects.toThrow(/not encrypted/);
+    expect(
+      await createAdapter('enc', { encryption: { keyProvider: keyA, allowPlaintext: true } }).get('cred-1'),
+    ).not.toBeNull();
+    await adapter.migrateToEncrypted();
+
+    expect(memory.get('enc:credential:cred-1')).toContain('"enc":"AES-GCM"');
+    expect(memory.get('enc:credentials-index')).toContain('"enc":"AES-GCM"');
+    expect((await adapter.get('cred-1'))?.publicKey).toEqual(new Uint8Array([1, 2, 3, 4]));
+  });
+
+  it('rejects plaintext reads that overlap the migration', async () => {
+    await createAdapter('enc').save(makeCredential());
+    const adapter = createAdapter('enc', { encryption: { keyProvider: keyA } });
+    let release = () => undefined as void;
+    const blocked = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const get = backend.get.bind(backend);
+    // Hold the migration between its reads, while it still accepts plaintext
+    const spy = vi.spyOn(backend, 'get').mockImplementation(async (key) => {
+      if (key === 'enc:credentials-lookup') {
+        await blocked;
+      }
+      return get(key);
+    });
+
+    const migration = adapter.migrateToEncrypted();
+    try {
+      await vi.waitFor(() => expect(spy).toHaveBeenCalledWith('enc:credentials-lookup'));
+      await expect(adapter.get('cred-1')).rejects.toThrow(/not encrypted/);
+    } finally {
+      release();
+      spy.mockRestore();
+    }
+
+    await migration;
+    expect(await adapter.get('cred-1')).not.toBeNull();
+  });
+
+  it('rotates the key and recovers an interrupted rotation with previous keys', async () => {
+    const adapter = createAdapter('enc', { encryption: { keyProvider: keyA } });
+    await adapter.save(makeCredential());
+    const encryptedWithA = memory.get('enc:credential:cred-1') as string;
+    await adapter.rotateKey(keyB);
+
+    expect(await adapter.get('cred-1')).not.toBeNull();
+    memory.set('enc:credential:cred-1', encryptedWithA);
+    expect(await adapter.get('cred-1')).not.toBeNull();
+    memory.delete('enc:credential:cred-1');
+    await adapter.save(makeCredential());
+    await expect(createAdapter('enc', { encryption: { keyProvider: keyA } }).get('cred-1')).rejects.toThrow(/decrypt/);
+
+    const previous = createAdapter('enc', {
+      encryption: { keyProvider: keyA, previousKeyProviders: [keyB] },
+    });
+    expect(await previous.get('cred-1')).not.toBeNull();
+  });
+
+  it('derives stable keys from a passphrase or a PRF output', async () => {
+    const prfOutput = vi.fn(async () => 'AQIDBAUGBwgJCgsMDQ4PEBESExQVFhcYGRobHB0eHyA');
+    const writer = createAdapter('enc', {
+      encryption: { keyProvider: passphraseKeyProvider('correct horse', { salt: 'c2FsdA', iterations: 1000 }) },
+    });
+    await writer.save(makeCredential());
+    const reader = createAdapter('enc', {
+      encryption: {
+        keyProvider: passphraseKeyProvider(async () => 'correct horse', { salt: 'c2FsdA', iterations: 1000 }),
+      },
+    });
+    expect(await reader.get('cred-1')).not.toBeNull();
+
+    const prfAdapter = createAdapter('prf', { encryption: { keyProvider: prfKeyProvider(prfOutput) } });
+    await prfAdapter.save(makeCredential());
+    await prfAdapter.getAll();
+
+    expect(prfOutput).toHaveBeenCalledTimes(1);
+    expect(await prfAdapter.get('cred-1')).not.toBeNull();
+  });
+});
+
+describe('saveRegistration', () => {
+  const coseKey = cborMap([
+    [cborInt(1), cborInt(2)],
+    [cborInt(3), cborInt(-7)],
+    [cborInt(-1), cborInt(1)],
+    [cborInt(-2), cborBytes(new Uint8Array(32).fill(2))],
+    [cborInt(-3), cborBytes(new Uint8Array(32).fill(3))],
+  ]);
+
+  beforeEach(() => {
+    memory.clear();
+  });
+
+  it('derives public key, transports and backup flags from a registration result', async () => {
+    const adapter = createAdapter('test-passkey');
+    const result = {
+      id: 'cred-new',
+      rawId: 'cred-new',
+      type: 'public-key' as const,
+      response: {
+        attestationObject: buildAttestationObject(buildAuthData(coseKey, undefined, 0x5d)),
+        clientDataJSON: '',
+        transports: ['internal', 'hybrid', 'bogus'],
+      },
+    };
+
+    const saved = await saveRegistration(adapter, result, 'C1', { nickname: 'Phone', createdAt: 5 });
+    const stored = await adapter.get('cred-new');
+
+    expect(saved.publicKey).toEqual(
+      new Uint8Array([0x04, ...new Uint8Array(32).fill(2), ...new Uint8Array(32).fill(3)]),
+    );
+    expect(stored).toMatchObject({
+      credentialId: 'cred-new',
+      contractId: 'C1',
+      nickname: 'Phone',
+      createdAt: 5,
+      transports: ['internal', 'hybrid'],
+      deviceType: 'multiDevice',
+      backedUp: true,
+    });
+  });
+
+  it('falls back to a P-256 SPKI publicKey when authenticator data is unavailable', () => {
+    const point = new Uint8Array([0x04, ...new Uint8Array(64).fill(5)]);
+    const spki = new Uint8Array([...new Uint8Array(26), ...point]);
+
+    const credential = toStoredCredential(
+      {
+        id: 'cred-spki',
+        rawId: 'cred-spki',
+        type: 'public-key',
+        clientExtensionResults: {},
+        response: {
+          attestationObject: 'not-cbor',
+          clientDataJSON: '',
+          publicKey: Buffer.from(spki).toString('base64url'),
+        },
+      },
+      'C2',
+    );
+
+    expect(credential.publicKey).toEqual(point);
+    expect(credential.deviceType).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import { PasskeyError } from '../src/errors';
+import { assertValidCreateOptions, validateAuthenticationOptions, validateCreateOptions } from '../src/validation';
+
+const createOptions = {
+  publicKey: {
+    challenge: 'Y2hhbGxlbmdl',
+    rp: { id: 'example.com', name: 'Example' },
+    user: { id: 'dXNlci0x', name: 'alice', displayName: 'Alice' },
+    pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+    timeout: 60000,
+  },
+};
+
+describe('validateCreateOptions', () => {
+  it('accepts valid options', () => {
+    expect(validateCreateOptions(createOptions)).toEqual([]);
+    expect(validateCreateOptions({ publicKey: { ...createOptions.publicKey, rp: { name: 'Example' } } })).toEqual([]);
+  });
+
+  it('lists every offending path', () => {
+    const issues = validateCreateOptions({
+      publicKey: {
+        ...createOptions.publicKey,
+        challenge: 'not base64url!',
+        rp: { id: 'https://example.com', name: 'Example' },
+        user: { id: 'A'.repeat(88), name: 'alice', displayName: 'Alice' },
+        pubKeyCredParams: [],
+        timeout: '60000',
+      },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'publicKey.challenge',
+      'publicKey.rp.id',
+      'publicKey.user.id',
+      'publicKey.pubKeyCredParams',
+      'publicKey.timeout',
+    ]);
+    expect(issues[2].message).toBe('must be at most 64 bytes');
+  });
+
+  it('throws INVALID_INPUT with the issues', () => {
+    let error: unknown;
+    try {
+      assertValidCreateOptions({ publicKey: { ...createOptions.publicKey, pubKeyCredParams: [{ alg: 'ES256' }] } });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error).toMatchObject({
+      code: 'INVALID_INPUT',
+      name: 'TypeError',
+      issues: [
+        { path: 'publicKey.pubKeyCredParams[0].type', message: "must be 'public-key'" },
+        { path: 'publicKey.pubKeyCredParams[0].alg', message: 'must be an integer COSE algorithm identifier' },
+      ],
+    });
+    expect((error as PasskeyError).message).toContain('publicKey.pubKeyCredParams[0].alg');
+  });
+});
+
+describe('validateAuthenticationOptions', () => {
+  it('checks the challenge, rpId, descriptors and mediation', () => {
+    expect(validateAuthenticationOptions({ publicKey: { challenge: 'YQ', rpId: 'localhost' } })).toEqual([]);
+
+    const issues = validateAuthenticationOptions({
+      publicKey: {
+        challenge: 'Y',
+        rpId: 'example.com:8443',
+        allowCredentials: [{ id: '', type: 'public-key' }],
+        userVerification: 'always',
+        hints: ['phone'],
+      },
+      mediation: 'modal',
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'publicKey.challenge',
+      'publicKey.rpId',
+      'publicKey.allowCredentials[0].id',
+      'publicKey.userVerification',
+      'publicKey.hints',
+      'mediation',
+    ]);
+    expect(validateAuthenticationOptions(undefined)).toEqual([{ path: 'options', message: 'must be an object' }]);
+  });
+});
+
+describe('extension input validation', () => {
+  it('checks PRF salts and largeBlob writes as base64url or BufferSource', () => {
+    expect(
+      validateAuthenticationOptions({
+        publicKey: {
+          challenge: 'YQ',
+          extensions: {
+            prf: {
+              eval: { first: 'AQID', second: new Uint8Array([1]).buffer },
+              evalByCredential: { Yw: { first: 'BA' } },
+            },
+            largeBlob: { write: new Uint8Array([2]) },
+          },
+        },
+      }),
+    ).toEqual([]);
+
+    const issues = validateAuthenticationOptions({
+      publicKey: {
+        challenge: 'YQ',
+        extensions: {
+          prf: { eval: { first: 'not base64url!', second: 'A' }, evalByCredential: { Yw: { first: 7 } } },
+          largeBlob: { write: '' },
+        },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: 'publicKey.extensions.prf.eval.first', message: 'is not valid base64url' },
+      { path: 'publicKey.extensions.prf.eval.second', message: 'is not valid base64url' },
+      { path: 'publicKey.extensions.prf.evalByCredential.Yw.first', message: 'must be a non-empty base64url string' },
+      { path: 'publicKey.extensions.largeBlob.write', message: 'must be a non-empty base64url string' },
+    ]);
+    expect(
+      validateCreateOptions({ publicKey: { ...createOptions.publicKey, extensions: { prf: { eval: 'salt' } } } }),
+    ).toEqual([{ path: 'publicKey.extensions.prf.eval', message: 'must be an object' }]);
+  });
+});
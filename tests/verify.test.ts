@@ -0,0 +1,215 @@
+import { createHash, webcrypto } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+
+import { verifyAuthentication, verifyRegistration } from '../src/verify';
+
+import { buildAuthData, cborBytes, cborInt, cborMap, cborText } from './fixtures';
+
+const subtle = webcrypto.subtle;
+const rpId = 'example.com';
+const origin = 'https://example.com';
+const challenge = 'Y2hhbGxlbmdl';
+const rpIdHash = new Uint8Array(createHash('sha256').update(rpId).digest());
+
+function base64url(bytes: Uint8Array | number[]): string {
+  return Buffer.from(bytes as Uint8Array).toString('base64url');
+}
+
+function clientData(type: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify({ type, challenge, origin }));
+}
+
+function assertionAuthData(signCount: number, flags = 0x05): Uint8Array {
+  return new Uint8Array([...rpIdHash, flags, 0, 0, (signCount >> 8) & 0xff, signCount & 0xff]);
+}
+
+function signedPayload(authData: Uint8Array, clientDataJSON: Uint8Array): Uint8Array {
+  return new Uint8Array([...authData, ...createHash('sha256').update(clientDataJSON).digest()]);
+}
+
+function derInteger(bytes: Uint8Array): number[] {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start += 1;
+  const value = Array.from(bytes.subarray(start));
+  return value[0] & 0x80 ? [0x02, value.length + 1, 0, ...value] : [0x02, value.length, ...value];
+}
+
+// WebCrypto returns r || s; authenticators emit a DER ECDSA-Sig-Value
+function toDerSignature(raw: Uint8Array): Uint8Array {
+  const body = [...derInteger(raw.subarray(0, 32)), ...derInteger(raw.subarray(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+async function signAssertion(
+  privateKey: webcrypto.CryptoKey,
+  algorithm: webcrypto.AlgorithmIdentifier | webcrypto.EcdsaParams,
+  signCount = 6,
+) {
+  const authData = assertionAuthData(signCount);
+  const clientDataJSON = clientData('webauthn.get');
+  let signature = new Uint8Array(await subtle.sign(algorithm, privateKey, signedPayload(authData, clientDataJSON)));
+  if ((algorithm as webcrypto.EcdsaParams).name === 'ECDSA') {
+    signature = toDerSignature(signature);
+  }
+
+  return {
+    id: 'cred-id',
+    rawId: 'cred-id',
+    type: 'public-key' as const,
+    response: {
+      clientDataJSON: base64url(clientDataJSON),
+      authenticatorData: base64url(authData),
+      signature: base64url(signature),
+    },
+  };
+}
+
+describe('verifyAuthentication', () => {
+  it('verifies ES256 assertions against a raw stored public key', async () => {
+    const { publicKey, privateKey } = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ]);
+    const raw = new Uint8Array(await subtle.exportKey('raw', publicKey));
+    const response = await signAssertion(privateKey, { name: 'ECDSA', hash: 'SHA-256' });
+
+    const result = await verifyAuthentication({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpId,
+      credential: { credentialId: 'cred-id', publicKey: raw, signCount: 5 },
+    });
+
+    expect(result).toMatchObject({ verified: true, newSignCount: 6, userVerified: true, rpId, origin });
+
+    const tampered = {
+      ...response,
+      response: { ...response.response, authenticatorData: base64url(assertionAuthData(7)) },
+    };
+    await expect(
+      verifyAuthentication({
+        response: tampered,
+        expectedChallenge: challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpId,
+        credential: { publicKey: raw },
+      }),
+    ).resolves.toMatchObject({ verified: false });
+  });
+
+  it('verifies RS256 and EdDSA assertions against SPKI keys', async () => {
+    const rsa = await subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify'],
+    );
+    const ed = (await subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify'])) as webcrypto.CryptoKeyPair;
+
+    for (const [pair, algorithm] of [
+      [rsa, { name: 'RSASSA-PKCS1-v1_5' }],
+      [ed, { name: 'Ed25519' }],
+    ] as const) {
+      const spki = new Uint8Array(await subtle.exportKey('spki', pair.publicKey));
+      const result = await verifyAuthentication({
+        response: await signAssertion(pair.privateKey, algorithm),
+        expectedChallenge: challenge,
+        expectedOrigin: [origin],
+        expectedRPID: rpId,
+        credential: { publicKey: base64url(spki) },
+      });
+
+      expect(result.verified).toBe(true);
+    }
+  });
+
+  it('rejects mismatched challenge, origin, rpId, flags and counters', async () => {
+    const { publicKey, privateKey } = (await subtle.generateKey({ name: 'Ed25519' }, true, [
+      'sign',
+      'verify',
+    ])) as webcrypto.CryptoKeyPair;
+    const raw = new Uint8Array(await subtle.exportKey('raw', publicKey));
+    const response = await signAssertion(privateKey, { name: 'Ed25519' });
+    const base = { response, expectedChallenge: challenge, expectedOrigin: origin, expectedRPID: rpId };
+
+    await expect(
+      verifyAuthentication({ ...base, expectedChallenge: 'other', credential: { publicKey: raw } }),
+    ).rejects.toThrow(/challenge/);
+    await expect(
+      verifyAuthentication({ ...base, expectedOrigin: 'https://evil.example', credential: { publicKey: raw } }),
+    ).rejects.toThrow(/origin/);
+    await expect(
+      verifyAuthentication({ ...base, expectedRPID: 'evil.example', credential: { publicKey: raw } }),
+    ).rejects.toThrow(/rpIdHash/);
+    await expect(verifyAuthentication({ ...base, credential: { publicKey: raw, signCount: 6 } })).rejects.toThrow(
+      /cloned/,
+    );
+
+    const noUv = {
+      ...response,
+      response: { ...response.response, authenticatorData: base64url(assertionAuthData(6, 0x01)) },
+    };
+    await expect(verifyAuthentication({ ...base, response: noUv, credential: { publicKey: raw } })).rejects.toThrow(
+      /UV/,
+    );
+  });
+});
+
+describe('verifyRegistration', () => {
+  async function buildRegistration(fmt: 'none' | 'packed') {
+    const { publicKey, privateKey } = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+      'sign',
+      'verify',
+    ]);
+    const jwk = await subtle.exportKey('jwk', publicKey);
+    const coseKey = cborMap([
+      [cborInt(1), cborInt(2)],
+      [cborInt(3), cborInt(-7)],
+      [cborInt(-1), cborInt(1)],
+      [cborInt(-2), cborBytes(new Uint8Array(Buffer.from(jwk.x as string, 'base64url')))],
+      [cborInt(-3), cborBytes(new Uint8Array(Buffer.from(jwk.y as string, 'base64url')))],
+    ]);
+    const authData = buildAuthData(coseKey);
+    authData.set(rpIdHash, 0);
+    const clientDataJSON = clientData('webauthn.create');
+
+    let attStmt = cborMap([]);
+    if (fmt === 'packed') {
+      const raw = new Uint8Array(
+        await subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, signedPayload(authData, clientDataJSON)),
+      );
+      attStmt = cborMap([
+        [cborText('alg'), cborInt(-7)],
+        [cborText('sig'), cborBytes(toDerSignature(raw))],
+      ]);
+    }
+
+    const attestationObject = cborMap([
+      [cborText('fmt'), cborText(fmt)],
+      [cborText('attStmt'), attStmt],
+      [cborText('authData'), cborBytes(authData)],
+    ]);
+    const credentialId = base64url(new Uint8Array(20).fill(7));
+
+    return {
+      id: credentialId,
+      rawId: credentialId,
+      type: 'public-key' as const,
+      response: { attestationObject: base64url(attestationObject), clientDataJSON: base64url(clientDataJSON) },
+    };
+  }
+
+  it('accepts none attestation and verifies packed self attestation', async () => {
+    const options = { expectedChallenge: challenge, expectedOrigin: origin, expectedRPID: rpId };
+
+    await expect(verifyRegistration({ ...options, response: await buildRegistration('none') })).resolves.toMatchObject({
+      verified: true,
+      attestationType: 'none',
+      signCount: 5,
+    });
+
+    const packed = await verifyRegistration({ ...options, response: await buildRegistration('packed') });
+    expect(packed).toMatchObject({ verified: true, attestationType: 'self', fmt: 'packed' });
+    expect(packed.credentialPublicKey.algorithm).toBe(-7);
+  });
+});
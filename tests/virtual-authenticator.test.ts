@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+
+import { asSimpleWebAuthn } from '../src/adapter';
+import { parseAuthenticatorData } from '../src/authenticator-data';
+import { decodeCbor, encodeCbor } from '../src/cbor';
+import { mapPluginError } from '../src/errors';
+import { CapacitorStorageAdapter, MemoryStorageBackend, saveRegistration } from '../src/storage';
+import { VirtualAuthenticator } from '../src/testing';
+import { verifyAuthentication, verifyRegistration } from '../src/verify';
+
+const rpId = 'example.com';
+const origin = 'https://example.com';
+const expected = { expectedOrigin: origin, expectedRPID: rpId };
+
+function createOptions(challenge: string, alg = -7) {
+  return {
+    publicKey: {
+      challenge,
+      rp: { id: rpId, name: 'Example' },
+      user: { id: 'dXNlci0x', name: 'alice', displayName: 'Alice' },
+      pubKeyCredParams: [{ alg, type: 'public-key' as const }],
+    },
+  };
+}
+
+describe('encodeCbor', () => {
+  it('round-trips WebAuthn structures through decodeCbor', () => {
+    const value = new Map<string | number, unknown>([
+      ['fmt', 'packed'],
+      [-3, new Uint8Array([1, 2, 3])],
+      [1, [true, null, 70000, -500, 2 ** 40]],
+    ]);
+
+    expect(decodeCbor(encodeCbor(value as any))).toEqual(value);
+    expect(Array.from(encodeCbor(-7))).toEqual([0x26]);
+  });
+});
+
+describe('VirtualAuthenticator', () => {
+  it('runs register → store → authenticate with verifiable ES256 signatures', async () => {
+    const authenticator = new VirtualAuthenticator({ attestation: 'packed', backupEligible: true });
+    const storage = new CapacitorStorageAdapter('virtual', { backend: new MemoryStorageBackend() });
+
+    const registration = await authenticator.createPasskey(createOptions('cmVnaXN0ZXI'));
+    await expect(
+      verifyRegistration({ ...expected, response: registration, expectedChallenge: 'cmVnaXN0ZXI' }),
+    ).resolves.toMatchObject({ verified: true, attestationType: 'self', deviceType: 'multiDevice' });
+
+    const stored = await saveRegistration(storage, registration, 'C123');
+    expect(stored.publicKey).toHaveLength(65);
+
+    for (const [challenge, signCount] of [
+      ['Zmlyc3Q', 1],
+      ['c2Vjb25k', 2],
+    ] as const) {
+      const assertion = await authenticator.authenticate({ publicKey: { challenge, rpId } });
+      const result = await verifyAuthentication({
+        ...expected,
+        response: assertion,
+        expectedChallenge: challenge,
+        credential: { publicKey: stored.publicKey, signCount: signCount - 1 },
+      });
+
+      expect(result).toMatchObject({ verified: true, newSignCount: signCount });
+      expect(assertion.response.userHandle).toBe('dXNlci0x');
+    }
+  });
+
+  it('supports EdDSA keys, configurable flags and a fixed sign counter', async () => {
+    const authenticator = new VirtualAuthenticator({ userVerified: false, signCounter: false, backupState: true });
+    const registration = await authenticator.createPasskey(createOptions('Y2hhbGxlbmdl', -8));
+    const assertion = await authenticator.authenticate({
+      publicKey: { challenge: 'Y2hhbGxlbmdl', rpId, allowCredentials: [{ id: registration.id, type: 'public-key' }] },
+    });
+    const authenticatorData = parseAuthenticatorData(assertion.response);
+
+    expect(authenticatorData.flags).toMatchObject({ userVerified: false, backupState: true });
+    expect(authenticatorData.signCount).toBe(0);
+    await expect(
+      verifyAuthentication({
+        ...expected,
+        response: assertion,
+        expectedChallenge: 'Y2hhbGxlbmdl',
+        requireUserVerification: false,
+        credential: { publicKey: registration.response.publicKey ?? '' },
+      }),
+    ).resolves.toMatchObject({ verified: true });
+  });
+
+  it('works through asSimpleWebAuthn and returns PRF outputs', async () => {
+    const authenticator = new VirtualAuthenticator();
+    const adapter = asSimpleWebAuthn(authenticator);
+    await adapter.startRegistration({ optionsJSON: createOptions('cmVn').publicKey as any });
+
+    const salt = { first: 'c2FsdA' };
+    const first = await adapter.startAuthentication({
+      optionsJSON: { challenge: 'YQ', rpId, extensions: { prf: { eval: salt } } } as any,
+    });
+    const second = await adapter.startAuthentication({
+      optionsJSON: { challenge: 'Yg', rpId, extensions: { prf: { eval: salt } } } as any,
+    });
+
+    const firstResult = (first.clientExtensionResults as any).prf.results.first;
+    expect(firstResult).toHaveLength(43);
+    expect((second.clientExtensionResults as any).prf.results.first).toBe(firstResult);
+  });
+
+  it('rejects excluded credentials and unknown RP IDs with plugin error codes', async () => {
+    const authenticator = new VirtualAuthenticator();
+    const registration = await authenticator.createPasskey(createOptions('YQ'));
+    const options = createOptions('Yg');
+
+    const excluded = await authenticator
+      .createPasskey({
+        publicKey: { ...options.publicKey, excludeCredentials: [{ id: registration.id, type: 'public-key' }] },
+      })
+      .catch(mapPluginError);
+    expect(excluded).toMatchObject({ name: 'InvalidStateError', pluginErrorCode: 'DOM_ERROR' });
+
+    await expect(
+      authenticator.authenticate({ publicKey: { challenge: 'YQ', rpId: 'other.example' } }),
+    ).rejects.toMatchObject({ code: 'NO_CREDENTIAL' });
+  });
+
+  it('applies Signal API calls to its stored credentials', async () => {
+    const authenticator = new VirtualAuthenticator();
+    const kept = await authenticator.createPasskey(createOptions('YQ'));
+    await authenticator.createPasskey(createOptions('Yg'));
+
+    await authenticator.signalAllAcceptedCredentials({ rpId, userId: 'dXNlci0x', allAcceptedCredentialIds: [kept.id] });
+    await authenticator.signalCurrentUserDetails({ rpId, userId: 'dXNlci0x', name: 'bob', displayName: 'Bob' });
+
+    expect(authenticator.getCredentials()).toEqual([
+      expect.objectContaining({ credentialId: kept.id, userName: 'bob', userDisplayName: 'Bob' }),
+    ]);
+
+    await authenticator.signalUnknownCredential({ rpId, credentialId: kept.id });
+    expect(authenticator.getCredentials()).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { mapPluginError, PasskeyError } from '../src/errors';
+import { WebPasskeyPlugin } from '../src/web';
+
+const authOptions = { publicKey: { challenge: 'Y2hhbGxlbmdl', rpId: 'example.com', timeout: 20 } };
+
+let lastSignal: AbortSignal | undefined;
+
+function pendingUntilAborted(options: { signal?: AbortSignal }): Promise<never> {
+  lastSignal = options.signal;
+  return new Promise((_, reject) => {
+    options.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+  });
+}
+
+describe('WebPasskeyPlugin cancellation', () => {
+  beforeEach(() => {
+    lastSignal = undefined;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubGlobal('navigator', { credentials: { create: vi.fn(), get: vi.fn(pendingUntilAborted) } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('aborts the underlying request on timeout and rejects with TIMEOUT', async () => {
+    const plugin = new WebPasskeyPlugin();
+
+    await expect(plugin.authenticate(authOptions)).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      reason: 'timed-out',
+      ceremony: 'get',
+      platform: 'web',
+    });
+    expect(lastSignal?.aborted).toBe(true);
+  });
+
+  it('rejects with INTERRUPTED when the caller aborts', async () => {
+    const plugin = new WebPasskeyPlugin();
+    const controller = new AbortController();
+
+    const pending = plugin.authenticate({
+      ...authOptions,
+      publicKey: { ...authOptions.publicKey, timeout: 0 },
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const error = await pending.catch((reason) => reason);
+    expect(error.code).toBe('INTERRUPTED');
+    expect(mapPluginError(error).name).toBe('AbortError');
+    expect(lastSignal?.aborted).toBe(true);
+  });
+
+  it('rejects immediately for an already aborted signal', async () => {
+    const plugin = new WebPasskeyPlugin();
+
+    await expect(plugin.authenticate({ ...authOptions, signal: AbortSignal.abort() })).rejects.toMatchObject({
+      code: 'INTERRUPTED',
+    });
+    expect(lastSignal).toBeUndefined();
+  });
+
+  it('cancels the pending ceremony through cancelOperation', async () => {
+    const plugin = new WebPasskeyPlugin();
+
+    const pending = plugin.authenticate({ ...authOptions, publicKey: { ...authOptions.publicKey, timeout: 0 } });
+    await plugin.cancelOperation();
+
+    await expect(pending).rejects.toMatchObject({ code: 'INTERRUPTED' });
+  });
+
+  it('rejects invalid options with INVALID_INPUT before calling the browser', async () => {
+    const error = await new WebPasskeyPlugin()
+      .authenticate({ publicKey: { ...authOptions.publicKey, timeout: -1 } })
+      .catch((reason) => reason);
+
+    expect(error).toMatchObject({ code: 'INVALID_INPUT', issues: [{ path: 'publicKey.timeout' }] });
+    expect(navigator.credentials.get).not.toHaveBeenCalled();
+  });
+
+  it('rejects with PasskeyError for browser DOMExceptions', async () => {
+    const cause = new DOMException('The operation either timed out or was not allowed.', 'NotAllowedError');
+    vi.stubGlobal('navigator', { credentials: { create: vi.fn(), get: vi.fn(async () => Promise.reject(cause)) } });
+
+    const error = await new WebPasskeyPlugin().authenticate(authOptions).catch((reason) => reason);
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error).toMatchObject({ name: 'NotAllowedError', code: 'CANCELLED', reason: 'user-cancelled' });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('treats NotAllowedError after the deadline as a browser-side timeout', async () => {
+    const cause = new DOMException('The operation either timed out or was not allowed.', 'NotAllowedError');
+    const startedAt = Date.now();
+    const get = vi.fn(async () => {
+      // The browser's own timer fired before the plugin's
+      vi.spyOn(Date, 'now').mockReturnValue(startedAt + 60000);
+      throw cause;
+    });
+    vi.stubGlobal('navigator', { credentials: { create: vi.fn(), get } });
+
+    const error = await new WebPasskeyPlugin()
+      .authenticate({ publicKey: { ...authOptions.publicKey, timeout: 30000 } })
+      .catch((reason) => reason);
+    expect(error).toMatchObject({ name: 'AbortError', code: 'TIMEOUT', reason: 'timed-out', ceremony: 'get' });
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe('WebPasskeyPlugin browser JSON methods', () => {
+  const createOptions = {
+    publicKey: {
+      challenge: 'YQ',
+      rp: { id: 'example.com', name: 'Example' },
+      user: { id: 'dQ', name: 'alice', displayName: 'Alice' },
+      pubKeyCredParams: [{ type: 'public-key' as const, alg: -7 }],
+    },
+  };
+
+  function stubPublicKeyCredential(toJSON?: () => unknown) {
+    const parsed = { challenge: new Uint8Array([0x61]).buffer };
+    const parseCreationOptionsFromJSON = vi.fn(() => parsed);
+    function PublicKeyCredential() {
+      // Stand-in for the browser interface
+    }
+    Object.assign(PublicKeyCredential, { parseCreationOptionsFromJSON, parseRequestOptionsFromJSON: vi.fn() });
+    if (toJSON) {
+      PublicKeyCredential.prototype.toJSON = toJSON;
+    }
+    vi.stubGlobal('PublicKeyCredential', PublicKeyCredential);
+    return { parsed, parseCreationOptionsFromJSON };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('parses options and serializes results with the browser, under the plugin ceremony', async () => {
+    const { parsed, parseCreationOptionsFromJSON } = stubPublicKeyCredential(() => undefined);
+    const responseJSON = {
+      id: 'browser-id',
+      rawId: 'browser-id',
+      type: 'public-key',
+      authenticatorAttachment: 'platform',
+      clientExtensionResults: {},
+      response: { attestationObject: 'att', clientDataJSON: 'cdj', transports: ['internal'] },
+    };
+    const create = vi.fn(async () => ({ toJSON: () => responseJSON }));
+    vi.stubGlobal('navigator', { credentials: { create, get: vi.fn(pendingUntilAborted) } });
+    const plugin = new WebPasskeyPlugin();
+
+    await expect(plugin.createPasskey(createOptions)).resolves.toMatchObject({
+      id: 'browser-id',
+      authenticatorAttachment: 'platform',
+      response: { attestationObject: 'att', clientDataJSON: 'cdj', transports: ['internal'] },
+    });
+    expect(parseCreationOptionsFromJSON).toHaveBeenCalledWith(expect.objectContaining(createOptions.publicKey));
+    expect(create).toHaveBeenCalledWith({ publicKey: parsed, signal: expect.any(AbortSignal) });
+
+    const pending = plugin.authenticate({ ...authOptions, publicKey: { ...authOptions.publicKey, timeout: 0 } });
+    await plugin.cancelOperation();
+    await expect(pending).rejects.toMatchObject({ code: 'INTERRUPTED' });
+  });
+
+  it('converts the fields itself when the browser has no PublicKeyCredential.prototype.toJSON', async () => {
+    const { parseCreationOptionsFromJSON } = stubPublicKeyCredential();
+    const create = vi.fn(async () => null);
+    vi.stubGlobal('navigator', { credentials: { create, get: vi.fn() } });
+
+    await expect(new WebPasskeyPlugin().createPasskey(createOptions)).rejects.toMatchObject({ code: 'UNKNOWN_ERROR' });
+    expect(parseCreationOptionsFromJSON).not.toHaveBeenCalled();
+    expect(create.mock.calls[0][0].publicKey.challenge).toBeInstanceOf(ArrayBuffer);
+  });
+});
+
+describe('WebPasskeyPlugin.getCapabilities', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports everything unsupported without WebAuthn', async () => {
+    vi.stubGlobal('PublicKeyCredential', undefined);
+
+    const capabilities = await new WebPasskeyPlugin().getCapabilities();
+
+    expect(capabilities.platformAuthenticator).toBe(false);
+    expect(capabilities.extensions).toEqual({ prf: false, largeBlob: false });
+  });
+
+  it('maps getClientCapabilities keys', async () => {
+    vi.stubGlobal('PublicKeyCredential', {
+      getClientCapabilities: async () => ({
+        userVerifyingPlatformAuthenticator: true,
+        conditionalGet: true,
+        hybridTransport: true,
+        relatedOrigins: false,
+        'extension:prf': true,
+        signalUnknownCredential: true,
+      }),
+      isUserVerifyingPlatformAuthenticatorAvailable: async () => false,
+    });
+
+    const capabilities = await new WebPasskeyPlugin().getCapabilities();
+
+    expect(capabilities).toEqual({
+      platformAuthenticator: true,
+      conditionalMediation: true,
+      hybridTransport: true,
+      relatedOrigins: false,
+      extensions: { prf: true, largeBlob: false },
+      signals: { unknownCredential: true, allAcceptedCredentials: false, currentUserDetails: false },
+    });
+  });
+
+  it('falls back to individual feature checks', async () => {
+    vi.stubGlobal('PublicKeyCredential', {
+      isUserVerifyingPlatformAuthenticatorAvailable: async () => true,
+      isConditionalMediationAvailable: async () => {
+        throw new Error('not allowed');
+      },
+      signalCurrentUserDetails: async () => undefined,
+    });
+
+    const capabilities = await new WebPasskeyPlugin().getCapabilities();
+
+    expect(capabilities.platformAuthenticator).toBe(true);
+    expect(capabilities.conditionalMediation).toBe(false);
+    expect(capabilities.signals.currentUserDetails).toBe(true);
+  });
+});
+
+describe('WebPasskeyPlugin signals', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards signals to PublicKeyCredential', async () => {
+    const signalUnknownCredential = vi.fn(async () => undefined);
+    const signalCurrentUserDetails = vi.fn(async () => undefined);
+    vi.stubGlobal('PublicKeyCredential', { signalUnknownCredential, signalCurrentUserDetails });
+    const plugin = new WebPasskeyPlugin();
+
+    await plugin.signalUnknownCredential({ rpId: 'example.com', credentialId: 'Y3JlZA' });
+    await plugin.signalCurrentUserDetails({ rpId: 'example.com', userId: 'dXNlcg', name: 'a@b.c', displayName: 'A' });
+
+    expect(signalUnknownCredential).toHaveBeenCalledWith({ rpId: 'example.com', credentialId: 'Y3JlZA' });
+    expect(signalCurrentUserDetails).toHaveBeenCalledWith({
+      rpId: 'example.com',
+      userId: 'dXNlcg',
+      name: 'a@b.c',
+      displayName: 'A',
+    });
+  });
+
+  it('resolves as a no-op without the Signal API and maps browser errors', async () => {
+    vi.stubGlobal('PublicKeyCredential', {});
+    const plugin = new WebPasskeyPlugin();
+
+    await expect(
+      plugin.signalAllAcceptedCredentials({ rpId: 'example.com', userId: 'dXNlcg', allAcceptedCredentialIds: [] }),
+    ).resolves.toBeUndefined();
+
+    vi.stubGlobal('PublicKeyCredential', {
+      signalUnknownCredential: async () => {
+        throw new TypeError('Invalid base64url');
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(plugin.signalUnknownCredential({ rpId: 'example.com', credentialId: '***' })).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+    });
+  });
+});
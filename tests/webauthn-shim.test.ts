@@ -0,0 +1,115 @@
+import { Capacitor } from '@capacitor/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { installWebAuthnShim, uninstallWebAuthnShim } from '../src/shim';
+import { VirtualAuthenticator } from '../src/testing';
+import { verifyAuthentication, verifyRegistration } from '../src/verify';
+
+const rpId = 'example.com';
+const expected = { expectedOrigin: 'https://example.com', expectedRPID: rpId };
+
+function bytes(...values: number[]) {
+  return new Uint8Array(values);
+}
+
+function stubCredentialsContainer() {
+  const original = {
+    create: vi.fn(async () => null),
+    get: vi.fn(async () => ({ type: 'password' })),
+  };
+  vi.stubGlobal('navigator', { credentials: { ...original } });
+  return original;
+}
+
+describe('installWebAuthnShim', () => {
+  afterEach(() => {
+    uninstallWebAuthnShim();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('routes navigator.credentials through the plugin and rebuilds PublicKeyCredentials', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    stubCredentialsContainer();
+    const authenticator = new VirtualAuthenticator({ rpId });
+    installWebAuthnShim(authenticator);
+
+    const registration = (await navigator.credentials.create({
+      publicKey: {
+        challenge: bytes(1, 2, 3).buffer,
+        rp: { id: rpId, name: 'Example' },
+        user: { id: bytes(4, 5), name: 'alice', displayName: 'Alice' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+        extensions: { credProps: true },
+      },
+    })) as PublicKeyCredential;
+    const attestation = registration.response as AuthenticatorAttestationResponse;
+    const publicKey = new Uint8Array(attestation.getPublicKey() as ArrayBuffer);
+
+    expect(registration.rawId).toBeInstanceOf(ArrayBuffer);
+    expect(attestation.attestationObject).toBeInstanceOf(ArrayBuffer);
+    expect(attestation.getTransports()).toEqual(['internal', 'hybrid']);
+    expect(publicKey).toHaveLength(91);
+    expect(attestation.getPublicKeyAlgorithm()).toBe(-7);
+    expect(registration.getClientExtensionResults()).toEqual({ credProps: { rk: true } });
+    await expect(
+      verifyRegistration({ ...expected, response: registration.toJSON() as any, expectedChallenge: 'AQID' }),
+    ).resolves.toMatchObject({ verified: true });
+
+    const assertion = (await navigator.credentials.get({
+      publicKey: {
+        challenge: bytes(6, 7).buffer,
+        allowCredentials: [{ type: 'public-key', id: registration.rawId }],
+      },
+    })) as PublicKeyCredential;
+    const response = assertion.response as AuthenticatorAssertionResponse;
+
+    expect(assertion.id).toBe(registration.id);
+    expect(new Uint8Array(response.userHandle as ArrayBuffer)).toEqual(bytes(4, 5));
+    expect(response.signature).toBeInstanceOf(ArrayBuffer);
+    await expect(
+      verifyAuthentication({
+        ...expected,
+        response: assertion.toJSON() as any,
+        expectedChallenge: 'Bgc',
+        credential: { credentialId: registration.id, publicKey },
+      }),
+    ).resolves.toMatchObject({ verified: true });
+  });
+
+  it('passes other credential types through and restores the original methods', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    const original = stubCredentialsContainer();
+    const authenticate = vi.fn();
+    const uninstall = installWebAuthnShim({ authenticate } as any);
+
+    await expect(navigator.credentials.get({ password: true } as any)).resolves.toEqual({ type: 'password' });
+    expect(original.get).toHaveBeenCalledWith({ password: true });
+    expect(authenticate).not.toHaveBeenCalled();
+
+    uninstall();
+    expect(navigator.credentials.get).toBe(original.get);
+    expect(navigator.credentials.create).toBe(original.create);
+  });
+
+  it('restores the original navigator.credentials property when it had to define the container', () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    vi.stubGlobal('navigator', { credentials: undefined });
+    const descriptor = Object.getOwnPropertyDescriptor(navigator, 'credentials');
+
+    const uninstall = installWebAuthnShim(new VirtualAuthenticator({ rpId }));
+    expect(typeof navigator.credentials.create).toBe('function');
+
+    uninstall();
+    expect(Object.getOwnPropertyDescriptor(navigator, 'credentials')).toEqual(descriptor);
+  });
+
+  it('leaves navigator.credentials alone on web', () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    const original = stubCredentialsContainer();
+
+    installWebAuthnShim(new VirtualAuthenticator({ rpId }));
+
+    expect(navigator.credentials.create).toBe(original.create);
+  });
+});